@@ -0,0 +1,349 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { toast } from "sonner";
+import { BellRing, Check, Handshake, Signature, UserMinus, X } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import ProofGallery from "@/components/ProofGallery";
+import { ProofItem } from "@/lib/proofs";
+
+type PartnerRow = Database["public"]["Functions"]["get_partners"]["Returns"][number];
+type PartnerReview = Database["public"]["Functions"]["get_partner_reviews"]["Returns"][number];
+
+type PartnerTask = {
+  id: string;
+  user_id: string;
+  title: string;
+  status: string;
+  priority: string | null;
+  deadline: string | null;
+};
+
+interface AccountabilityPartnersProps {
+  userId: string;
+}
+
+const STATUS_LABEL: Record<string, string> = {
+  todo: "To Do",
+  in_progress: "In Progress",
+  pending_review: "In Review",
+};
+
+/**
+ * AccountabilityPartners
+ * - Incoming / outgoing partner requests (sent from a member's profile)
+ * - Each partner's open tasks, with a nudge button
+ * - Partners' pending proofs, which can be co-signed
+ */
+const AccountabilityPartners = ({ userId }: AccountabilityPartnersProps) => {
+  const [partners, setPartners] = useState<PartnerRow[]>([]);
+  const [tasks, setTasks] = useState<PartnerTask[]>([]);
+  const [reviews, setReviews] = useState<PartnerReview[]>([]);
+  const [proofs, setProofs] = useState<Record<string, ProofItem[]>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchAll = useCallback(async () => {
+    const { data, error } = await supabase.rpc("get_partners");
+    if (error) {
+      console.error("Failed to load partners:", error);
+      return;
+    }
+    const rows = data || [];
+    setPartners(rows);
+
+    const accepted = rows.filter((p) => p.status === "accepted").map((p) => p.partner_id);
+    if (accepted.length === 0) {
+      setTasks([]);
+      setReviews([]);
+      return;
+    }
+
+    const [{ data: taskRows }, { data: reviewRows }] = await Promise.all([
+      supabase
+        .from("tasks")
+        .select("id, user_id, title, status, priority, deadline")
+        .in("user_id", accepted)
+        .in("status", ["todo", "in_progress", "pending_review"])
+        .order("deadline", { ascending: true, nullsFirst: false }),
+      supabase.rpc("get_partner_reviews"),
+    ]);
+    setTasks((taskRows as PartnerTask[]) || []);
+    setReviews(reviewRows || []);
+
+    const reviewIds = (reviewRows || []).map((r) => r.review_id);
+    if (reviewIds.length === 0) return;
+    const { data: proofRows } = await supabase
+      .from("task_proofs")
+      .select("review_id, kind, url, caption")
+      .in("review_id", reviewIds)
+      .order("position");
+    const byReview: Record<string, ProofItem[]> = {};
+    for (const row of proofRows || []) {
+      (byReview[row.review_id] ||= []).push(row as ProofItem);
+    }
+    setProofs(byReview);
+  }, []);
+
+  useEffect(() => {
+    fetchAll();
+
+    const channel = supabase
+      .channel("accountability-partners")
+      .on("postgres_changes", { event: "*", schema: "public", table: "accountability_partners" }, () => fetchAll())
+      .on("postgres_changes", { event: "*", schema: "public", table: "task_reviews" }, () => fetchAll())
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [fetchAll, userId]);
+
+  const run = async (
+    id: string,
+    action: () => PromiseLike<{ error: { message: string } | null }>,
+    success: string
+  ) => {
+    setBusyId(id);
+    const { error } = await action();
+    setBusyId(null);
+    if (error) {
+      toast.error(error.message || "Something went wrong");
+      return;
+    }
+    toast.success(success);
+    fetchAll();
+  };
+
+  const incoming = partners.filter((p) => p.status === "pending" && p.is_incoming);
+  const outgoing = partners.filter((p) => p.status === "pending" && !p.is_incoming);
+  const accepted = partners.filter((p) => p.status === "accepted");
+
+  const PartnerAvatar = ({ p }: { p: PartnerRow }) => (
+    <Avatar className="h-9 w-9 border">
+      <AvatarImage src={p.avatar_url || undefined} />
+      <AvatarFallback>{p.username.slice(0, 2).toUpperCase()}</AvatarFallback>
+    </Avatar>
+  );
+
+  return (
+    <div className="space-y-6">
+      {(incoming.length > 0 || outgoing.length > 0) && (
+        <Card>
+          <CardHeader className="py-4">
+            <CardTitle className="text-lg font-semibold">Requests</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {incoming.map((p) => (
+              <div key={p.partnership_id} className="flex items-center gap-3 rounded-lg border p-3">
+                <PartnerAvatar p={p} />
+                <Link to={`/profile/${p.partner_id}`} className="flex-1 font-medium hover:underline">
+                  {p.username}
+                </Link>
+                <Button
+                  size="sm"
+                  className="gap-1"
+                  disabled={busyId === p.partnership_id}
+                  onClick={() =>
+                    run(
+                      p.partnership_id,
+                      () => supabase.rpc("respond_partner_request", { p_partnership_id: p.partnership_id, p_accept: true }),
+                      "You are now partners"
+                    )
+                  }
+                >
+                  <Check className="h-4 w-4" /> Accept
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-1"
+                  disabled={busyId === p.partnership_id}
+                  onClick={() =>
+                    run(
+                      p.partnership_id,
+                      () => supabase.rpc("respond_partner_request", { p_partnership_id: p.partnership_id, p_accept: false }),
+                      "Request declined"
+                    )
+                  }
+                >
+                  <X className="h-4 w-4" /> Decline
+                </Button>
+              </div>
+            ))}
+            {outgoing.map((p) => (
+              <div key={p.partnership_id} className="flex items-center gap-3 rounded-lg border border-dashed p-3">
+                <PartnerAvatar p={p} />
+                <div className="flex-1">
+                  <Link to={`/profile/${p.partner_id}`} className="font-medium hover:underline">
+                    {p.username}
+                  </Link>
+                  <div className="text-xs text-muted-foreground">
+                    Requested {formatDistanceToNow(new Date(p.created_at), { addSuffix: true })}
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={busyId === p.partnership_id}
+                  onClick={() =>
+                    run(
+                      p.partnership_id,
+                      () => supabase.rpc("remove_partner", { p_partnership_id: p.partnership_id }),
+                      "Request withdrawn"
+                    )
+                  }
+                >
+                  Withdraw
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {reviews.length > 0 && (
+        <Card>
+          <CardHeader className="py-4">
+            <CardTitle className="text-lg font-semibold flex items-center gap-2">
+              <Signature className="h-5 w-5 text-primary" />
+              Proofs to co-sign
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {reviews.map((r) => (
+              <div key={r.review_id} className="flex flex-col sm:flex-row sm:items-center gap-3 rounded-lg border p-3">
+                {proofs[r.review_id]?.length ? (
+                  <div className="sm:w-72 shrink-0">
+                    <ProofGallery proofs={proofs[r.review_id]} compact />
+                  </div>
+                ) : (
+                  <a href={r.proof_url} target="_blank" rel="noreferrer" className="shrink-0">
+                    <img src={r.proof_url} alt="Proof" className="h-16 w-24 object-cover rounded-md border" />
+                  </a>
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium truncate">{r.task_title}</div>
+                  <div className="text-xs text-muted-foreground">
+                    by {r.submitter_username} ·{" "}
+                    {formatDistanceToNow(new Date(r.created_at), { addSuffix: true })}
+                  </div>
+                </div>
+                {r.cosigned ? (
+                  <Badge variant="secondary" className="gap-1">
+                    <Check className="h-3 w-3" /> Co-signed
+                  </Badge>
+                ) : (
+                  <Button
+                    size="sm"
+                    className="gap-1"
+                    disabled={busyId === r.review_id}
+                    onClick={() =>
+                      run(r.review_id, () => supabase.rpc("cosign_task_proof", { p_review_id: r.review_id }), "Proof co-signed")
+                    }
+                  >
+                    <Signature className="h-4 w-4" /> Co-sign
+                  </Button>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {accepted.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-center border-2 border-dashed rounded-xl bg-muted/10">
+          <div className="bg-muted p-4 rounded-full mb-4">
+            <Handshake className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-medium">No accountability partners yet</h3>
+          <p className="text-sm text-muted-foreground mt-1 max-w-xs">
+            Open a member's profile from the leaderboard to send a partner request.
+          </p>
+        </div>
+      ) : (
+        accepted.map((p) => {
+          const open = tasks.filter((t) => t.user_id === p.partner_id);
+          return (
+            <Card key={p.partnership_id}>
+              <CardHeader className="py-4 flex flex-row items-center gap-3 space-y-0">
+                <PartnerAvatar p={p} />
+                <div className="flex-1">
+                  <Link to={`/profile/${p.partner_id}`} className="font-semibold hover:underline">
+                    {p.username}
+                  </Link>
+                  <div className="text-xs text-muted-foreground">
+                    {open.length} open task{open.length === 1 ? "" : "s"}
+                    {p.assigned_by_admin && " · paired by admin"}
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="gap-1 text-muted-foreground hover:text-destructive"
+                  disabled={busyId === p.partnership_id}
+                  onClick={() =>
+                    run(
+                      p.partnership_id,
+                      () => supabase.rpc("remove_partner", { p_partnership_id: p.partnership_id }),
+                      "Partnership ended"
+                    )
+                  }
+                >
+                  <UserMinus className="h-4 w-4" /> End
+                </Button>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {open.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nothing open right now.</p>
+                ) : (
+                  open.map((t) => {
+                    const overdue = !!t.deadline && new Date(t.deadline) < new Date();
+                    return (
+                      <div key={t.id} className="flex items-center gap-3 rounded-lg border p-3">
+                        <div className="flex-1 min-w-0">
+                          <div className="font-medium truncate">{t.title}</div>
+                          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                            <Badge variant="outline" className="text-[10px] h-5">
+                              {STATUS_LABEL[t.status] ?? t.status}
+                            </Badge>
+                            {t.priority && <span className="capitalize">{t.priority}</span>}
+                            {t.deadline && (
+                              <span className={overdue ? "text-destructive font-medium" : ""}>
+                                Due {format(new Date(t.deadline), "MMM d, h:mm a")}
+                                {overdue && " · Overdue"}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        {t.status !== "pending_review" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="gap-1"
+                            disabled={busyId === t.id}
+                            onClick={() =>
+                              run(t.id, () => supabase.rpc("nudge_partner_task", { p_task_id: t.id }), `Nudged ${p.username}`)
+                            }
+                          >
+                            <BellRing className="h-4 w-4" /> Nudge
+                          </Button>
+                        )}
+                      </div>
+                    );
+                  })
+                )}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default AccountabilityPartners;
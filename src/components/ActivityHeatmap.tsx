@@ -0,0 +1,199 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { format } from "date-fns";
+import { BookOpen, CheckCircle2, Flame, Loader2, MessageSquare, Users, X } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import {
+  ACTIVITY_LABELS,
+  ActivityDay,
+  ActivityItem,
+  ActivityKind,
+  buildHeatmapWeeks,
+  heatmapRange,
+  monthLabels,
+} from "@/lib/heatmap";
+
+interface ActivityHeatmapProps {
+  userId: string;
+  className?: string;
+}
+
+const LEVEL_CLASSES = [
+  "bg-muted",
+  "bg-emerald-200",
+  "bg-emerald-400",
+  "bg-emerald-600",
+  "bg-emerald-800",
+];
+
+const KIND_ICONS: Record<ActivityKind, LucideIcon> = {
+  log: BookOpen,
+  task: CheckCircle2,
+  post: Users,
+  message: MessageSquare,
+};
+
+const day = (date: string) => new Date(`${date}T00:00:00`);
+
+/**
+ * ActivityHeatmap
+ * - A year of logs, completed tasks, posts and messages, one cell per day
+ * - Clicking a day lists what was done; other members only see what they are allowed to
+ */
+const ActivityHeatmap = ({ userId, className }: ActivityHeatmapProps) => {
+  const [days, setDays] = useState<ActivityDay[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [items, setItems] = useState<ActivityItem[]>([]);
+  const [loadingItems, setLoadingItems] = useState(false);
+  const range = useMemo(() => heatmapRange(), []);
+
+  useEffect(() => {
+    setSelected(null);
+    (async () => {
+      const { data, error } = await supabase.rpc("get_activity_heatmap", {
+        p_user_id: userId,
+        p_start: range.start,
+        p_end: range.end,
+      });
+      if (error) {
+        console.error("Failed to load activity heatmap:", error);
+        return;
+      }
+      setDays(data || []);
+    })();
+  }, [userId, range]);
+
+  useEffect(() => {
+    if (!selected) return;
+    let cancelled = false;
+    (async () => {
+      setLoadingItems(true);
+      const { data, error } = await supabase.rpc("get_activity_day", { p_user_id: userId, p_day: selected });
+      if (cancelled) return;
+      setLoadingItems(false);
+      if (error) {
+        console.error("Failed to load activity for day:", error);
+        setItems([]);
+        return;
+      }
+      setItems(data || []);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, selected]);
+
+  const weeks = useMemo(() => buildHeatmapWeeks(days, range.start, range.end), [days, range]);
+  const months = useMemo(() => monthLabels(weeks), [weeks]);
+  const total = days.reduce((sum, d) => sum + d.total, 0);
+  const activeDays = days.filter((d) => d.total > 0).length;
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-semibold flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Flame className="h-4 w-4 text-orange-500" />
+            Activity
+          </span>
+          <span className="text-xs font-normal text-muted-foreground">
+            {total} {total === 1 ? "activity" : "activities"} on {activeDays} days in the last year
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="overflow-x-auto pb-1">
+          <div className="inline-flex flex-col gap-1">
+            <div className="flex gap-[3px] pl-7 text-[10px] text-muted-foreground">
+              {months.map((m, i) => (
+                <div key={i} className="w-[11px] overflow-visible whitespace-nowrap">
+                  {m}
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-[3px]">
+              <div className="flex w-6 flex-col gap-[3px] text-[10px] leading-[11px] text-muted-foreground">
+                {["", "Mon", "", "Wed", "", "Fri", ""].map((d, i) => (
+                  <div key={i} className="h-[11px]">
+                    {d}
+                  </div>
+                ))}
+              </div>
+              {weeks.map((week, i) => (
+                <div key={i} className="flex flex-col gap-[3px]">
+                  {week.map((cell) =>
+                    cell.inRange ? (
+                      <button
+                        key={cell.date}
+                        type="button"
+                        title={`${cell.total} ${cell.total === 1 ? "activity" : "activities"} on ${format(day(cell.date), "MMM d, yyyy")}`}
+                        aria-label={`${cell.total} activities on ${cell.date}`}
+                        onClick={() => setSelected(cell.date === selected ? null : cell.date)}
+                        className={cn(
+                          "h-[11px] w-[11px] rounded-[2px] transition-transform hover:scale-125",
+                          LEVEL_CLASSES[cell.level],
+                          cell.date === selected && "ring-2 ring-primary ring-offset-1"
+                        )}
+                      />
+                    ) : (
+                      <div key={cell.date} className="h-[11px] w-[11px]" />
+                    )
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-1 text-[10px] text-muted-foreground">
+          Less
+          {LEVEL_CLASSES.map((c) => (
+            <div key={c} className={cn("h-[11px] w-[11px] rounded-[2px]", c)} />
+          ))}
+          More
+        </div>
+
+        {selected && (
+          <div className="rounded-lg border p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-semibold">{format(day(selected), "EEEE, MMMM d, yyyy")}</span>
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setSelected(null)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            {loadingItems ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" /> Loading...
+              </div>
+            ) : items.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No activity on this day.</p>
+            ) : (
+              <ul className="space-y-1.5">
+                {items.map((item) => {
+                  const kind = item.kind as ActivityKind;
+                  const Icon = KIND_ICONS[kind] ?? BookOpen;
+                  return (
+                    <li key={`${item.kind}-${item.item_id}`} className="flex items-start gap-2 text-sm">
+                      <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0 flex-1">
+                        <div className="truncate">{item.title}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {ACTIVITY_LABELS[kind] ?? item.kind} · {format(new Date(item.created_at), "h:mm a")}
+                        </div>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActivityHeatmap;
@@ -37,6 +37,10 @@ import {
 } from "lucide-react";
 import { format } from "date-fns";
 import { compressVideo } from "@/lib/compressVideo";
+import ProofGallery from "@/components/ProofGallery";
+import MarkdownEditor from "@/components/MarkdownEditor";
+import MarkdownContent from "@/components/MarkdownContent";
+import { parseProofItems } from "@/lib/proofs";
 import {
   DropdownMenu,
   DropdownMenuTrigger,
@@ -53,6 +57,7 @@ interface BlogPost {
   likes_count: number;
   created_at: string;
   image_url?: string | null;
+  attachments?: unknown;
   profiles: {
     username: string;
     full_name: string | null;
@@ -426,14 +431,14 @@ const BlogFeed = ({ userId }: BlogFeedProps) => {
 
                 <div className="grid gap-2">
                   <Label htmlFor="content">Content</Label>
-                  <Textarea
+                  <MarkdownEditor
                     id="content"
                     value={newPost.content}
-                    onChange={(e) =>
-                      setNewPost({ ...newPost, content: e.target.value })
+                    onChange={(content) =>
+                      setNewPost((prev) => ({ ...prev, content }))
                     }
+                    folder="posts"
                     placeholder="What's on your mind today?"
-                    className="min-h-[150px] resize-y"
                   />
                 </div>
 
@@ -594,13 +599,18 @@ const BlogFeed = ({ userId }: BlogFeedProps) => {
                   <h3 className="text-lg font-bold leading-tight">
                     {post.title}
                   </h3>
-                  <p className="text-sm text-foreground/90 whitespace-pre-wrap leading-relaxed">
-                    {post.content}
-                  </p>
+                  <MarkdownContent
+                    content={post.content}
+                    className="text-sm text-foreground/90"
+                  />
                 </div>
 
                 {/* Media Rendering */}
-                {post.image_url && (
+                {parseProofItems(post.attachments).length > 0 ? (
+                  <div className="mt-3">
+                    <ProofGallery proofs={parseProofItems(post.attachments)} />
+                  </div>
+                ) : post.image_url && (
                   <div className="rounded-lg overflow-hidden border bg-black/5 mt-3">
                     {post.image_url.match(/\.(mp4|webm|ogg)$/i) ? (
                       <div className="relative">
@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { BookOpen, Keyboard, MessageSquare, Newspaper, Plus, Target, User as UserIcon } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import { DashboardSection, SHORTCUTS } from "@/lib/shortcuts";
+import { markdownToText } from "@/lib/markdown";
+
+type ResultKind = "task" | "log" | "post" | "message" | "user";
+
+interface SearchResult {
+  id: string;
+  kind: ResultKind;
+  title: string;
+  detail: string;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  sections: { key: string; label: string; icon: LucideIcon }[];
+  onSection: (section: DashboardSection) => void;
+  onNewTask: () => void;
+  onNewLog: () => void;
+  onShowShortcuts: () => void;
+}
+
+const RESULT_LIMIT = 5;
+const SEARCH_DEBOUNCE_MS = 250;
+
+const RESULT_GROUPS: { kind: ResultKind; heading: string; icon: LucideIcon }[] = [
+  { kind: "task", heading: "Tasks", icon: Target },
+  { kind: "log", heading: "Daily Logs", icon: BookOpen },
+  { kind: "post", heading: "Community Posts", icon: Newspaper },
+  { kind: "message", heading: "Messages", icon: MessageSquare },
+  { kind: "user", heading: "Members", icon: UserIcon },
+];
+
+// which section a search result opens
+const RESULT_SECTION: Record<Exclude<ResultKind, "user">, DashboardSection> = {
+  task: "tasks",
+  log: "logs",
+  post: "community",
+  message: "chat",
+};
+
+const keysFor = (section: string) =>
+  SHORTCUTS.find((s) => s.action.type === "section" && s.action.section === section)?.keys.join(" ");
+
+const snippet = (text: string | null, max = 80) => {
+  const flat = markdownToText(text || "").replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max)}…` : flat;
+};
+
+/**
+ * CommandPalette (Ctrl/Cmd+K)
+ * - Switch dashboard sections, create a task or daily log, open the shortcut list
+ * - Searches the member's tasks and logs, community posts, chat messages and members
+ */
+const CommandPalette = ({
+  open,
+  onOpenChange,
+  userId,
+  sections,
+  onSection,
+  onNewTask,
+  onNewLog,
+  onShowShortcuts,
+}: CommandPaletteProps) => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    if (!open) setQuery("");
+  }, [open]);
+
+  useEffect(() => {
+    // PostgREST "or" filters use commas and parentheses as separators
+    const term = query.replace(/[,()%*\\]/g, " ").trim();
+    if (term.length < 2) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timer = window.setTimeout(async () => {
+      const like = `%${term}%`;
+      const [tasks, logs, posts, messages, users] = await Promise.all([
+        supabase
+          .from("tasks")
+          .select("id, title, description")
+          .eq("user_id", userId)
+          .or(`title.ilike.${like},description.ilike.${like}`)
+          .order("created_at", { ascending: false })
+          .limit(RESULT_LIMIT),
+        supabase
+          .from("daily_logs")
+          .select("id, title, content")
+          .eq("user_id", userId)
+          .or(`title.ilike.${like},content.ilike.${like}`)
+          .order("created_at", { ascending: false })
+          .limit(RESULT_LIMIT),
+        supabase
+          .from("blog_posts")
+          .select("id, title, content")
+          .or(`title.ilike.${like},content.ilike.${like}`)
+          .order("created_at", { ascending: false })
+          .limit(RESULT_LIMIT),
+        supabase
+          .from("messages")
+          .select("id, content, created_at")
+          .ilike("content", like)
+          .or("is_deleted.is.null,is_deleted.eq.false")
+          .order("created_at", { ascending: false })
+          .limit(RESULT_LIMIT),
+        supabase
+          .from("profiles")
+          .select("id, username")
+          .ilike("username", like)
+          .order("username")
+          .limit(RESULT_LIMIT),
+      ]);
+      if (cancelled) return;
+
+      setResults([
+        ...(tasks.data || []).map((t) => ({ id: t.id, kind: "task" as const, title: t.title, detail: snippet(t.description) })),
+        ...(logs.data || []).map((l) => ({ id: l.id, kind: "log" as const, title: l.title, detail: snippet(l.content) })),
+        ...(posts.data || []).map((p) => ({ id: p.id, kind: "post" as const, title: p.title, detail: snippet(p.content) })),
+        ...(messages.data || []).map((m) => ({ id: m.id, kind: "message" as const, title: snippet(m.content), detail: "" })),
+        ...(users.data || []).map((u) => ({ id: u.id, kind: "user" as const, title: u.username, detail: "" })),
+      ]);
+      setSearching(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [query, userId]);
+
+  const run = (fn: () => void) => {
+    onOpenChange(false);
+    fn();
+  };
+
+  const openResult = (r: SearchResult) =>
+    run(() => (r.kind === "user" ? navigate(`/profile/${r.id}`) : onSection(RESULT_SECTION[r.kind])));
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <CommandInput
+        placeholder="Type a command or search tasks, logs, posts, messages, members..."
+        value={query}
+        onValueChange={setQuery}
+      />
+      <CommandList>
+        <CommandEmpty>{searching ? "Searching..." : "No results found."}</CommandEmpty>
+
+        <CommandGroup heading="Create">
+          <CommandItem value="create new task" onSelect={() => run(onNewTask)}>
+            <Plus className="mr-2" />
+            New task
+            <CommandShortcut>N</CommandShortcut>
+          </CommandItem>
+          <CommandItem value="create new daily log" onSelect={() => run(onNewLog)}>
+            <Plus className="mr-2" />
+            New daily log
+            <CommandShortcut>L</CommandShortcut>
+          </CommandItem>
+        </CommandGroup>
+
+        <CommandGroup heading="Go to">
+          {sections.map((s) => (
+            <CommandItem
+              key={s.key}
+              value={`go to ${s.label}`}
+              onSelect={() => run(() => onSection(s.key as DashboardSection))}
+            >
+              <s.icon className="mr-2" />
+              {s.label}
+              {keysFor(s.key) && <CommandShortcut>{keysFor(s.key)?.toUpperCase()}</CommandShortcut>}
+            </CommandItem>
+          ))}
+          <CommandItem value="keyboard shortcuts help" onSelect={() => run(onShowShortcuts)}>
+            <Keyboard className="mr-2" />
+            Keyboard shortcuts
+            <CommandShortcut>?</CommandShortcut>
+          </CommandItem>
+        </CommandGroup>
+
+        {results.length > 0 && <CommandSeparator />}
+        {RESULT_GROUPS.map(({ kind, heading, icon: Icon }) => {
+          const items = results.filter((r) => r.kind === kind);
+          if (items.length === 0) return null;
+          return (
+            <CommandGroup key={kind} heading={heading}>
+              {/* the query is part of the value: server matches shouldn't be dropped by cmdk's own filter */}
+              {items.map((r) => (
+                <CommandItem key={r.id} value={`${kind} ${r.id} ${r.title} ${r.detail} ${query}`} onSelect={() => openResult(r)}>
+                  <Icon className="mr-2 shrink-0" />
+                  <div className="min-w-0">
+                    <div className="truncate">{r.title}</div>
+                    {r.detail && <div className="truncate text-xs text-muted-foreground">{r.detail}</div>}
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          );
+        })}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default CommandPalette;
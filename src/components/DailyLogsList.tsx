@@ -4,13 +4,30 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { Plus, BookOpen, Trash2, Search, Image as ImageIcon, Video, Loader2, X, Calendar, Smile } from "lucide-react";
+import { Plus, BookOpen, Trash2, Pencil, History, Search, Image as ImageIcon, Video, Loader2, X, Calendar, Smile, CloudUpload, LayoutTemplate } from "lucide-react";
 import { format } from "date-fns";
 import { compressVideo } from "@/lib/compressVideo";
+import { useOutbox } from "@/hooks/use-outbox";
+import { isNetworkError, isOffline } from "@/lib/outbox";
+import MarkdownEditor from "@/components/MarkdownEditor";
+import MarkdownContent from "@/components/MarkdownContent";
+import LogRevisionsDialog from "@/components/LogRevisionsDialog";
+import { markdownToText } from "@/lib/markdown";
+import { MOOD_SCALE, moodLevel, moodText } from "@/lib/mood";
+import { cn } from "@/lib/utils";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  LogTemplate,
+  buildSections,
+  fieldsFromSections,
+  parseLogSections,
+  sectionsToMarkdown,
+  toLogTemplate,
+} from "@/lib/logTemplates";
 
 interface DailyLog {
   id: string;
@@ -18,28 +35,41 @@ interface DailyLog {
   content: string;
   tags: string[];
   mood: string | null;
+  mood_score?: number | null;
   is_public: boolean;
   created_at: string;
   image_url?: string | null;
   user_id: string;
+  template_id?: string | null;
+  sections?: Json;
+  revision_count?: number;
 }
 
+const FREE_FORM = "free";
+
 interface DailyLogsListProps {
   userId: string;
+  // a fresh object per "new log" command from the palette / keyboard
+  createRequest?: { at: number } | null;
 }
 
-const DailyLogsList = ({ userId }: DailyLogsListProps) => {
+const DailyLogsList = ({ userId, createRequest }: DailyLogsListProps) => {
   const [logs, setLogs] = useState<DailyLog[]>([]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   
   // New state for viewing a specific log
   const [selectedLog, setSelectedLog] = useState<DailyLog | null>(null);
 
+  // editing reuses the create form; existingMedia is the attachment kept unless removed or replaced
+  const [editingLog, setEditingLog] = useState<DailyLog | null>(null);
+  const [existingMedia, setExistingMedia] = useState<string | null>(null);
+  const [historyLog, setHistoryLog] = useState<DailyLog | null>(null);
+
   const [newLog, setNewLog] = useState({
     title: "",
     content: "",
     tags: "",
-    mood: "",
+    mood_score: null as number | null,
     is_public: false,
   });
   const [file, setFile] = useState<File | null>(null);
@@ -47,6 +77,22 @@ const DailyLogsList = ({ userId }: DailyLogsListProps) => {
   const [isPublishing, setIsPublishing] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
 
+  // structured templates: built-in and admin-defined community ones
+  const [templates, setTemplates] = useState<LogTemplate[]>([]);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [sectionValues, setSectionValues] = useState<Record<string, string>>({});
+  const template = templates.find((t) => t.id === templateId);
+  // retired templates stay selectable for the logs already written with them
+  const templateChoices = templates.filter((t) => t.is_active || t.id === templateId);
+  // a log whose template can't be loaded any more keeps it, edited through the log's own sections
+  const missingTemplateFields =
+    editingLog?.template_id && !templates.some((t) => t.id === editingLog.template_id)
+      ? fieldsFromSections(parseLogSections(editingLog.sections))
+      : [];
+  const fields =
+    template?.fields ??
+    (missingTemplateFields.length > 0 && templateId === editingLog?.template_id ? missingTemplateFields : null);
+
   const fetchLogs = useCallback(async () => {
     const { data, error } = await supabase
       .from("daily_logs")
@@ -66,16 +112,145 @@ const DailyLogsList = ({ userId }: DailyLogsListProps) => {
     fetchLogs();
   }, [fetchLogs]);
 
+  useEffect(() => {
+    if (createRequest) setIsDialogOpen(true);
+  }, [createRequest]);
+
+  useEffect(() => {
+    (async () => {
+      const { data, error } = await supabase
+        .from("log_templates")
+        .select("*")
+        .order("created_at", { ascending: true });
+      if (error) {
+        console.error("Failed to load log templates:", error);
+        return;
+      }
+      setTemplates((data || []).map(toLogTemplate));
+    })();
+  }, []);
+
+  // logs written offline wait in the outbox and show up here until they sync
+  const outbox = useOutbox(userId, (kinds) => {
+    if (kinds.includes("log_create")) fetchLogs();
+  });
+  const queuedLogs = outbox.ops.flatMap((o) => (o.kind === "log_create" ? [o] : []));
+
+  const resetForm = () => {
+    setIsDialogOpen(false);
+    setNewLog({ title: "", content: "", tags: "", mood_score: null, is_public: false });
+    setFile(null);
+    setPreview(null);
+    setTemplateId(null);
+    setSectionValues({});
+    setEditingLog(null);
+    setExistingMedia(null);
+  };
+
+  const startEdit = (log: DailyLog) => {
+    setNewLog({
+      title: log.title,
+      content: log.content,
+      tags: log.tags.join(", "),
+      mood_score: log.mood_score ?? null,
+      is_public: log.is_public,
+    });
+    setFile(null);
+    setPreview(null);
+    setTemplateId(
+      log.template_id &&
+        (templates.some((t) => t.id === log.template_id) || parseLogSections(log.sections).length > 0)
+        ? log.template_id
+        : null
+    );
+    setSectionValues(
+      Object.fromEntries(parseLogSections(log.sections).map((section) => [section.key, section.content]))
+    );
+    setExistingMedia(log.image_url ?? null);
+    setEditingLog(log);
+    setSelectedLog(null);
+    setIsDialogOpen(true);
+  };
+
+  // structured logs keep their answers in sections; content is their markdown
+  const composeLog = () => {
+    const sections = fields ? buildSections(fields, sectionValues) : [];
+    const content = fields ? sectionsToMarkdown(sections) : newLog.content;
+    const tags = newLog.tags
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter((tag) => tag.length > 0);
+    return { sections, content, tags };
+  };
+
+  const uploadMedia = async (f: File) => {
+    let uploadFile = f;
+
+    if (f.type.startsWith("video/")) {
+      try {
+        toast.info("Compressing video before upload...");
+        uploadFile = await compressVideo(f);
+      } catch {
+        toast.error("Video compression failed");
+      }
+    }
+
+    const { data, error } = await supabase.storage
+      .from("post-images")
+      .upload(`dailylogs/${Date.now()}_${uploadFile.name}`, uploadFile);
+    if (error) return { url: null, error };
+
+    const { data: urlData } = supabase.storage.from("post-images").getPublicUrl(data.path);
+    return { url: urlData?.publicUrl || null, error: null };
+  };
+
   const handleCreateLog = async () => {
     if (isPublishing) return;
     setIsPublishing(true);
 
-    if (!newLog.title.trim() || !newLog.content.trim()) {
-      toast.error("Please fill in title and content");
+    const { sections, content, tags } = composeLog();
+
+    if (!newLog.title.trim() || !content.trim()) {
+      toast.error(
+        fields ? "Please fill in a title and at least one section" : "Please fill in title and content"
+      );
       setIsPublishing(false);
       return;
     }
 
+    // no connection: save to the outbox (file included) and replay on reconnect
+    const queueLog = async (uploadedUrl: string | null) => {
+      try {
+        await outbox.enqueue({
+          kind: "log_create",
+          payload: {
+            id: crypto.randomUUID(),
+            title: newLog.title,
+            content,
+            tags,
+            mood: moodLevel(newLog.mood_score)?.label ?? null,
+            mood_score: newLog.mood_score,
+            is_public: newLog.is_public,
+            file: uploadedUrl ? null : file,
+            image_url: uploadedUrl,
+            template_id: template?.id ?? null,
+            sections,
+          },
+        });
+        toast.info("You're offline. Your log is saved and will sync when you reconnect.");
+        resetForm();
+      } catch (e) {
+        console.error("Failed to queue log:", e);
+        toast.error("Failed to create log");
+      }
+      setIsPublishing(false);
+    };
+
+    if (isOffline()) {
+      await queueLog(null);
+      return;
+    }
+
     let fileUrl = null;
 
     if (file) {
@@ -85,54 +260,43 @@ const DailyLogsList = ({ userId }: DailyLogsListProps) => {
         return;
       }
 
-      let uploadFile = file;
+      const { url, error: uploadError } = await uploadMedia(file);
 
-      if (file.type.startsWith("video/")) {
-        try {
-          toast.info("Compressing video before upload...");
-          uploadFile = await compressVideo(file);
-        } catch {
-          toast.error("Video compression failed");
-        }
+      if (uploadError && isNetworkError(uploadError)) {
+        await queueLog(null);
+        return;
       }
-
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from("post-images")
-        .upload(`dailylogs/${Date.now()}_${uploadFile.name}`, uploadFile);
-
       if (uploadError) {
         toast.error("Failed to upload file");
         setIsPublishing(false);
         return;
       }
 
-      const { data: urlData } = supabase.storage
-        .from("post-images")
-        .getPublicUrl(uploadData.path);
-
-      fileUrl = urlData?.publicUrl || null;
+      fileUrl = url;
     }
 
-    const tags = newLog.tags
-      .split(",")
-      .map((tag) => tag.trim())
-      .filter((tag) => tag.length > 0);
-
     // 1️⃣ Create the daily log
-    const { error: logError } = await supabase
+    const { data: createdLog, error: logError } = await supabase
       .from("daily_logs")
       .insert({
         user_id: userId,
         title: newLog.title,
-        content: newLog.content,
+        content,
         tags,
-        mood: newLog.mood || null,
+        mood: moodLevel(newLog.mood_score)?.label ?? null,
+        mood_score: newLog.mood_score,
         is_public: newLog.is_public,
         image_url: fileUrl,
+        template_id: template?.id ?? null,
+        sections: sections as unknown as Json,
       })
       .select()
       .single();
 
+    if (logError && isNetworkError(logError)) {
+      await queueLog(fileUrl);
+      return;
+    }
     if (logError) {
       toast.error("Failed to create log");
       setIsPublishing(false);
@@ -144,9 +308,10 @@ const DailyLogsList = ({ userId }: DailyLogsListProps) => {
       const { error: blogError } = await supabase.from("blog_posts").insert({
         user_id: userId,
         title: newLog.title,
-        content: newLog.content,
+        content,
         tags,
         image_url: fileUrl,
+        daily_log_id: createdLog.id,
       });
 
       if (blogError) {
@@ -159,7 +324,7 @@ const DailyLogsList = ({ userId }: DailyLogsListProps) => {
 
     // 3️⃣ Update user's streak and post count in one go
     const { error: streakError } = await supabase.rpc("handle_daily_streak", {
-      user_id_input: userId,
+      p_log_id: createdLog.id,
     });
 
     if (streakError) {
@@ -168,14 +333,86 @@ const DailyLogsList = ({ userId }: DailyLogsListProps) => {
     }
 
     toast.success("Daily log created!");
-    setIsDialogOpen(false);
-    setNewLog({ title: "", content: "", tags: "", mood: "", is_public: false });
-    setFile(null);
-    setPreview(null);
+    resetForm();
     fetchLogs();
     setIsPublishing(false);
   };
 
+  const handleUpdateLog = async () => {
+    if (!editingLog || isPublishing) return;
+
+    const { sections, content, tags } = composeLog();
+
+    if (!newLog.title.trim() || !content.trim()) {
+      toast.error(
+        fields ? "Please fill in a title and at least one section" : "Please fill in title and content"
+      );
+      return;
+    }
+    if (isOffline()) {
+      toast.error("You're offline. Reconnect to save changes to this log.");
+      return;
+    }
+    if (
+      editingLog.is_public &&
+      !newLog.is_public &&
+      !window.confirm("Make this log private? Its community post will be removed.")
+    ) {
+      return;
+    }
+
+    setIsPublishing(true);
+
+    let imageUrl = existingMedia;
+
+    if (file) {
+      if (file.size > 50 * 1024 * 1024) {
+        toast.error("File size exceeds 50MB");
+        setIsPublishing(false);
+        return;
+      }
+
+      const { url, error: uploadError } = await uploadMedia(file);
+      if (uploadError) {
+        toast.error("Failed to upload file");
+        setIsPublishing(false);
+        return;
+      }
+      imageUrl = url;
+    }
+
+    // older free-text moods have no score, so the mood is only rewritten when it was changed here
+    const moodChanged = newLog.mood_score !== (editingLog.mood_score ?? null);
+
+    // the previous version goes to daily_log_revisions and the community post follows, both server-side
+    const { error } = await supabase
+      .from("daily_logs")
+      .update({
+        title: newLog.title,
+        content,
+        tags,
+        ...(moodChanged && {
+          mood: moodLevel(newLog.mood_score)?.label ?? null,
+          mood_score: newLog.mood_score,
+        }),
+        is_public: newLog.is_public,
+        image_url: imageUrl,
+        template_id: fields ? templateId : null,
+        sections: sections as unknown as Json,
+      })
+      .eq("id", editingLog.id);
+
+    setIsPublishing(false);
+    if (error) {
+      toast.error("Failed to update log");
+      return;
+    }
+
+    toast.success("Log updated");
+    resetForm();
+    fetchLogs();
+  };
+
   const handleDeleteLog = async (logId: string, userId: string) => {
     const confirmDelete = window.confirm("Are you sure you want to delete this log?");
     if (!confirmDelete) return;
@@ -223,13 +460,16 @@ const DailyLogsList = ({ userId }: DailyLogsListProps) => {
     }
   };
 
+  const templateName = (log: DailyLog) =>
+    log.template_id ? templates.find((t) => t.id === log.template_id)?.name : undefined;
+
   const filteredLogs = logs.filter((log) => {
     const term = searchTerm.toLowerCase();
     return (
       log.title.toLowerCase().includes(term) ||
       log.content.toLowerCase().includes(term) ||
       log.tags.some((tag) => tag.toLowerCase().includes(term)) ||
-      (log.mood?.toLowerCase().includes(term) ?? false)
+      (moodText(log.mood_score, log.mood)?.toLowerCase().includes(term) ?? false)
     );
   });
 
@@ -259,7 +499,11 @@ const DailyLogsList = ({ userId }: DailyLogsListProps) => {
           </div>
 
           {/* New Log Dialog */}
-          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <Dialog
+            open={isDialogOpen}
+            // a half-written new log survives closing the dialog; an unsaved edit doesn't
+            onOpenChange={(open) => (!open && editingLog ? resetForm() : setIsDialogOpen(open))}
+          >
             <DialogTrigger asChild>
               <Button className="gap-2 h-10 w-auto flex-shrink-0">
                 <Plus className="h-4 w-4" />
@@ -269,9 +513,11 @@ const DailyLogsList = ({ userId }: DailyLogsListProps) => {
 
             <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
               <DialogHeader>
-                <DialogTitle>Create New Daily Log 📝</DialogTitle>
+                <DialogTitle>{editingLog ? "Edit Daily Log ✏️" : "Create New Daily Log 📝"}</DialogTitle>
                 <DialogDescription>
-                  Record your daily activities, set a mood, and reflect.
+                  {editingLog
+                    ? "The current version is kept in this log's history."
+                    : "Record your daily activities, set a mood, and reflect."}
                 </DialogDescription>
               </DialogHeader>
 
@@ -286,17 +532,61 @@ const DailyLogsList = ({ userId }: DailyLogsListProps) => {
                   />
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="log-content">What happened today?</Label>
-                  <Textarea
-                    id="log-content"
-                    value={newLog.content}
-                    onChange={(e) => setNewLog({ ...newLog, content: e.target.value })}
-                    placeholder="Write about your day, challenges, and successes..."
-                    rows={8}
-                    className="min-h-[150px] resize-y"
-                  />
-                </div>
+                {(templateChoices.length > 0 || missingTemplateFields.length > 0) && (
+                  <div className="space-y-2">
+                    <Label>Template</Label>
+                    <Select
+                      value={templateId ?? FREE_FORM}
+                      onValueChange={(v) => setTemplateId(v === FREE_FORM ? null : v)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={FREE_FORM}>Free-form</SelectItem>
+                        {templateChoices.map((t) => (
+                          <SelectItem key={t.id} value={t.id}>
+                            {t.name}
+                          </SelectItem>
+                        ))}
+                        {missingTemplateFields.length > 0 && editingLog?.template_id && (
+                          <SelectItem value={editingLog.template_id}>Original template</SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                    {template?.description && (
+                      <p className="text-xs text-muted-foreground">{template.description}</p>
+                    )}
+                  </div>
+                )}
+
+                {fields ? (
+                  fields.map((field) => (
+                    <div key={field.key} className="space-y-2">
+                      <Label htmlFor={`log-section-${field.key}`}>{field.label}</Label>
+                      <MarkdownEditor
+                        id={`log-section-${field.key}`}
+                        value={sectionValues[field.key] ?? ""}
+                        onChange={(value) => setSectionValues((prev) => ({ ...prev, [field.key]: value }))}
+                        folder="dailylogs"
+                        placeholder={field.placeholder}
+                        rows={3}
+                      />
+                    </div>
+                  ))
+                ) : (
+                  <div className="space-y-2">
+                    <Label htmlFor="log-content">What happened today?</Label>
+                    <MarkdownEditor
+                      id="log-content"
+                      value={newLog.content}
+                      onChange={(content) => setNewLog((prev) => ({ ...prev, content }))}
+                      folder="dailylogs"
+                      placeholder="Write about your day, challenges, and successes..."
+                      rows={8}
+                    />
+                  </div>
+                )}
 
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                   <div className="space-y-2">
@@ -309,13 +599,32 @@ const DailyLogsList = ({ userId }: DailyLogsListProps) => {
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="log-mood">Mood</Label>
-                    <Input
-                      id="log-mood"
-                      value={newLog.mood}
-                      onChange={(e) => setNewLog({ ...newLog, mood: e.target.value })}
-                      placeholder="e.g., 😊 Happy, 🤔 Reflective"
-                    />
+                    <Label>Mood</Label>
+                    <div className="flex gap-1" role="radiogroup" aria-label="Mood">
+                      {MOOD_SCALE.map((m) => (
+                        <Button
+                          key={m.score}
+                          type="button"
+                          variant="outline"
+                          role="radio"
+                          aria-checked={newLog.mood_score === m.score}
+                          title={m.label}
+                          className={cn(
+                            "h-10 flex-1 flex-col gap-0 px-0 text-lg leading-none",
+                            newLog.mood_score === m.score && "border-primary bg-primary/10"
+                          )}
+                          onClick={() =>
+                            setNewLog((prev) => ({
+                              ...prev,
+                              mood_score: prev.mood_score === m.score ? null : m.score,
+                            }))
+                          }
+                        >
+                          {m.emoji}
+                          <span className="text-[10px] text-muted-foreground">{m.label}</span>
+                        </Button>
+                      ))}
+                    </div>
                   </div>
                 </div>
 
@@ -329,6 +638,30 @@ const DailyLogsList = ({ userId }: DailyLogsListProps) => {
                     onChange={handleFileSelect}
                   />
 
+                  {/* Media kept from the log being edited */}
+                  {!file && existingMedia && (
+                    <div className="mt-4 relative p-3 border rounded-lg bg-muted/30">
+                      {existingMedia.match(/\.(mp4|webm|ogg)$/i) ? (
+                        <video src={existingMedia} className="w-full max-h-64 object-contain rounded-md border" />
+                      ) : (
+                        <img
+                          src={existingMedia}
+                          alt="Current attachment"
+                          className="w-full max-h-64 object-contain rounded-md border"
+                        />
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Remove attachment"
+                        className="absolute top-1 right-1 h-6 w-6 rounded-full text-destructive hover:bg-destructive/10"
+                        onClick={() => setExistingMedia(null)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+
                   {/* Enhanced Preview */}
                   {file && (
                     <div className="mt-4 relative p-3 border rounded-lg bg-muted/30">
@@ -380,12 +713,18 @@ const DailyLogsList = ({ userId }: DailyLogsListProps) => {
                   </Label>
                 </div>
 
-                <Button onClick={handleCreateLog} className="w-full h-10 gap-2" disabled={isPublishing}>
+                <Button
+                  onClick={editingLog ? handleUpdateLog : handleCreateLog}
+                  className="w-full h-10 gap-2"
+                  disabled={isPublishing}
+                >
                   {isPublishing ? (
                     <>
                       <Loader2 className="h-4 w-4 animate-spin" />
                       Processing...
                     </>
+                  ) : editingLog ? (
+                    "Save changes"
                   ) : (
                     "Save & Log"
                   )}
@@ -398,7 +737,26 @@ const DailyLogsList = ({ userId }: DailyLogsListProps) => {
 
       {/* --- Logs Display --- */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {filteredLogs.length === 0 ? (
+        {queuedLogs.map((op) => (
+          <Card key={op.id} className="border-dashed shadow-none bg-muted/20 flex flex-col">
+            <CardHeader className="pb-3 border-b border-dashed">
+              <div className="flex items-start justify-between gap-2">
+                <CardTitle className="text-base font-semibold truncate">{op.payload.title}</CardTitle>
+                <Badge variant="secondary" className="text-[10px] gap-1 shrink-0">
+                  <CloudUpload className="h-3 w-3" />
+                  {op.state === "pending" ? "Pending sync" : "Sync failed"}
+                </Badge>
+              </div>
+              <CardDescription className="text-xs">
+                {format(new Date(op.created_at), "MMM d, yyyy")}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="pt-4">
+              <p className="text-sm text-foreground/80 line-clamp-3">{markdownToText(op.payload.content)}</p>
+            </CardContent>
+          </Card>
+        ))}
+        {filteredLogs.length === 0 && queuedLogs.length === 0 ? (
           <Card className="col-span-full border-dashed shadow-none bg-muted/20">
             <CardContent className="flex flex-col items-center justify-center py-16 text-center">
               <BookOpen className="h-12 w-12 text-primary/70 mb-4" />
@@ -423,17 +781,50 @@ const DailyLogsList = ({ userId }: DailyLogsListProps) => {
                         <CardDescription className="text-xs">
                           {format(new Date(log.created_at), "MMM d, yyyy")}
                         </CardDescription>
-                        {log.mood && <Badge variant="outline" className="text-xs font-normal px-2 py-0.5">{log.mood}</Badge>}
+                        {log.mood && <Badge variant="outline" className="text-xs font-normal px-2 py-0.5">{moodText(log.mood_score, log.mood)}</Badge>}
+                        {templateName(log) && (
+                          <Badge variant="secondary" className="text-[10px] font-normal px-2 py-0.5 gap-1">
+                            <LayoutTemplate className="h-3 w-3" />
+                            {templateName(log)}
+                          </Badge>
+                        )}
+                        {!!log.revision_count && (
+                          <span className="text-[10px] italic" title={`Edited ${log.revision_count} ${log.revision_count === 1 ? "time" : "times"}`}>
+                            edited
+                          </span>
+                        )}
                     </div>
                   </div>
-                  <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive/80 hover:bg-destructive/10 hover:text-destructive" onClick={() => handleDeleteLog(log.id, log.user_id)}>
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                  <div className="flex shrink-0">
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-foreground" title="Edit log" onClick={() => startEdit(log)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive/80 hover:bg-destructive/10 hover:text-destructive" onClick={() => handleDeleteLog(log.id, log.user_id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </div>
               </CardHeader>
               <CardContent className="pt-4 flex-1 flex flex-col justify-between">
                 <div>
-                    <p className="text-sm text-foreground/80 line-clamp-3 mb-1">{log.content}</p>
+                    {parseLogSections(log.sections).length > 0 ? (
+                      <div className="space-y-2 mb-1">
+                        {parseLogSections(log.sections)
+                          .slice(0, 3)
+                          .map((section) => (
+                            <div key={section.key}>
+                              <p className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">
+                                {section.label}
+                              </p>
+                              <p className="text-sm text-foreground/80 line-clamp-2">
+                                {markdownToText(section.content)}
+                              </p>
+                            </div>
+                          ))}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-foreground/80 line-clamp-3 mb-1">{markdownToText(log.content)}</p>
+                    )}
                     
                     {/* --- READ MORE BUTTON --- */}
                     <Button 
@@ -488,10 +879,21 @@ const DailyLogsList = ({ userId }: DailyLogsListProps) => {
                              {selectedLog.mood && (
                                  <div className="flex items-center gap-1">
                                     <Smile className="h-4 w-4" />
-                                    <span>{selectedLog.mood}</span>
+                                    <span>{moodText(selectedLog.mood_score, selectedLog.mood)}</span>
                                  </div>
                              )}
                         </div>
+                        <div className="flex gap-2 pt-2">
+                            <Button variant="outline" size="sm" className="gap-1" onClick={() => startEdit(selectedLog)}>
+                                <Pencil className="h-3.5 w-3.5" /> Edit
+                            </Button>
+                            {!!selectedLog.revision_count && (
+                                <Button variant="outline" size="sm" className="gap-1" onClick={() => setHistoryLog(selectedLog)}>
+                                    <History className="h-3.5 w-3.5" />
+                                    History ({selectedLog.revision_count})
+                                </Button>
+                            )}
+                        </div>
                     </DialogHeader>
 
                     <div className="mt-4 space-y-6">
@@ -507,9 +909,26 @@ const DailyLogsList = ({ userId }: DailyLogsListProps) => {
                         )}
 
                         {/* Full Content */}
-                        <div className="prose prose-sm sm:prose-base max-w-none text-foreground whitespace-pre-wrap leading-relaxed">
-                            {selectedLog.content}
-                        </div>
+                        {parseLogSections(selectedLog.sections).length > 0 ? (
+                            <div className="space-y-4">
+                                {parseLogSections(selectedLog.sections).map((section) => (
+                                    <section key={section.key} className="rounded-lg border bg-muted/20 p-4">
+                                        <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2">
+                                            {section.label}
+                                        </h3>
+                                        <MarkdownContent
+                                            content={section.content}
+                                            className="text-sm sm:text-base text-foreground"
+                                        />
+                                    </section>
+                                ))}
+                            </div>
+                        ) : (
+                            <MarkdownContent
+                                content={selectedLog.content}
+                                className="text-sm sm:text-base text-foreground"
+                            />
+                        )}
 
                         {/* Tags */}
                         {selectedLog.tags.length > 0 && (
@@ -527,6 +946,14 @@ const DailyLogsList = ({ userId }: DailyLogsListProps) => {
         </DialogContent>
       </Dialog>
 
+      {historyLog && (
+        <LogRevisionsDialog
+          open={!!historyLog}
+          onOpenChange={(open) => !open && setHistoryLog(null)}
+          log={historyLog}
+        />
+      )}
+
     </div>
   );
 };
@@ -0,0 +1,44 @@
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Square, Timer } from "lucide-react";
+import { formatClock } from "@/lib/duration";
+import type { RunningEntry } from "@/hooks/use-focus-timer";
+
+interface FocusTimerBarProps {
+  entry: RunningEntry;
+  remainingSeconds: number;
+  onStop: () => void;
+}
+
+/**
+ * FocusTimerBar
+ * - Countdown for the running focus session shown above the task list
+ */
+const FocusTimerBar = ({ entry, remainingSeconds, onStop }: FocusTimerBarProps) => {
+  const total = entry.planned_minutes * 60;
+  const elapsedPct = Math.min(100, Math.round(((total - remainingSeconds) / total) * 100));
+
+  return (
+    <div className="flex items-center gap-4 rounded-xl border border-primary/30 bg-primary/5 p-3">
+      <div className="bg-primary/10 p-2 rounded-full text-primary">
+        <Timer className="h-5 w-5" />
+      </div>
+      <div className="flex-1 min-w-0 space-y-1.5">
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="font-medium truncate">
+            Focusing on {entry.tasks?.title ?? "task"}
+          </span>
+          <span className="font-mono font-semibold tabular-nums">
+            {formatClock(remainingSeconds)}
+          </span>
+        </div>
+        <Progress value={elapsedPct} className="h-1.5" />
+      </div>
+      <Button size="sm" variant="outline" className="gap-1" onClick={onStop}>
+        <Square className="h-3.5 w-3.5" /> Stop
+      </Button>
+    </div>
+  );
+};
+
+export default FocusTimerBar;
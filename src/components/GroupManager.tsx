@@ -0,0 +1,328 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { LogOut, Plus, Trash2, UserPlus } from "lucide-react";
+import {
+  GroupMember,
+  GroupPointRule,
+  GroupRole,
+  MyGroup,
+  POINT_RULE_LABELS,
+  isGroupAdmin,
+} from "@/lib/groups";
+
+interface GroupManagerProps {
+  userId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  groups: MyGroup[];
+  members: GroupMember[];
+  onChanged: () => void;
+}
+
+const NEW_GROUP = "new";
+
+/**
+ * GroupManager
+ * - Create a group (the creator becomes its admin) and pick how task points are paid out
+ * - Group admins add members by username, change roles and remove members; anyone can leave
+ */
+const GroupManager = ({ userId, open, onOpenChange, groups, members, onChanged }: GroupManagerProps) => {
+  const [selectedId, setSelectedId] = useState<string>(NEW_GROUP);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [pointRule, setPointRule] = useState<GroupPointRule>("assignee");
+  const [username, setUsername] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setSelectedId((prev) =>
+      prev !== NEW_GROUP && groups.some((g) => g.group_id === prev) ? prev : groups[0]?.group_id ?? NEW_GROUP
+    );
+  }, [open, groups]);
+
+  const group = groups.find((g) => g.group_id === selectedId);
+  const canManage = isGroupAdmin(group);
+  const groupMembers = members.filter((m) => m.group_id === selectedId);
+
+  const run = async (fn: () => Promise<{ error: { message?: string } | null }>, success: string) => {
+    setSaving(true);
+    const { error } = await fn();
+    setSaving(false);
+    if (error) {
+      toast.error(error.message || "Something went wrong");
+      return false;
+    }
+    toast.success(success);
+    onChanged();
+    return true;
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error("Please enter a group name");
+      return;
+    }
+    setSaving(true);
+    const { data, error } = await supabase.rpc("create_group", {
+      p_name: name.trim(),
+      p_description: description.trim() || null,
+      p_is_private: isPrivate,
+      p_point_rule: pointRule,
+    });
+    setSaving(false);
+    if (error || !data) {
+      toast.error(error?.message || "Failed to create group");
+      return;
+    }
+    toast.success(`Created "${name.trim()}"`);
+    setName("");
+    setDescription("");
+    setIsPrivate(false);
+    setPointRule("assignee");
+    setSelectedId(data);
+    onChanged();
+  };
+
+  const handleAddMember = async () => {
+    if (!group || !username.trim()) return;
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("id, username")
+      .ilike("username", username.trim())
+      .maybeSingle();
+    if (!profile) {
+      toast.error(`No member called "${username.trim()}"`);
+      return;
+    }
+    const added = await run(
+      async () =>
+        supabase.rpc("add_group_member", {
+          p_group_id: group.group_id,
+          p_user_id: profile.id,
+          p_role: "member",
+        }),
+      `Added ${profile.username} to ${group.name}`
+    );
+    if (added) setUsername("");
+  };
+
+  const handleRole = (member: GroupMember, role: GroupRole) =>
+    run(
+      async () =>
+        supabase.rpc("add_group_member", {
+          p_group_id: member.group_id,
+          p_user_id: member.user_id,
+          p_role: role,
+        }),
+      "Role updated"
+    );
+
+  const handleRemove = (member: GroupMember) =>
+    run(
+      async () =>
+        supabase.rpc("remove_group_member", {
+          p_group_id: member.group_id,
+          p_user_id: member.user_id,
+        }),
+      member.user_id === userId ? `You left ${group?.name}` : `Removed ${member.username}`
+    );
+
+  const handlePointRule = (rule: GroupPointRule) =>
+    group &&
+    run(
+      async () => supabase.from("groups").update({ point_rule: rule }).eq("id", group.group_id),
+      "Point rule updated"
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Groups</DialogTitle>
+          <DialogDescription>
+            Group tasks are visible to every member. Anyone can claim an open one; group admins
+            create and assign them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Select value={selectedId} onValueChange={setSelectedId}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {groups.map((g) => (
+              <SelectItem key={g.group_id} value={g.group_id}>
+                {g.name} ({g.member_count})
+              </SelectItem>
+            ))}
+            <SelectItem value={NEW_GROUP}>+ New group</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {selectedId === NEW_GROUP ? (
+          <div className="grid gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="group-name">Name</Label>
+              <Input
+                id="group-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Study buddies"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="group-description">Description</Label>
+              <Input
+                id="group-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Points for completed tasks</Label>
+              <Select value={pointRule} onValueChange={(v) => setPointRule(v as GroupPointRule)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(POINT_RULE_LABELS) as GroupPointRule[]).map((rule) => (
+                    <SelectItem key={rule} value={rule}>
+                      {POINT_RULE_LABELS[rule]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="group-private">Private group</Label>
+              <Switch id="group-private" checked={isPrivate} onCheckedChange={setIsPrivate} />
+            </div>
+            <Button className="gap-1" disabled={saving || !name.trim()} onClick={handleCreate}>
+              <Plus className="h-4 w-4" /> Create group
+            </Button>
+          </div>
+        ) : (
+          group && (
+            <div className="grid gap-4">
+              {group.description && <p className="text-sm text-muted-foreground">{group.description}</p>}
+
+              <div className="grid gap-2">
+                <Label>Points for completed tasks</Label>
+                <Select
+                  value={group.point_rule}
+                  disabled={!canManage || saving}
+                  onValueChange={(v) => handlePointRule(v as GroupPointRule)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(POINT_RULE_LABELS) as GroupPointRule[]).map((rule) => (
+                      <SelectItem key={rule} value={rule}>
+                        {POINT_RULE_LABELS[rule]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid gap-2">
+                <Label>Members</Label>
+                <div className="space-y-1.5">
+                  {groupMembers.map((m) => (
+                    <div
+                      key={m.user_id}
+                      className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm"
+                    >
+                      <span className="truncate">
+                        {m.username || "Unknown"}
+                        {m.user_id === userId && " (you)"}
+                      </span>
+                      <div className="flex items-center gap-1.5 shrink-0">
+                        {canManage ? (
+                          <Select
+                            value={m.role}
+                            disabled={saving}
+                            onValueChange={(v) => handleRole(m, v as GroupRole)}
+                          >
+                            <SelectTrigger className="h-7 w-28 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="admin">Admin</SelectItem>
+                              <SelectItem value="member">Member</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <Badge variant={m.role === "admin" ? "secondary" : "outline"} className="capitalize">
+                            {m.role}
+                          </Badge>
+                        )}
+                        {(canManage || m.user_id === userId) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                            title={m.user_id === userId ? "Leave group" : "Remove member"}
+                            disabled={saving}
+                            onClick={() => handleRemove(m)}
+                          >
+                            {m.user_id === userId ? <LogOut className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {canManage && (
+                <div className="flex gap-2">
+                  <Input
+                    className="h-9"
+                    placeholder="Add by username"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleAddMember()}
+                  />
+                  <Button
+                    size="sm"
+                    className="gap-1"
+                    disabled={saving || !username.trim()}
+                    onClick={handleAddMember}
+                  >
+                    <UserPlus className="h-4 w-4" /> Add
+                  </Button>
+                </div>
+              )}
+            </div>
+          )
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GroupManager;
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Hand, Users } from "lucide-react";
+import { GroupMember, MyGroup, isGroupAdmin } from "@/lib/groups";
+
+interface GroupTaskBarProps {
+  userId: string;
+  task: { id: string; status: string; assigned_to?: string | null };
+  group: MyGroup | undefined;
+  members: GroupMember[];
+  onChanged: () => void;
+}
+
+const UNASSIGNED = "none";
+
+/**
+ * GroupTaskBar
+ * - Group name and who has claimed the task
+ * - Members claim open tasks or hand back their own; group admins assign anyone
+ */
+const GroupTaskBar = ({ userId, task, group, members, onChanged }: GroupTaskBarProps) => {
+  const [busy, setBusy] = useState(false);
+  const isOpen = task.status === "todo" || task.status === "in_progress";
+  const assignee = members.find((m) => m.user_id === task.assigned_to);
+
+  const call = async (
+    fn: () => PromiseLike<{ error: { message?: string } | null }>,
+    success: string
+  ) => {
+    setBusy(true);
+    const { error } = await fn();
+    setBusy(false);
+    if (error) {
+      toast.error(error.message || "Failed to update group task");
+      return;
+    }
+    toast.success(success);
+    onChanged();
+  };
+
+  const claim = () => call(() => supabase.rpc("claim_group_task", { p_task_id: task.id }), "Task claimed");
+
+  const assign = (value: string) =>
+    call(
+      () =>
+        supabase.rpc("assign_group_task", {
+          p_task_id: task.id,
+          p_user_id: value === UNASSIGNED ? null : value,
+        }),
+      value === UNASSIGNED ? "Task unassigned" : "Task assigned"
+    );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground mt-1">
+      <Badge variant="outline" className="text-[10px] h-5 gap-1">
+        <Users className="h-3 w-3" />
+        {group?.name || "Group"}
+      </Badge>
+
+      {isGroupAdmin(group) && isOpen ? (
+        <Select value={task.assigned_to || UNASSIGNED} disabled={busy} onValueChange={assign}>
+          <SelectTrigger className="h-6 w-40 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+            {members.map((m) => (
+              <SelectItem key={m.user_id} value={m.user_id}>
+                {m.username || "Unknown"}
+                {m.user_id === userId && " (you)"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <span>
+          {task.assigned_to === userId
+            ? "Claimed by you"
+            : assignee
+              ? `Claimed by ${assignee.username}`
+              : "Unclaimed"}
+        </span>
+      )}
+
+      {isOpen && !task.assigned_to && (
+        <Button size="sm" variant="outline" className="h-6 gap-1 text-xs" disabled={busy} onClick={claim}>
+          <Hand className="h-3 w-3" /> Claim
+        </Button>
+      )}
+      {isOpen && task.assigned_to === userId && !isGroupAdmin(group) && (
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6 text-xs"
+          disabled={busy}
+          onClick={() => assign(UNASSIGNED)}
+        >
+          Release
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default GroupTaskBar;
@@ -0,0 +1,49 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { PALETTE_HOTKEY_LABEL, SHORTCUTS } from "@/lib/shortcuts";
+
+interface KeyboardShortcutsHelpProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const Kbd = ({ children }: { children: string }) => (
+  <kbd className="inline-flex h-6 min-w-[24px] items-center justify-center rounded border bg-muted px-1.5 font-mono text-xs font-medium text-muted-foreground">
+    {children}
+  </kbd>
+);
+
+/**
+ * KeyboardShortcutsHelp ("?")
+ * - Lists the palette hotkey and every single-key / "g" shortcut from SHORTCUTS
+ */
+const KeyboardShortcutsHelp = ({ open, onOpenChange }: KeyboardShortcutsHelpProps) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="sm:max-w-md">
+      <DialogHeader>
+        <DialogTitle>Keyboard shortcuts</DialogTitle>
+        <DialogDescription>Shortcuts are paused while you are typing in a field.</DialogDescription>
+      </DialogHeader>
+      <div className="divide-y">
+        <div className="flex items-center justify-between py-2 text-sm">
+          <span>Command palette</span>
+          <Kbd>{PALETTE_HOTKEY_LABEL}</Kbd>
+        </div>
+        {SHORTCUTS.map((s) => (
+          <div key={s.keys.join(" ")} className="flex items-center justify-between py-2 text-sm">
+            <span>{s.label}</span>
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              {s.keys.map((k, i) => (
+                <span key={i} className="flex items-center gap-1">
+                  {i > 0 && "then"}
+                  <Kbd>{k.toUpperCase()}</Kbd>
+                </span>
+              ))}
+            </span>
+          </div>
+        ))}
+      </div>
+    </DialogContent>
+  </Dialog>
+);
+
+export default KeyboardShortcutsHelp;
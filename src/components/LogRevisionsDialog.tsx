@@ -0,0 +1,159 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { format } from "date-fns";
+import { History } from "lucide-react";
+import { diffLines } from "@/lib/diff";
+import { moodText } from "@/lib/mood";
+
+type Revision = Database["public"]["Tables"]["daily_log_revisions"]["Row"];
+
+// the fields an edit can change, shared by revisions and the live log
+interface LogVersion {
+  title: string;
+  content: string;
+  tags: string[] | null;
+  mood: string | null;
+  mood_score?: number | null;
+  image_url?: string | null;
+  is_public: boolean | null;
+}
+
+interface LogRevisionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  log: LogVersion & { id: string };
+}
+
+const DIFF_CLASSES = {
+  same: "text-muted-foreground",
+  added: "bg-emerald-500/10 text-emerald-800",
+  removed: "bg-red-500/10 text-red-800 line-through decoration-red-400/60",
+};
+
+const DIFF_MARKS = { same: " ", added: "+", removed: "-" };
+
+const fieldChanges = (before: LogVersion, after: LogVersion) => {
+  const changes: { label: string; from: string; to: string }[] = [];
+  const add = (label: string, from: string, to: string) => from !== to && changes.push({ label, from, to });
+
+  add("Title", before.title, after.title);
+  add("Tags", (before.tags || []).join(", ") || "none", (after.tags || []).join(", ") || "none");
+  add("Mood", moodText(before.mood_score, before.mood) || "none", moodText(after.mood_score, after.mood) || "none");
+  add("Visibility", before.is_public ? "Shared" : "Private", after.is_public ? "Shared" : "Private");
+  if ((before.image_url || null) !== (after.image_url || null)) {
+    changes.push({
+      label: "Media",
+      from: before.image_url ? "attached" : "none",
+      to: after.image_url ? (before.image_url ? "replaced" : "attached") : "removed",
+    });
+  }
+  return changes;
+};
+
+/**
+ * LogRevisionsDialog
+ * - Every edit of a daily log, newest first, as a diff against the version it replaced
+ */
+const LogRevisionsDialog = ({ open, onOpenChange, log }: LogRevisionsDialogProps) => {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [selected, setSelected] = useState<string>("");
+
+  useEffect(() => {
+    if (!open) return;
+    (async () => {
+      const { data, error } = await supabase
+        .from("daily_log_revisions")
+        .select("*")
+        .eq("log_id", log.id)
+        .order("revision", { ascending: true });
+      if (error) {
+        console.error("Failed to load log history:", error);
+        return;
+      }
+      setRevisions(data || []);
+      setSelected(data?.length ? String(data.length - 1) : "");
+    })();
+  }, [open, log.id]);
+
+  // edit i turned revisions[i] into revisions[i + 1], or into the current log for the last one
+  const edit = useMemo(() => {
+    const i = Number(selected);
+    if (selected === "" || !revisions[i]) return null;
+    const before = revisions[i];
+    const after: LogVersion = revisions[i + 1] ?? log;
+    return {
+      fields: fieldChanges(before, after),
+      lines: diffLines(before.content, after.content),
+    };
+  }, [selected, revisions, log]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" /> Edit history
+          </DialogTitle>
+          <DialogDescription>{log.title}</DialogDescription>
+        </DialogHeader>
+
+        {revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This log hasn't been edited.</p>
+        ) : (
+          <div className="space-y-4">
+            <Select value={selected} onValueChange={setSelected}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {revisions
+                  .map((r, i) => (
+                    <SelectItem key={r.id} value={String(i)}>
+                      Edit {i + 1} · {format(new Date(r.created_at), "MMM d, yyyy 'at' h:mm a")}
+                    </SelectItem>
+                  ))
+                  .reverse()}
+              </SelectContent>
+            </Select>
+
+            {edit && (
+              <>
+                {edit.fields.length > 0 && (
+                  <div className="rounded-lg border divide-y text-sm">
+                    {edit.fields.map((f) => (
+                      <div key={f.label} className="flex flex-wrap gap-x-2 px-3 py-2">
+                        <span className="w-20 shrink-0 font-medium">{f.label}</span>
+                        <span className="text-red-700 line-through decoration-red-400/60">{f.from}</span>
+                        <span className="text-muted-foreground">→</span>
+                        <span className="text-emerald-700">{f.to}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {edit.lines.some((l) => l.type !== "same") ? (
+                  <pre className="rounded-lg border bg-muted/20 p-3 text-xs leading-relaxed whitespace-pre-wrap break-words font-mono">
+                    {edit.lines.map((l, i) => (
+                      <div key={i} className={cn("px-1", DIFF_CLASSES[l.type])}>
+                        <span className="select-none opacity-60">{DIFF_MARKS[l.type]} </span>
+                        {l.text || " "}
+                      </div>
+                    ))}
+                  </pre>
+                ) : (
+                  <p className="text-sm text-muted-foreground">The text wasn't changed in this edit.</p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LogRevisionsDialog;
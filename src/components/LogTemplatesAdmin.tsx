@@ -0,0 +1,245 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { LayoutTemplate, Pencil, Plus, Trash2, X } from "lucide-react";
+import { LogTemplate, LogTemplateField, fieldKey, toLogTemplate } from "@/lib/logTemplates";
+
+interface LogTemplatesAdminProps {
+  className?: string;
+}
+
+interface FieldDraft {
+  key?: string; // kept when editing, so renaming a field doesn't split its history
+  label: string;
+  placeholder: string;
+}
+
+const MAX_FIELDS = 10;
+
+const emptyField = (): FieldDraft => ({ label: "", placeholder: "" });
+
+/**
+ * LogTemplatesAdmin
+ * - Community daily log templates: a name and up to 10 prompts each
+ * - Inactive templates stay on existing logs but are no longer offered when writing one
+ */
+const LogTemplatesAdmin = ({ className }: LogTemplatesAdminProps) => {
+  const [templates, setTemplates] = useState<LogTemplate[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [fields, setFields] = useState<FieldDraft[]>([emptyField()]);
+  const [saving, setSaving] = useState(false);
+
+  const fetchTemplates = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("log_templates")
+      .select("*")
+      .order("created_at", { ascending: true });
+    if (error) {
+      console.error("Failed to load log templates:", error);
+      return;
+    }
+    setTemplates((data || []).map(toLogTemplate));
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setDescription("");
+    setFields([emptyField()]);
+  };
+
+  const startEdit = (t: LogTemplate) => {
+    setEditingId(t.id);
+    setName(t.name);
+    setDescription(t.description || "");
+    setFields(t.fields.map((f) => ({ key: f.key, label: f.label, placeholder: f.placeholder || "" })));
+  };
+
+  const updateField = (index: number, patch: Partial<FieldDraft>) =>
+    setFields((prev) => prev.map((f, i) => (i === index ? { ...f, ...patch } : f)));
+
+  const save = async () => {
+    const prompts: LogTemplateField[] = fields
+      .filter((f) => f.label.trim())
+      .map((f) => ({
+        key: f.key || fieldKey(f.label),
+        label: f.label.trim(),
+        ...(f.placeholder.trim() ? { placeholder: f.placeholder.trim() } : {}),
+      }));
+
+    if (!name.trim() || prompts.length === 0) {
+      toast.error("A template needs a name and at least one field");
+      return;
+    }
+    if (prompts.some((p) => !p.key) || new Set(prompts.map((p) => p.key)).size !== prompts.length) {
+      toast.error("Field names must be distinct and contain letters or numbers");
+      return;
+    }
+
+    setSaving(true);
+    const { data: auth } = await supabase.auth.getUser();
+    const values = {
+      name: name.trim(),
+      description: description.trim() || null,
+      fields: prompts as unknown as Json,
+    };
+    const { error } = editingId
+      ? await supabase.from("log_templates").update(values).eq("id", editingId)
+      : await supabase.from("log_templates").insert({ ...values, created_by: auth.user?.id ?? null });
+    setSaving(false);
+
+    if (error) {
+      toast.error(error.message || "Failed to save template");
+      return;
+    }
+    toast.success(editingId ? "Template updated" : "Template published");
+    resetForm();
+    fetchTemplates();
+  };
+
+  const toggleActive = async (t: LogTemplate, isActive: boolean) => {
+    setTemplates((prev) => prev.map((x) => (x.id === t.id ? { ...x, is_active: isActive } : x)));
+    const { error } = await supabase.from("log_templates").update({ is_active: isActive }).eq("id", t.id);
+    if (error) {
+      toast.error("Failed to update template");
+      fetchTemplates();
+    }
+  };
+
+  const remove = async (t: LogTemplate) => {
+    if (!window.confirm(`Delete the "${t.name}" template? Logs written with it keep their sections.`)) return;
+    const { error } = await supabase.from("log_templates").delete().eq("id", t.id);
+    if (error) {
+      toast.error("Failed to delete template");
+      return;
+    }
+    if (editingId === t.id) resetForm();
+    fetchTemplates();
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="bg-muted/10 border-b py-4">
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <LayoutTemplate className="h-5 w-5 text-primary" />
+          Daily Log Templates
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-5 space-y-5">
+        <div className="space-y-2">
+          {templates.map((t) => (
+            <div key={t.id} className="flex items-center justify-between gap-3 rounded-md border p-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate">{t.name}</span>
+                  {t.slug && (
+                    <Badge variant="outline" className="text-[10px]">
+                      Built-in
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground truncate">
+                  {t.fields.map((f) => f.label).join(" · ")}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Switch
+                  checked={t.is_active}
+                  onCheckedChange={(checked) => toggleActive(t, checked)}
+                  aria-label={`${t.name} active`}
+                />
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="Edit" onClick={() => startEdit(t)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                  title="Delete"
+                  onClick={() => remove(t)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <Label className="text-xs uppercase tracking-wider text-muted-foreground">
+            {editingId ? "Edit template" : "New template"}
+          </Label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Input placeholder="Name, e.g. Weekly review" value={name} onChange={(e) => setName(e.target.value)} />
+            <Input
+              placeholder="Short description (optional)"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          {fields.map((f, i) => (
+            <div key={i} className="flex gap-2">
+              <Input
+                className="h-9"
+                placeholder={`Field ${i + 1}`}
+                value={f.label}
+                onChange={(e) => updateField(i, { label: e.target.value })}
+              />
+              <Input
+                className="h-9"
+                placeholder="Prompt shown in the empty field"
+                value={f.placeholder}
+                onChange={(e) => updateField(i, { placeholder: e.target.value })}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-9 w-9 shrink-0"
+                disabled={fields.length === 1}
+                onClick={() => setFields((prev) => prev.filter((_, j) => j !== i))}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex flex-wrap justify-between gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              disabled={fields.length >= MAX_FIELDS}
+              onClick={() => setFields((prev) => [...prev, emptyField()])}
+            >
+              <Plus className="h-4 w-4" /> Add field
+            </Button>
+            <div className="flex gap-2">
+              {editingId && (
+                <Button variant="ghost" size="sm" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+              <Button size="sm" onClick={save} disabled={saving}>
+                {saving ? "Saving..." : editingId ? "Save changes" : "Publish template"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LogTemplatesAdmin;
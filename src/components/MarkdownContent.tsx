@@ -0,0 +1,129 @@
+import { Fragment, ReactNode, useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { MarkdownBlock, MarkdownInline, MarkdownLines, parseMarkdown } from "@/lib/markdown";
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: "text-xl font-bold",
+  2: "text-lg font-semibold",
+  3: "text-base font-semibold",
+  4: "text-sm font-semibold",
+  5: "text-sm font-semibold",
+  6: "text-sm font-semibold text-muted-foreground",
+};
+
+const renderInline = (nodes: MarkdownInline[]): ReactNode =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case "text":
+        return <Fragment key={i}>{node.text}</Fragment>;
+      case "code":
+        return (
+          <code key={i} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]">
+            {node.text}
+          </code>
+        );
+      case "strong":
+        return <strong key={i}>{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case "del":
+        return <del key={i}>{renderInline(node.children)}</del>;
+      case "link":
+        return (
+          <a
+            key={i}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-primary underline underline-offset-2 break-words"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+      case "image":
+        return (
+          <img
+            key={i}
+            src={node.src}
+            alt={node.alt}
+            loading="lazy"
+            className="my-2 max-h-96 max-w-full rounded-md border"
+          />
+        );
+    }
+  });
+
+const renderLines = (lines: MarkdownLines) =>
+  lines.map((line, i) => (
+    <Fragment key={i}>
+      {i > 0 && <br />}
+      {renderInline(line)}
+    </Fragment>
+  ));
+
+const renderBlock = (block: MarkdownBlock, i: number): ReactNode => {
+  switch (block.type) {
+    case "heading": {
+      const Tag = `h${block.level}` as "h1";
+      return (
+        <Tag key={i} className={cn("mt-4 mb-2 leading-snug", HEADING_CLASSES[block.level])}>
+          {renderInline(block.children)}
+        </Tag>
+      );
+    }
+    case "paragraph":
+      return (
+        <p key={i} className="my-2 leading-relaxed">
+          {renderLines(block.lines)}
+        </p>
+      );
+    case "list": {
+      const items = block.items.map((item, j) => <li key={j}>{renderLines(item)}</li>);
+      return block.ordered ? (
+        <ol key={i} start={block.start} className="my-2 list-decimal pl-6 space-y-1">
+          {items}
+        </ol>
+      ) : (
+        <ul key={i} className="my-2 list-disc pl-6 space-y-1">
+          {items}
+        </ul>
+      );
+    }
+    case "code":
+      return (
+        <pre key={i} className="my-3 overflow-x-auto rounded-md bg-muted p-3 text-xs leading-relaxed">
+          <code className="font-mono">{block.text}</code>
+        </pre>
+      );
+    case "quote":
+      return (
+        <blockquote key={i} className="my-2 border-l-4 border-muted-foreground/30 pl-3 text-muted-foreground">
+          {block.children.map(renderBlock)}
+        </blockquote>
+      );
+    case "hr":
+      return <hr key={i} className="my-4 border-muted" />;
+  }
+};
+
+/**
+ * MarkdownContent
+ * - Renders member-written markdown (logs, posts, announcements) as React elements
+ * - Raw HTML stays plain text and unsafe URLs are dropped by the parser
+ */
+const MarkdownContent = ({ content, className }: MarkdownContentProps) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  return (
+    <div className={cn("break-words [&>*:first-child]:mt-0 [&>*:last-child]:mb-0", className)}>
+      {blocks.map(renderBlock)}
+    </div>
+  );
+};
+
+export default MarkdownContent;
@@ -0,0 +1,242 @@
+import { ClipboardEvent, DragEvent, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import MarkdownContent from "@/components/MarkdownContent";
+import { toast } from "sonner";
+import {
+  Bold,
+  Code,
+  Heading2,
+  ImagePlus,
+  Italic,
+  Link2,
+  List,
+  ListOrdered,
+  Quote,
+} from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+
+interface MarkdownEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  // post-images folder for pasted / dropped images, e.g. "dailylogs"
+  folder: string;
+  placeholder?: string;
+  rows?: number;
+  disabled?: boolean;
+}
+
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+
+const imageFiles = (files: FileList | null | undefined) =>
+  Array.from(files || []).filter((f) => f.type.startsWith("image/"));
+
+/**
+ * MarkdownEditor
+ * - Textarea with a formatting toolbar and a Write / Preview switch
+ * - Images pasted or dropped into the text are uploaded to post-images and linked inline
+ */
+const MarkdownEditor = ({
+  id,
+  value,
+  onChange,
+  folder,
+  placeholder,
+  rows = 6,
+  disabled,
+}: MarkdownEditorProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [tab, setTab] = useState("write");
+  const [uploading, setUploading] = useState(0);
+
+  // uploads finish after further typing, so placeholders are swapped in the latest text
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  const select = (start: number, end: number) =>
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(start, end);
+    });
+
+  const replaceSelection = (build: (selected: string) => { text: string; from: number; to: number }) => {
+    const el = textareaRef.current;
+    const start = el?.selectionStart ?? value.length;
+    const end = el?.selectionEnd ?? value.length;
+    const { text, from, to } = build(value.slice(start, end));
+    onChange(value.slice(0, start) + text + value.slice(end));
+    select(start + from, start + to);
+  };
+
+  const wrap = (marker: string, fallback: string) =>
+    replaceSelection((selected) => {
+      const inner = selected || fallback;
+      return { text: marker + inner + marker, from: marker.length, to: marker.length + inner.length };
+    });
+
+  // prefix every selected line (or the current one)
+  const prefixLines = (prefix: (index: number) => string) => {
+    const el = textareaRef.current;
+    const start = value.lastIndexOf("\n", (el?.selectionStart ?? value.length) - 1) + 1;
+    const end = el?.selectionEnd ?? value.length;
+    const block = value
+      .slice(start, end)
+      .split("\n")
+      .map((line, i) => prefix(i) + line)
+      .join("\n");
+    onChange(value.slice(0, start) + block + value.slice(end));
+    select(start + block.length, start + block.length);
+  };
+
+  const insertLink = () =>
+    replaceSelection((selected) => {
+      const label = selected || "link text";
+      return { text: `[${label}](https://)`, from: label.length + 3, to: label.length + 11 };
+    });
+
+  const insertCode = () =>
+    replaceSelection((selected) =>
+      selected.includes("\n")
+        ? { text: "```\n" + selected + "\n```", from: 4, to: 4 + selected.length }
+        : { text: "`" + (selected || "code") + "`", from: 1, to: 1 + (selected || "code").length }
+    );
+
+  const uploadImages = async (files: File[]) => {
+    if (files.length === 0) return;
+    setTab("write");
+
+    for (const file of files) {
+      if (file.size > MAX_IMAGE_SIZE) {
+        toast.error(`${file.name} is larger than 10 MB`);
+        continue;
+      }
+
+      const token = `uploading-${crypto.randomUUID()}`;
+      const placeholder = `![Uploading ${file.name}…](${token})`;
+      const el = textareaRef.current;
+      const at = el?.selectionStart ?? valueRef.current.length;
+      const current = valueRef.current;
+      onChange(current.slice(0, at) + placeholder + "\n" + current.slice(at));
+
+      setUploading((n) => n + 1);
+      const sanitized = file.name.replace(/\s+/g, "_").replace(/[^\w.-]/g, "_");
+      const { data, error } = await supabase.storage
+        .from("post-images")
+        .upload(`${folder}/${Date.now()}_${sanitized}`, file);
+      setUploading((n) => n - 1);
+
+      if (error) {
+        toast.error(`Failed to upload ${file.name}`);
+        onChange(valueRef.current.replace(`${placeholder}\n`, "").replace(placeholder, ""));
+        continue;
+      }
+
+      const { data: url } = supabase.storage.from("post-images").getPublicUrl(data.path);
+      const alt = file.name.replace(/\.[^.]+$/, "").replace(/[[\]]/g, "");
+      onChange(valueRef.current.replace(placeholder, `![${alt}](${url.publicUrl})`));
+    }
+  };
+
+  const handlePaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = imageFiles(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    uploadImages(files);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLTextAreaElement>) => {
+    const files = imageFiles(e.dataTransfer.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    uploadImages(files);
+  };
+
+  const tools: { label: string; icon: LucideIcon; run: () => void }[] = [
+    { label: "Bold", icon: Bold, run: () => wrap("**", "bold text") },
+    { label: "Italic", icon: Italic, run: () => wrap("*", "italic text") },
+    { label: "Heading", icon: Heading2, run: () => prefixLines(() => "## ") },
+    { label: "Bulleted list", icon: List, run: () => prefixLines(() => "- ") },
+    { label: "Numbered list", icon: ListOrdered, run: () => prefixLines((i) => `${i + 1}. `) },
+    { label: "Quote", icon: Quote, run: () => prefixLines(() => "> ") },
+    { label: "Code", icon: Code, run: insertCode },
+    { label: "Link", icon: Link2, run: insertLink },
+    { label: "Image", icon: ImagePlus, run: () => fileInputRef.current?.click() },
+  ];
+
+  return (
+    <Tabs value={tab} onValueChange={setTab} className="rounded-md border bg-background">
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b px-2 py-1.5">
+        <TabsList className="h-8">
+          <TabsTrigger value="write" className="h-6 text-xs">
+            Write
+          </TabsTrigger>
+          <TabsTrigger value="preview" className="h-6 text-xs">
+            Preview
+          </TabsTrigger>
+        </TabsList>
+        {tab === "write" && (
+          <div className="flex flex-wrap items-center gap-0.5">
+            {tools.map((t) => (
+              <Button
+                key={t.label}
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-muted-foreground"
+                title={t.label}
+                aria-label={t.label}
+                disabled={disabled}
+                onClick={t.run}
+              >
+                <t.icon className="h-4 w-4" />
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <TabsContent value="write" className="m-0">
+        <Textarea
+          id={id}
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onPaste={handlePaste}
+          onDrop={handleDrop}
+          rows={rows}
+          placeholder={placeholder}
+          disabled={disabled}
+          className="resize-y border-0 shadow-none focus-visible:ring-0 focus-visible:ring-offset-0"
+        />
+        <p className="px-3 pb-2 text-[11px] text-muted-foreground">
+          {uploading > 0 ? "Uploading image..." : "Markdown supported. Paste or drop images to upload them."}
+        </p>
+      </TabsContent>
+      <TabsContent value="preview" className="m-0 min-h-[8rem] px-3 py-2 text-sm">
+        {value.trim() ? (
+          <MarkdownContent content={value} />
+        ) : (
+          <p className="text-muted-foreground">Nothing to preview yet.</p>
+        )}
+      </TabsContent>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          uploadImages(imageFiles(e.target.files));
+          e.target.value = "";
+        }}
+      />
+    </Tabs>
+  );
+};
+
+export default MarkdownEditor;
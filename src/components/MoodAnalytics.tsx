@@ -0,0 +1,199 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Flame, Smile, Target } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import {
+  MoodDay,
+  describeCorrelation,
+  moodByBucket,
+  moodByWeekday,
+  moodCorrelation,
+  moodLevel,
+} from "@/lib/mood";
+
+interface MoodAnalyticsProps {
+  userId: string;
+}
+
+const RANGES = [
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "180", label: "Last 180 days" },
+];
+
+const TASK_BUCKETS = [
+  { label: "0 tasks", min: 0, max: 0 },
+  { label: "1", min: 1, max: 1 },
+  { label: "2-3", min: 2, max: 3 },
+  { label: "4+", min: 4 },
+];
+
+const STREAK_BUCKETS = [
+  { label: "Day 1", min: 1, max: 1 },
+  { label: "2-6", min: 2, max: 6 },
+  { label: "7-13", min: 7, max: 13 },
+  { label: "14+", min: 14 },
+];
+
+const chartConfig = { mood: { label: "Mood", color: "hsl(var(--chart-1))" } } as const;
+
+const moodTick = (score: number) => moodLevel(score)?.emoji ?? "";
+
+/**
+ * MoodAnalytics
+ * - Mood over time and by weekday, from daily_logs.mood_score
+ * - How mood lines up with tasks completed and the log streak on the same day
+ */
+const MoodAnalytics = ({ userId }: MoodAnalyticsProps) => {
+  const [range, setRange] = useState("90");
+  const [days, setDays] = useState<MoodDay[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    (async () => {
+      setLoading(true);
+      const { data, error } = await supabase.rpc("get_mood_series", { p_days: Number(range) });
+      setLoading(false);
+      if (error) {
+        console.error("Failed to load mood series:", error);
+        setDays([]);
+        return;
+      }
+      setDays(data || []);
+    })();
+  }, [userId, range]);
+
+  const timeline = useMemo(
+    () =>
+      days.map((d) => ({
+        day: format(parseISO(d.day), "MMM d"),
+        mood: d.mood_score == null ? null : Number(d.mood_score),
+      })),
+    [days]
+  );
+  const weekdays = useMemo(() => moodByWeekday(days), [days]);
+  const byTasks = useMemo(() => moodByBucket(days, (d) => d.tasks_completed, TASK_BUCKETS), [days]);
+  const byStreak = useMemo(() => moodByBucket(days, (d) => d.streak, STREAK_BUCKETS), [days]);
+  const tasksR = useMemo(() => moodCorrelation(days, (d) => d.tasks_completed), [days]);
+  const streakR = useMemo(() => moodCorrelation(days, (d) => d.streak), [days]);
+
+  const scored = days.filter((d) => d.mood_score != null);
+  const average = scored.length
+    ? Math.round((scored.reduce((sum, d) => sum + Number(d.mood_score), 0) / scored.length) * 10) / 10
+    : null;
+
+  const barChart = (data: { mood: number | null }[], dataKey: string) => (
+    <ChartContainer config={chartConfig} className="min-h-[200px] w-full">
+      <BarChart data={data} margin={{ top: 10, right: 10, bottom: 0, left: -20 }}>
+        <CartesianGrid strokeDasharray="3 3" vertical={false} />
+        <XAxis dataKey={dataKey} tick={{ fontSize: 11 }} axisLine={false} tickLine={false} />
+        <YAxis domain={[0, 5]} ticks={[1, 2, 3, 4, 5]} tickFormatter={moodTick} axisLine={false} tickLine={false} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="mood" fill="var(--color-mood)" radius={[4, 4, 0, 0]} />
+      </BarChart>
+    </ChartContainer>
+  );
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="flex flex-row items-center justify-between gap-3 pb-3 border-b">
+        <div>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Smile className="h-5 w-5 text-primary" />
+            Mood Insights
+          </CardTitle>
+          <CardDescription>From the mood you pick on each daily log.</CardDescription>
+        </div>
+        <Select value={range} onValueChange={setRange}>
+          <SelectTrigger className="w-[150px] h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGES.map((r) => (
+              <SelectItem key={r.value} value={r.value}>
+                {r.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-8">
+        {loading ? (
+          <div className="text-sm text-muted-foreground">Loading mood data...</div>
+        ) : scored.length === 0 ? (
+          <div className="text-center py-4">
+            <div className="text-base font-medium">No moods yet</div>
+            <div className="text-sm text-muted-foreground">Pick a mood when you write a daily log to see trends here.</div>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="rounded-lg border p-3">
+                <div className="text-xs text-muted-foreground">Average mood</div>
+                <div className="text-xl font-bold">
+                  {moodTick(Math.round(average ?? 0))} {average}
+                </div>
+                <div className="text-xs text-muted-foreground">{scored.length} days with a mood</div>
+              </div>
+              <div className="rounded-lg border p-3">
+                <div className="text-xs text-muted-foreground flex items-center gap-1">
+                  <Target className="h-3.5 w-3.5" /> Mood vs tasks completed
+                </div>
+                <div className="text-xl font-bold">{tasksR ?? "–"}</div>
+                <div className="text-xs text-muted-foreground">{describeCorrelation(tasksR)}</div>
+              </div>
+              <div className="rounded-lg border p-3">
+                <div className="text-xs text-muted-foreground flex items-center gap-1">
+                  <Flame className="h-3.5 w-3.5" /> Mood vs streak
+                </div>
+                <div className="text-xl font-bold">{streakR ?? "–"}</div>
+                <div className="text-xs text-muted-foreground">{describeCorrelation(streakR)}</div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="text-sm font-semibold">Mood over time</div>
+              <ChartContainer config={chartConfig} className="min-h-[220px] w-full">
+                <LineChart data={timeline} margin={{ top: 10, right: 10, bottom: 0, left: -20 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="day" tick={{ fontSize: 10 }} axisLine={false} tickLine={false} minTickGap={24} />
+                  <YAxis domain={[1, 5]} ticks={[1, 2, 3, 4, 5]} tickFormatter={moodTick} axisLine={false} tickLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Line
+                    type="monotone"
+                    dataKey="mood"
+                    stroke="var(--color-mood)"
+                    strokeWidth={2}
+                    dot={{ fill: "var(--color-mood)", r: 2 }}
+                    connectNulls
+                  />
+                </LineChart>
+              </ChartContainer>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="space-y-2">
+                <div className="text-sm font-semibold">By weekday</div>
+                {barChart(weekdays, "weekday")}
+              </div>
+              <div className="space-y-2">
+                <div className="text-sm font-semibold">By tasks completed that day</div>
+                {barChart(byTasks, "bucket")}
+              </div>
+              <div className="space-y-2">
+                <div className="text-sm font-semibold">By streak length</div>
+                {barChart(byStreak, "bucket")}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MoodAnalytics;
@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { toast } from "sonner";
+import { Bell, CheckCheck } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+type NotificationRow =
+  Database["public"]["Functions"]["get_notifications_summary"]["Returns"][number];
+
+const REMINDER_OPTIONS = [
+  { minutes: 10080, label: "1 week" },
+  { minutes: 1440, label: "24h" },
+  { minutes: 180, label: "3h" },
+  { minutes: 60, label: "1h" },
+  { minutes: 15, label: "15m" },
+];
+
+interface NotificationsBellProps {
+  userId: string;
+  onSelect?: (notification: NotificationRow) => void;
+}
+
+/**
+ * NotificationsBell
+ * - Latest notifications (deadline reminders, reviews, ...) with unread count
+ * - Deadline reminder offsets are stored in user_ui_settings.reminder_offsets
+ */
+const NotificationsBell = ({ userId, onSelect }: NotificationsBellProps) => {
+  const [items, setItems] = useState<NotificationRow[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [offsets, setOffsets] = useState<number[]>([1440, 60]);
+
+  const fetchNotifications = useCallback(async () => {
+    const { data, error } = await supabase.rpc("get_notifications_summary", {
+      p_user_id: userId,
+      p_limit: 20,
+    });
+    if (error) {
+      console.error("Failed to load notifications:", error);
+      return;
+    }
+    setItems(data || []);
+    setUnread(data?.[0]?.unread_count ?? 0);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchNotifications();
+
+    (async () => {
+      const { data } = await supabase
+        .from("user_ui_settings")
+        .select("reminder_offsets")
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (data?.reminder_offsets) setOffsets(data.reminder_offsets);
+    })();
+
+    const channel = supabase
+      .channel("notifications")
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "notifications", filter: `user_id=eq.${userId}` },
+        () => fetchNotifications()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, fetchNotifications]);
+
+  const markAllRead = async () => {
+    const { error } = await supabase.rpc("mark_all_notifications_read", { p_user_id: userId });
+    if (error) {
+      toast.error("Failed to mark notifications read");
+      return;
+    }
+    setItems((prev) => prev.map((n) => ({ ...n, is_read: true })));
+    setUnread(0);
+  };
+
+  const handleSelect = async (n: NotificationRow) => {
+    if (!n.is_read) {
+      await supabase.rpc("mark_notifications_read", { p_ids: [n.id], p_user_id: userId });
+      setItems((prev) => prev.map((x) => (x.id === n.id ? { ...x, is_read: true } : x)));
+      setUnread((u) => Math.max(0, u - 1));
+    }
+    onSelect?.(n);
+  };
+
+  const toggleOffset = async (minutes: number) => {
+    const next = offsets.includes(minutes)
+      ? offsets.filter((m) => m !== minutes)
+      : [...offsets, minutes].sort((a, b) => b - a);
+    setOffsets(next);
+    const { error } = await supabase
+      .from("user_ui_settings")
+      .upsert({ user_id: userId, reminder_offsets: next }, { onConflict: "user_id" });
+    if (error) toast.error("Failed to save reminder settings");
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative text-gray-600" title="Notifications">
+          <Bell className="h-5 w-5" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] rounded-full bg-red-500 px-1 text-[10px] font-bold leading-[18px] text-white">
+              {unread > 9 ? "9+" : unread}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <span className="font-semibold text-sm">Notifications</span>
+          {unread > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={markAllRead}>
+              <CheckCheck className="h-3.5 w-3.5" /> Mark all read
+            </Button>
+          )}
+        </div>
+
+        <div className="max-h-80 overflow-y-auto">
+          {items.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">You're all caught up.</p>
+          ) : (
+            items.map((n) => (
+              <button
+                key={n.id}
+                onClick={() => handleSelect(n)}
+                className={`w-full text-left px-4 py-3 border-b last:border-b-0 hover:bg-muted/50 transition-colors ${
+                  n.is_read ? "" : "bg-primary/5"
+                }`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <span className="text-sm font-medium leading-tight">{n.title}</span>
+                  {!n.is_read && <span className="mt-1 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                </div>
+                {n.body && <p className="text-xs text-muted-foreground line-clamp-2 mt-0.5">{n.body}</p>}
+                <p className="text-[10px] text-muted-foreground mt-1">
+                  {formatDistanceToNow(new Date(n.created_at), { addSuffix: true })}
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+
+        <div className="border-t px-4 py-3 space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Remind me before deadlines</p>
+          <div className="flex flex-wrap gap-1.5">
+            {REMINDER_OPTIONS.map((o) => (
+              <Badge
+                key={o.minutes}
+                variant={offsets.includes(o.minutes) ? "default" : "outline"}
+                className="cursor-pointer select-none"
+                onClick={() => toggleOffset(o.minutes)}
+              >
+                {o.label}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationsBell;
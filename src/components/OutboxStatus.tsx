@@ -0,0 +1,133 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AlertTriangle, CloudOff, CloudUpload, RefreshCw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { useOutbox } from "@/hooks/use-outbox";
+import { OutboxOp } from "@/lib/outbox";
+
+interface OutboxStatusProps {
+  userId: string;
+}
+
+const STATUS_LABEL: Record<string, string> = {
+  todo: "To Do",
+  in_progress: "In Progress",
+  pending_review: "In Review",
+  completed: "Completed",
+};
+
+const describe = (op: OutboxOp) => {
+  switch (op.kind) {
+    case "task_create":
+      return `New task "${op.payload.title}"`;
+    case "task_status":
+      return `"${op.payload.title}" → ${STATUS_LABEL[op.payload.status]}`;
+    case "log_create":
+      return `Daily log "${op.payload.title}"`;
+  }
+};
+
+/**
+ * OutboxStatus
+ * - Header indicator for the offline outbox: offline state and number of queued changes
+ * - Conflicting status changes can be re-applied ("mine") or dropped ("theirs")
+ * - Hidden while online with nothing queued
+ */
+const OutboxStatus = ({ userId }: OutboxStatusProps) => {
+  const { ops, online, flush, retry, applyMine, discard } = useOutbox(userId);
+
+  if (online && ops.length === 0) return null;
+
+  const needsAttention = ops.filter((o) => o.state !== "pending").length;
+  const Icon = !online ? CloudOff : needsAttention ? AlertTriangle : CloudUpload;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          title={online ? "Changes waiting to sync" : "You're offline"}
+        >
+          <Icon className={`h-5 w-5 ${needsAttention ? "text-amber-600" : "text-muted-foreground"}`} />
+          {ops.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] rounded-full bg-amber-500 text-white text-[10px] font-bold flex items-center justify-center px-1">
+              {ops.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <div>
+            <div className="font-semibold text-sm">{online ? "Waiting to sync" : "You're offline"}</div>
+            <div className="text-xs text-muted-foreground">
+              {online
+                ? "Queued changes are sent in the order they were made."
+                : "Changes are saved on this device and sent when you're back online."}
+            </div>
+          </div>
+          {online && ops.some((o) => o.state === "pending") && (
+            <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" title="Sync now" onClick={() => flush()}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        <div className="max-h-80 overflow-y-auto divide-y">
+          {ops.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-muted-foreground">Nothing queued.</p>
+          ) : (
+            ops.map((op) => (
+              <div key={op.id} className="px-4 py-3 space-y-1.5">
+                <div className="flex items-start gap-2">
+                  <span className="text-sm flex-1 min-w-0 break-words">{describe(op)}</span>
+                  <Badge
+                    variant={op.state === "pending" ? "secondary" : "outline"}
+                    className={`text-[10px] h-5 shrink-0 ${op.state === "pending" ? "" : "border-amber-500 text-amber-700"}`}
+                  >
+                    {op.state === "pending" ? "Queued" : op.state === "conflict" ? "Conflict" : "Failed"}
+                  </Badge>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(op.created_at), { addSuffix: true })}
+                  {op.last_error && ` · ${op.last_error}`}
+                </div>
+
+                {op.state === "conflict" && (
+                  <div className="flex gap-2 pt-1">
+                    <Button size="sm" className="h-7 text-xs" onClick={() => applyMine(op)}>
+                      Apply mine
+                    </Button>
+                    <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => discard(op)}>
+                      Keep theirs
+                    </Button>
+                  </div>
+                )}
+                {op.state === "failed" && (
+                  <div className="flex gap-2 pt-1">
+                    <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => retry(op)}>
+                      Retry
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 text-xs text-muted-foreground hover:text-destructive"
+                      onClick={() => discard(op)}
+                    >
+                      Discard
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default OutboxStatus;
@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { AlarmClock } from "lucide-react";
+
+type OverdueSettings = Database["public"]["Tables"]["task_overdue_settings"]["Row"];
+
+interface OverdueSettingsAdminProps {
+  className?: string;
+}
+
+/**
+ * OverdueSettingsAdmin
+ * - Rules for the overdue job: optional point deduction, priority escalation window
+ * - Length of the one-time grace extension members can request per task
+ */
+const OverdueSettingsAdmin = ({ className }: OverdueSettingsAdminProps) => {
+  const [settings, setSettings] = useState<OverdueSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      const { data, error } = await supabase.from("task_overdue_settings").select("*").maybeSingle();
+      if (error) {
+        console.error("Failed to load overdue settings:", error);
+        return;
+      }
+      setSettings(data);
+    })();
+  }, []);
+
+  if (!settings) return null;
+
+  const update = (patch: Partial<OverdueSettings>) => setSettings({ ...settings, ...patch });
+
+  const save = async () => {
+    setSaving(true);
+    const { data: auth } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from("task_overdue_settings")
+      .update({
+        penalty_enabled: settings.penalty_enabled,
+        penalty_points: settings.penalty_points,
+        escalate_within_hours: settings.escalate_within_hours,
+        grace_hours: settings.grace_hours,
+        updated_by: auth.user?.id ?? null,
+      })
+      .eq("id", true);
+    setSaving(false);
+    if (error) {
+      toast.error(error.message || "Failed to save overdue rules");
+      return;
+    }
+    toast.success("Overdue rules saved");
+  };
+
+  const numberField = (
+    id: string,
+    label: string,
+    value: number,
+    min: number,
+    max: number,
+    onChange: (n: number) => void,
+    disabled = false
+  ) => (
+    <div className="space-y-1.5">
+      <Label htmlFor={id} className="text-xs text-muted-foreground">
+        {label}
+      </Label>
+      <Input
+        id={id}
+        type="number"
+        min={min}
+        max={max}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => onChange(Math.min(max, Math.max(min, Number(e.target.value) || 0)))}
+        className="h-9"
+      />
+    </div>
+  );
+
+  return (
+    <Card className={className}>
+      <CardHeader className="bg-muted/10 border-b py-4">
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <AlarmClock className="h-5 w-5 text-primary" />
+          Overdue Rules
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-5 space-y-5">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="overdue-penalty" className="font-medium">
+              Deduct points for overdue tasks
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              Charged once per task when its deadline passes, through the points ledger.
+            </p>
+          </div>
+          <Switch
+            id="overdue-penalty"
+            checked={settings.penalty_enabled}
+            onCheckedChange={(checked) => update({ penalty_enabled: checked })}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          {numberField(
+            "overdue-points",
+            "Points deducted",
+            settings.penalty_points,
+            0,
+            100,
+            (n) => update({ penalty_points: n }),
+            !settings.penalty_enabled
+          )}
+          {numberField(
+            "overdue-escalate",
+            "Escalate priority within (hours, 0 = off)",
+            settings.escalate_within_hours,
+            0,
+            168,
+            (n) => update({ escalate_within_hours: n })
+          )}
+          {numberField(
+            "overdue-grace",
+            "Grace extension (hours)",
+            settings.grace_hours,
+            1,
+            168,
+            (n) => update({ grace_hours: n })
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={save} disabled={saving}>
+            {saving ? "Saving..." : "Save rules"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OverdueSettingsAdmin;
@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { Check, Handshake, UserMinus, X } from "lucide-react";
+
+type PartnerRow = Database["public"]["Functions"]["get_partners"]["Returns"][number];
+
+interface PartnerButtonProps {
+  /** The member whose profile is being viewed. */
+  userId: string;
+}
+
+/**
+ * PartnerButton
+ * - Request / accept / decline / end an accountability partnership with one member
+ */
+const PartnerButton = ({ userId }: PartnerButtonProps) => {
+  const [link, setLink] = useState<PartnerRow | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const fetchLink = useCallback(async () => {
+    const { data } = await supabase.rpc("get_partners");
+    setLink((data || []).find((p) => p.partner_id === userId) ?? null);
+  }, [userId]);
+
+  useEffect(() => {
+    fetchLink();
+  }, [fetchLink]);
+
+  const run = async (action: () => PromiseLike<{ error: { message: string } | null }>, success: string) => {
+    setBusy(true);
+    const { error } = await action();
+    setBusy(false);
+    if (error) {
+      toast.error(error.message || "Something went wrong");
+      return;
+    }
+    toast.success(success);
+    fetchLink();
+  };
+
+  if (!link) {
+    return (
+      <Button
+        className="gap-2"
+        disabled={busy}
+        onClick={() => run(() => supabase.rpc("request_partner", { p_user_id: userId }), "Partner request sent")}
+      >
+        <Handshake className="h-4 w-4" /> Be accountability partners
+      </Button>
+    );
+  }
+
+  if (link.status === "pending" && link.is_incoming) {
+    return (
+      <div className="flex gap-2">
+        <Button
+          className="gap-1"
+          disabled={busy}
+          onClick={() =>
+            run(
+              () => supabase.rpc("respond_partner_request", { p_partnership_id: link.partnership_id, p_accept: true }),
+              "You are now partners"
+            )
+          }
+        >
+          <Check className="h-4 w-4" /> Accept request
+        </Button>
+        <Button
+          variant="outline"
+          className="gap-1"
+          disabled={busy}
+          onClick={() =>
+            run(
+              () => supabase.rpc("respond_partner_request", { p_partnership_id: link.partnership_id, p_accept: false }),
+              "Request declined"
+            )
+          }
+        >
+          <X className="h-4 w-4" /> Decline
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Button
+      variant="outline"
+      className="gap-2"
+      disabled={busy}
+      onClick={() =>
+        run(
+          () => supabase.rpc("remove_partner", { p_partnership_id: link.partnership_id }),
+          link.status === "pending" ? "Request withdrawn" : "Partnership ended"
+        )
+      }
+    >
+      <UserMinus className="h-4 w-4" />
+      {link.status === "pending" ? "Withdraw request" : "End partnership"}
+    </Button>
+  );
+};
+
+export default PartnerButton;
@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Handshake, X } from "lucide-react";
+
+type Member = { user_id: string; username: string };
+
+type Pair = {
+  id: string;
+  requester_id: string;
+  addressee_id: string;
+  status: string;
+  assigned_by: string | null;
+};
+
+interface PartnerPairsAdminProps {
+  members: Member[];
+  className?: string;
+}
+
+/**
+ * PartnerPairsAdmin
+ * - Admin view of accountability partnerships: assign a pair directly or end one
+ */
+const PartnerPairsAdmin = ({ members, className }: PartnerPairsAdminProps) => {
+  const [pairs, setPairs] = useState<Pair[]>([]);
+  const [userA, setUserA] = useState("");
+  const [userB, setUserB] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const fetchPairs = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("accountability_partners")
+      .select("id, requester_id, addressee_id, status, assigned_by")
+      .order("created_at", { ascending: false });
+    if (error) {
+      console.error("Failed to load partnerships:", error);
+      return;
+    }
+    setPairs(data || []);
+  }, []);
+
+  useEffect(() => {
+    fetchPairs();
+
+    const channel = supabase
+      .channel("admin-accountability-partners")
+      .on("postgres_changes", { event: "*", schema: "public", table: "accountability_partners" }, () => fetchPairs())
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [fetchPairs]);
+
+  const nameOf = (id: string) => members.find((m) => m.user_id === id)?.username ?? "Unknown";
+
+  const assign = async () => {
+    if (!userA || !userB || userA === userB) {
+      toast.error("Pick two different members");
+      return;
+    }
+    setBusy(true);
+    const { error } = await supabase.rpc("admin_assign_partners", { p_user_a: userA, p_user_b: userB });
+    setBusy(false);
+    if (error) {
+      toast.error(error.message || "Failed to assign partners");
+      return;
+    }
+    toast.success(`Paired ${nameOf(userA)} with ${nameOf(userB)}`);
+    setUserA("");
+    setUserB("");
+    fetchPairs();
+  };
+
+  const remove = async (pair: Pair) => {
+    const { error } = await supabase.rpc("remove_partner", { p_partnership_id: pair.id });
+    if (error) {
+      toast.error(error.message || "Failed to remove partnership");
+      return;
+    }
+    setPairs((prev) => prev.filter((p) => p.id !== pair.id));
+  };
+
+  const MemberSelect = ({ value, onChange }: { value: string; onChange: (v: string) => void }) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-full sm:w-[200px]">
+        <SelectValue placeholder="Select member" />
+      </SelectTrigger>
+      <SelectContent>
+        {members.map((m) => (
+          <SelectItem key={m.user_id} value={m.user_id}>
+            {m.username}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card className={className}>
+      <CardHeader className="py-4">
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <Handshake className="h-5 w-5 text-primary" />
+          Accountability Partners
+          <Badge variant="secondary" className="rounded-full">
+            {pairs.filter((p) => p.status === "accepted").length}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
+          <MemberSelect value={userA} onChange={setUserA} />
+          <span className="text-sm text-muted-foreground text-center">with</span>
+          <MemberSelect value={userB} onChange={setUserB} />
+          <Button onClick={assign} disabled={busy}>
+            Assign pair
+          </Button>
+        </div>
+
+        {pairs.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No partnerships yet.</p>
+        ) : (
+          <div className="divide-y rounded-lg border">
+            {pairs.map((p) => (
+              <div key={p.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <span className="flex-1">
+                  <span className="font-medium">{nameOf(p.requester_id)}</span>
+                  <span className="text-muted-foreground"> & </span>
+                  <span className="font-medium">{nameOf(p.addressee_id)}</span>
+                </span>
+                {p.status === "pending" ? (
+                  <Badge variant="outline">Pending</Badge>
+                ) : p.assigned_by ? (
+                  <Badge variant="secondary">Assigned</Badge>
+                ) : (
+                  <Badge variant="secondary">Accepted</Badge>
+                )}
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                  title="End partnership"
+                  onClick={() => remove(p)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PartnerPairsAdmin;
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { FileText, Film, Image as ImageIcon, Link2, Plus, X } from "lucide-react";
+import {
+  PROOF_KIND_LABELS,
+  ProofDraft,
+  ProofKind,
+  isProofLink,
+  proofKindForFile,
+} from "@/lib/proofs";
+
+interface ProofAttachmentsInputProps {
+  value: ProofDraft[];
+  onChange: (drafts: ProofDraft[]) => void;
+  disabled?: boolean;
+}
+
+const MAX_PROOFS = 10;
+
+const KIND_ICONS: Record<ProofKind, typeof ImageIcon> = {
+  image: ImageIcon,
+  video: Film,
+  pdf: FileText,
+  link: Link2,
+};
+
+const newKey = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * ProofAttachmentsInput
+ * - Collects files (images, videos, PDFs) and links for one proof submission
+ * - Every proof gets an optional caption; upload happens on submit
+ */
+const ProofAttachmentsInput = ({ value, onChange, disabled }: ProofAttachmentsInputProps) => {
+  const [link, setLink] = useState("");
+
+  const addFiles = (files: FileList | null) => {
+    if (!files) return;
+    const next = [...value];
+    for (const file of Array.from(files)) {
+      const kind = proofKindForFile(file);
+      if (!kind) {
+        toast.error(`${file.name}: only images, videos and PDFs are supported`);
+        continue;
+      }
+      if (next.length >= MAX_PROOFS) {
+        toast.error(`Up to ${MAX_PROOFS} proofs per submission`);
+        break;
+      }
+      next.push({ key: newKey(), kind, file, url: "", caption: "" });
+    }
+    onChange(next);
+  };
+
+  const addLink = () => {
+    if (!isProofLink(link)) {
+      toast.error("Enter a full link starting with http:// or https://");
+      return;
+    }
+    if (value.length >= MAX_PROOFS) {
+      toast.error(`Up to ${MAX_PROOFS} proofs per submission`);
+      return;
+    }
+    onChange([...value, { key: newKey(), kind: "link", file: null, url: link.trim(), caption: "" }]);
+    setLink("");
+  };
+
+  const update = (key: string, patch: Partial<ProofDraft>) =>
+    onChange(value.map((d) => (d.key === key ? { ...d, ...patch } : d)));
+
+  return (
+    <div className="space-y-3">
+      <Input
+        type="file"
+        multiple
+        accept="image/*,video/*,application/pdf"
+        className="cursor-pointer"
+        disabled={disabled}
+        onChange={(e) => {
+          addFiles(e.target.files);
+          e.target.value = "";
+        }}
+      />
+      <div className="flex gap-2">
+        <Input
+          value={link}
+          placeholder="https://github.com/you/repo/commit/..."
+          disabled={disabled}
+          onChange={(e) => setLink(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addLink();
+            }
+          }}
+        />
+        <Button type="button" variant="outline" className="gap-1 shrink-0" disabled={disabled || !link.trim()} onClick={addLink}>
+          <Plus className="h-4 w-4" /> Link
+        </Button>
+      </div>
+
+      {value.length > 0 && (
+        <div className="space-y-2">
+          {value.map((d) => {
+            const Icon = KIND_ICONS[d.kind];
+            return (
+              <div key={d.key} className="rounded-md border p-2 space-y-1.5">
+                <div className="flex items-center gap-2 text-sm">
+                  <Icon className="h-4 w-4 text-muted-foreground shrink-0" />
+                  <span className="truncate flex-1">{d.file ? d.file.name : d.url}</span>
+                  <Badge variant="outline" className="text-[10px] h-5">
+                    {PROOF_KIND_LABELS[d.kind]}
+                  </Badge>
+                  <button
+                    type="button"
+                    className="rounded-full p-0.5 text-muted-foreground hover:text-destructive"
+                    disabled={disabled}
+                    onClick={() => onChange(value.filter((x) => x.key !== d.key))}
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+                <Input
+                  className="h-8 text-xs"
+                  placeholder="Caption (optional)"
+                  value={d.caption}
+                  disabled={disabled}
+                  onChange={(e) => update(d.key, { caption: e.target.value })}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProofAttachmentsInput;
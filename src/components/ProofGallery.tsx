@@ -0,0 +1,105 @@
+import { ExternalLink, FileText } from "lucide-react";
+import { ProofItem } from "@/lib/proofs";
+
+interface ProofGalleryProps {
+  proofs: ProofItem[];
+  /** Small thumbnails (task cards, review queue) instead of the full post gallery. */
+  compact?: boolean;
+}
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * ProofGallery
+ * - Renders a set of typed proofs: images and videos inline, PDFs and links as cards
+ * - Captions sit under each item
+ */
+const ProofGallery = ({ proofs, compact = false }: ProofGalleryProps) => {
+  if (proofs.length === 0) return null;
+
+  const media = proofs.filter((p) => p.kind === "image" || p.kind === "video");
+  const docs = proofs.filter((p) => p.kind === "pdf" || p.kind === "link");
+  const mediaSize = compact
+    ? "w-32 h-24"
+    : media.length === 1
+      ? "w-full max-h-[500px]"
+      : "w-full h-56";
+
+  return (
+    <div className="space-y-2">
+      {media.length > 0 && (
+        <div
+          className={
+            compact
+              ? "flex flex-wrap gap-2"
+              : `grid gap-2 ${media.length === 1 ? "grid-cols-1" : "grid-cols-2"}`
+          }
+        >
+          {media.map((p, i) => (
+            <figure key={`${p.url}-${i}`} className="space-y-1">
+              {p.kind === "video" ? (
+                <video
+                  src={p.url}
+                  controls
+                  className={`${mediaSize} rounded-md border bg-black/5 object-contain`}
+                />
+              ) : (
+                <a href={p.url} target="_blank" rel="noreferrer">
+                  <img
+                    src={p.url}
+                    alt={p.caption || "Proof"}
+                    loading="lazy"
+                    className={`${mediaSize} rounded-md border object-cover`}
+                  />
+                </a>
+              )}
+              {p.caption && (
+                <figcaption
+                  className={`text-xs text-muted-foreground ${compact ? "w-32 truncate" : ""}`}
+                >
+                  {p.caption}
+                </figcaption>
+              )}
+            </figure>
+          ))}
+        </div>
+      )}
+
+      {docs.length > 0 && (
+        <div className="flex flex-col gap-1.5">
+          {docs.map((p, i) => (
+            <a
+              key={`${p.url}-${i}`}
+              href={p.url}
+              target="_blank"
+              rel="noreferrer"
+              className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm hover:bg-muted/50 transition-colors"
+            >
+              {p.kind === "pdf" ? (
+                <FileText className="h-4 w-4 text-red-500 shrink-0" />
+              ) : (
+                <ExternalLink className="h-4 w-4 text-primary shrink-0" />
+              )}
+              <span className="truncate font-medium">
+                {p.caption || (p.kind === "pdf" ? "PDF document" : hostOf(p.url))}
+              </span>
+              {p.caption && (
+                <span className="ml-auto text-xs text-muted-foreground truncate">
+                  {p.kind === "pdf" ? "PDF" : hostOf(p.url)}
+                </span>
+              )}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProofGallery;
@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Check, ShieldCheck, Signature, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import ProofGallery from "@/components/ProofGallery";
+import { ProofItem } from "@/lib/proofs";
+
+type ReviewRow = Database["public"]["Functions"]["get_review_queue"]["Returns"][number];
+
+interface ProofReviewQueueProps {
+  /** Render nothing when there is nothing to review (used inside TaskList). */
+  hideWhenEmpty?: boolean;
+  className?: string;
+}
+
+/**
+ * ProofReviewQueue
+ * - Pending proofs the current user may decide (all for admins/moderators, assigned ones for peers)
+ * - Approve grants the +10 points server-side; reject needs a comment
+ */
+const ProofReviewQueue = ({ hideWhenEmpty = false, className }: ProofReviewQueueProps) => {
+  const [reviews, setReviews] = useState<ReviewRow[]>([]);
+  const [proofs, setProofs] = useState<Record<string, ProofItem[]>>({});
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    const { data, error } = await supabase.rpc("get_review_queue");
+    if (error) {
+      console.error("Failed to load review queue:", error);
+      return;
+    }
+    setReviews(data || []);
+
+    const ids = (data || []).map((r) => r.review_id);
+    if (ids.length === 0) return;
+    const { data: rows } = await supabase
+      .from("task_proofs")
+      .select("review_id, kind, url, caption")
+      .in("review_id", ids)
+      .order("position");
+    const byReview: Record<string, ProofItem[]> = {};
+    for (const row of rows || []) {
+      (byReview[row.review_id] ||= []).push(row as ProofItem);
+    }
+    setProofs(byReview);
+  }, []);
+
+  useEffect(() => {
+    fetchQueue();
+
+    const channel = supabase
+      .channel("task-reviews")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "task_reviews" },
+        () => fetchQueue()
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [fetchQueue]);
+
+  const decide = async (review: ReviewRow, approve: boolean) => {
+    const comment = (comments[review.review_id] || "").trim();
+    if (!approve && !comment) {
+      toast.error("Add a comment explaining what is missing");
+      return;
+    }
+
+    setBusyId(review.review_id);
+    const { error } = await supabase.rpc("review_task_proof", {
+      p_review_id: review.review_id,
+      p_approve: approve,
+      p_comment: comment || undefined,
+    });
+    setBusyId(null);
+
+    if (error) {
+      toast.error(error.message || "Failed to save review");
+      return;
+    }
+
+    toast.success(approve ? "Proof approved" : "Proof rejected");
+    setReviews((prev) => prev.filter((r) => r.review_id !== review.review_id));
+  };
+
+  if (hideWhenEmpty && reviews.length === 0) return null;
+
+  return (
+    <Card className={className}>
+      <CardHeader className="py-4">
+        <CardTitle className="text-lg font-semibold flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          Proof Review Queue
+          <Badge variant="secondary" className="rounded-full">
+            {reviews.length}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {reviews.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No proofs waiting for review.
+          </p>
+        ) : (
+          reviews.map((r) => (
+            <div
+              key={r.review_id}
+              className="flex flex-col sm:flex-row gap-4 rounded-lg border p-3"
+            >
+              {proofs[r.review_id]?.length ? (
+                <div className="sm:w-72 shrink-0">
+                  <ProofGallery proofs={proofs[r.review_id]} compact />
+                </div>
+              ) : (
+                <a href={r.proof_url} target="_blank" rel="noreferrer" className="shrink-0">
+                  <img
+                    src={r.proof_url}
+                    alt="Proof"
+                    className="w-full sm:w-40 h-28 object-cover rounded-md border"
+                  />
+                </a>
+              )}
+              <div className="flex-1 min-w-0 space-y-2">
+                <div>
+                  <div className="font-medium leading-tight">{r.task_title}</div>
+                  <div className="text-xs text-muted-foreground">
+                    by {r.submitter_username} ·{" "}
+                    {formatDistanceToNow(new Date(r.created_at), { addSuffix: true })}
+                  </div>
+                  {r.cosigners.length > 0 && (
+                    <Badge variant="secondary" className="mt-1 gap-1 text-[11px]">
+                      <Signature className="h-3 w-3" /> Co-signed by {r.cosigners.join(", ")}
+                    </Badge>
+                  )}
+                </div>
+                {r.task_description && (
+                  <p className="text-sm text-muted-foreground line-clamp-2">
+                    {r.task_description}
+                  </p>
+                )}
+                <Textarea
+                  rows={2}
+                  placeholder="Comment (required to reject)"
+                  value={comments[r.review_id] || ""}
+                  onChange={(e) =>
+                    setComments((prev) => ({ ...prev, [r.review_id]: e.target.value }))
+                  }
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-1"
+                    disabled={busyId === r.review_id}
+                    onClick={() => decide(r, false)}
+                  >
+                    <X className="h-4 w-4" /> Reject
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="gap-1"
+                    disabled={busyId === r.review_id}
+                    onClick={() => decide(r, true)}
+                  >
+                    <Check className="h-4 w-4" /> Approve
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProofReviewQueue;
@@ -0,0 +1,91 @@
+import { useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CalendarClock, Flag, Globe, Hash, Zap } from "lucide-react";
+import { format } from "date-fns";
+import { parseQuickAdd, QuickAddResult } from "@/lib/quickAdd";
+
+interface QuickAddTaskProps {
+  disabled?: boolean;
+  onSubmit: (parsed: QuickAddResult) => Promise<boolean>;
+}
+
+/**
+ * QuickAddTask
+ * - One-line natural language task entry, previewed as chips before submitting
+ * - e.g. "Finish report tomorrow 5pm !high #work public"
+ */
+const QuickAddTask = ({ disabled, onSubmit }: QuickAddTaskProps) => {
+  const [text, setText] = useState("");
+  const parsed = useMemo(() => parseQuickAdd(text), [text]);
+  const hasChips =
+    !!parsed.deadline || !!parsed.priority || parsed.tags.length > 0 || parsed.is_public;
+
+  const submit = async () => {
+    if (!parsed.title.trim() || disabled) return;
+    if (await onSubmit(parsed)) setText("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Zap className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-primary" />
+          <Input
+            className="pl-9"
+            value={text}
+            placeholder='Quick add: "Finish report tomorrow 5pm !high #work public"'
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                submit();
+              }
+            }}
+          />
+        </div>
+        <Button onClick={submit} disabled={disabled || !parsed.title.trim()}>
+          Add
+        </Button>
+      </div>
+
+      {text.trim() && (
+        <div className="flex flex-wrap items-center gap-1.5 text-xs">
+          <span className="font-medium text-foreground/80 mr-1">
+            {parsed.title || <span className="text-destructive">Title missing</span>}
+          </span>
+          {hasChips && (
+            <>
+              {parsed.deadline && (
+                <Badge variant="secondary" className="gap-1">
+                  <CalendarClock className="h-3 w-3" />
+                  {format(parsed.deadline, parsed.hasTime ? "EEE, MMM d · h:mm a" : "EEE, MMM d")}
+                </Badge>
+              )}
+              {parsed.priority && (
+                <Badge variant="secondary" className="gap-1 capitalize">
+                  <Flag className="h-3 w-3" />
+                  {parsed.priority}
+                </Badge>
+              )}
+              {parsed.tags.map((tag) => (
+                <Badge key={tag} variant="outline" className="gap-0.5">
+                  <Hash className="h-3 w-3" />
+                  {tag}
+                </Badge>
+              ))}
+              {parsed.is_public && (
+                <Badge variant="outline" className="gap-1">
+                  <Globe className="h-3 w-3" /> Public
+                </Badge>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuickAddTask;
@@ -0,0 +1,247 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import { addDays, format } from "date-fns";
+import { Flame, Globe, Snowflake, Trophy } from "lucide-react";
+import {
+  FREEZE_EVERY,
+  MAX_FREEZES,
+  StreakEvent,
+  browserTimezone,
+  daysToNextFreeze,
+  describeStreakEvent,
+  timezoneOptions,
+  todayIn,
+} from "@/lib/streaks";
+
+interface StreakDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  profile: {
+    streak: number | null;
+    longest_streak: number;
+    streak_freezes: number;
+    timezone: string;
+  };
+}
+
+const STRIP_DAYS = 28;
+
+// a day's colour in the strip; a lost streak outranks a freeze, a freeze outranks a log
+const DAY_CLASSES: Record<string, string> = {
+  logged: "bg-orange-400",
+  freeze_used: "bg-sky-400",
+  lost: "bg-red-400",
+  admin_reset: "bg-red-400",
+};
+const DAY_RANK = ["logged", "freeze_used", "lost", "admin_reset"];
+
+const EVENT_ICONS: Record<string, typeof Flame> = {
+  logged: Flame,
+  freeze_earned: Snowflake,
+  freeze_used: Snowflake,
+  lost: Flame,
+  admin_reset: Flame,
+};
+
+const parseDay = (day: string) => new Date(`${day}T00:00:00`);
+
+/**
+ * StreakDialog
+ * - Current and longest streak, banked freezes and the streak timezone setting
+ * - History of logged days, earned / spent freezes and lost streaks
+ */
+const StreakDialog = ({ open, onOpenChange, userId, profile }: StreakDialogProps) => {
+  const [events, setEvents] = useState<StreakEvent[]>([]);
+  const [savingTimezone, setSavingTimezone] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    (async () => {
+      const { data, error } = await supabase
+        .from("streak_events")
+        .select("*")
+        .eq("user_id", userId)
+        .order("day", { ascending: false })
+        .order("created_at", { ascending: false })
+        .limit(100);
+      if (error) {
+        console.error("Failed to load streak history:", error);
+        return;
+      }
+      setEvents(data || []);
+    })();
+  }, [open, userId, profile.streak, profile.streak_freezes]);
+
+  const zones = useMemo(() => timezoneOptions(profile.timezone), [profile.timezone]);
+  const deviceZone = browserTimezone();
+
+  const strip = useMemo(() => {
+    const byDay = new Map<string, string>();
+    for (const e of events) {
+      const current = byDay.get(e.day);
+      if (DAY_RANK.includes(e.kind) && (!current || DAY_RANK.indexOf(e.kind) > DAY_RANK.indexOf(current))) {
+        byDay.set(e.day, e.kind);
+      }
+    }
+    const today = parseDay(todayIn(profile.timezone));
+    return Array.from({ length: STRIP_DAYS }, (_, i) => {
+      const date = format(addDays(today, i - STRIP_DAYS + 1), "yyyy-MM-dd");
+      return { date, kind: byDay.get(date) };
+    });
+  }, [events, profile.timezone]);
+
+  const saveTimezone = async (timezone: string) => {
+    if (timezone === profile.timezone) return;
+    setSavingTimezone(true);
+    const { error } = await supabase.from("profiles").update({ timezone }).eq("id", userId);
+    setSavingTimezone(false);
+    if (error) {
+      toast.error("Failed to update timezone");
+      return;
+    }
+    toast.success(`Streak days now follow ${timezone}`);
+  };
+
+  const streak = profile.streak || 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flame className="h-5 w-5 text-orange-500" /> Your streak
+          </DialogTitle>
+          <DialogDescription>
+            Write a daily log every day in your timezone. Every {FREEZE_EVERY}th day earns a streak freeze, and a freeze is
+            used automatically when you miss a day.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div className="rounded-lg border p-3">
+            <div className="text-xs text-muted-foreground flex items-center gap-1">
+              <Flame className="h-3.5 w-3.5 text-orange-500" /> Current
+            </div>
+            <div className="text-2xl font-bold">{streak}</div>
+          </div>
+          <div className="rounded-lg border p-3">
+            <div className="text-xs text-muted-foreground flex items-center gap-1">
+              <Trophy className="h-3.5 w-3.5 text-yellow-500" /> Longest
+            </div>
+            <div className="text-2xl font-bold">{Math.max(profile.longest_streak, streak)}</div>
+          </div>
+          <div className="rounded-lg border p-3">
+            <div className="text-xs text-muted-foreground flex items-center gap-1">
+              <Snowflake className="h-3.5 w-3.5 text-sky-500" /> Freezes
+            </div>
+            <div className="flex items-center gap-0.5 pt-1.5">
+              {Array.from({ length: MAX_FREEZES }, (_, i) => (
+                <Snowflake
+                  key={i}
+                  className={cn("h-5 w-5", i < profile.streak_freezes ? "text-sky-500" : "text-muted-foreground/30")}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {profile.streak_freezes >= MAX_FREEZES
+            ? "You have the most freezes you can bank."
+            : `Next freeze in ${daysToNextFreeze(streak)} ${daysToNextFreeze(streak) === 1 ? "day" : "days"} of streak.`}
+        </p>
+
+        <div className="space-y-2">
+          <Label className="text-xs uppercase tracking-wider text-muted-foreground">Last {STRIP_DAYS} days</Label>
+          <div className="flex gap-1">
+            {strip.map((d) => (
+              <div
+                key={d.date}
+                title={`${format(parseDay(d.date), "MMM d")}${d.kind ? ` · ${d.kind.replace("_", " ")}` : ""}`}
+                className={cn("h-4 flex-1 rounded-sm", d.kind ? DAY_CLASSES[d.kind] : "bg-muted")}
+              />
+            ))}
+          </div>
+          <div className="flex gap-3 text-[10px] text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <span className="h-2 w-2 rounded-sm bg-orange-400" /> Logged
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="h-2 w-2 rounded-sm bg-sky-400" /> Frozen
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="h-2 w-2 rounded-sm bg-red-400" /> Lost
+            </span>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs uppercase tracking-wider text-muted-foreground flex items-center gap-1">
+            <Globe className="h-3.5 w-3.5" /> Timezone
+          </Label>
+          <div className="flex gap-2">
+            <Select value={profile.timezone} onValueChange={saveTimezone} disabled={savingTimezone}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="max-h-72">
+                {zones.map((z) => (
+                  <SelectItem key={z} value={z}>
+                    {z.replace(/_/g, " ")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {deviceZone !== profile.timezone && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-9 shrink-0"
+                disabled={savingTimezone}
+                onClick={() => saveTimezone(deviceZone)}
+              >
+                Use {deviceZone.replace(/_/g, " ")}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs uppercase tracking-wider text-muted-foreground">History</Label>
+          {events.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Write your first daily log to start a streak.</p>
+          ) : (
+            <ScrollArea className="h-48 pr-3">
+              <ul className="space-y-2">
+                {events.map((e) => {
+                  const Icon = EVENT_ICONS[e.kind] ?? Flame;
+                  return (
+                    <li key={e.id} className="flex items-start gap-2 text-sm">
+                      <Icon
+                        className={cn(
+                          "h-4 w-4 mt-0.5 shrink-0",
+                          e.kind.startsWith("freeze") ? "text-sky-500" : e.kind === "logged" ? "text-orange-500" : "text-red-500"
+                        )}
+                      />
+                      <span className="flex-1">{describeStreakEvent(e)}</span>
+                      <span className="text-xs text-muted-foreground shrink-0">{format(parseDay(e.day), "MMM d")}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </ScrollArea>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StreakDialog;
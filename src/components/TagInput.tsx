@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { X } from "lucide-react";
+import { normalizeTag } from "@/lib/taskDraft";
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[];
+  placeholder?: string;
+}
+
+/**
+ * TagInput
+ * - Chips for the current tags; Enter or comma adds, Backspace on empty removes the last
+ * - Suggests the member's existing tags while typing
+ */
+const TagInput = ({ value, onChange, suggestions = [], placeholder = "Add tag..." }: TagInputProps) => {
+  const [draft, setDraft] = useState("");
+
+  const add = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !value.includes(tag)) onChange([...value, tag]);
+    setDraft("");
+  };
+
+  const typed = normalizeTag(draft);
+  const matches = typed
+    ? suggestions.filter((s) => s.startsWith(typed) && !value.includes(s)).slice(0, 6)
+    : [];
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex flex-wrap items-center gap-1.5 rounded-md border px-2 py-1.5 focus-within:ring-1 focus-within:ring-ring">
+        {value.map((tag) => (
+          <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+            #{tag}
+            <button
+              type="button"
+              className="rounded-full hover:bg-muted p-0.5"
+              onClick={() => onChange(value.filter((t) => t !== tag))}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <Input
+          value={draft}
+          placeholder={value.length ? "" : placeholder}
+          className="h-7 flex-1 min-w-[100px] border-0 p-0 shadow-none focus-visible:ring-0"
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" || e.key === ",") {
+              e.preventDefault();
+              add(draft);
+            } else if (e.key === "Backspace" && !draft && value.length) {
+              onChange(value.slice(0, -1));
+            }
+          }}
+          onBlur={() => draft && add(draft)}
+        />
+      </div>
+      {matches.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {matches.map((s) => (
+            <Badge
+              key={s}
+              variant="outline"
+              className="cursor-pointer"
+              onMouseDown={(e) => {
+                e.preventDefault();
+                add(s);
+              }}
+            >
+              #{s}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle2, Clock, AlertCircle, GripVertical, Lock } from "lucide-react";
+
+type Status = "todo" | "in_progress" | "pending_review" | "completed";
+type Column = Exclude<Status, "pending_review">;
+
+export interface BoardTask {
+  id: string;
+  title: string;
+  priority: "high" | "medium" | "low";
+  status: Status;
+  completion_percentage: number;
+  deadline: string | null;
+  is_blocked?: boolean;
+}
+
+interface TaskBoardProps {
+  tasks: BoardTask[];
+  onMove: (taskId: string, status: Status) => void;
+}
+
+const COLUMNS: { status: Column; label: string; icon: JSX.Element }[] = [
+  { status: "todo", label: "To Do", icon: <AlertCircle className="h-4 w-4 text-muted-foreground" /> },
+  { status: "in_progress", label: "In Progress", icon: <Clock className="h-4 w-4 text-yellow-500" /> },
+  { status: "completed", label: "Completed", icon: <CheckCircle2 className="h-4 w-4 text-green-500" /> },
+];
+
+const priorityBorder: Record<BoardTask["priority"], string> = {
+  high: "border-l-destructive",
+  medium: "border-l-yellow-500",
+  low: "border-l-green-500",
+};
+
+/**
+ * TaskBoard
+ * - Kanban columns for the tasks already loaded by TaskList
+ * - Native HTML5 drag and drop; completed and in-review cards are locked
+ */
+const TaskBoard = ({ tasks, onMove }: TaskBoardProps) => {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overColumn, setOverColumn] = useState<Column | null>(null);
+
+  const handleDrop = (status: Column, e: React.DragEvent) => {
+    e.preventDefault();
+    const taskId = e.dataTransfer.getData("text/plain");
+    setOverColumn(null);
+    setDraggingId(null);
+    const task = tasks.find((t) => t.id === taskId);
+    if (!task || task.status === status) return;
+    onMove(taskId, status);
+  };
+
+  return (
+    <div className="grid gap-4 md:grid-cols-3">
+      {COLUMNS.map((col) => {
+        // proofs awaiting review sit (locked) in the Completed column
+        const items = tasks.filter(
+          (t) =>
+            t.status === col.status ||
+            (col.status === "completed" && t.status === "pending_review")
+        );
+        return (
+          <div
+            key={col.status}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setOverColumn(col.status);
+            }}
+            onDragLeave={() => setOverColumn((c) => (c === col.status ? null : c))}
+            onDrop={(e) => handleDrop(col.status, e)}
+            className={`flex flex-col rounded-xl border bg-muted/20 p-3 min-h-[300px] transition-colors ${
+              overColumn === col.status ? "border-primary bg-primary/5" : ""
+            }`}
+          >
+            <div className="flex items-center justify-between px-1 pb-3">
+              <div className="flex items-center gap-2 text-sm font-semibold">
+                {col.icon}
+                {col.label}
+              </div>
+              <Badge variant="outline" className="rounded-full">
+                {items.length}
+              </Badge>
+            </div>
+
+            <div className="flex-1 space-y-2">
+              {items.map((task) => {
+                const locked = task.status === "completed" || task.status === "pending_review";
+                return (
+                  <div
+                    key={task.id}
+                    draggable={!locked}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData("text/plain", task.id);
+                      e.dataTransfer.effectAllowed = "move";
+                      setDraggingId(task.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggingId(null);
+                      setOverColumn(null);
+                    }}
+                    className={`rounded-lg border border-l-4 bg-card p-3 shadow-sm ${
+                      priorityBorder[task.priority] || "border-l-muted"
+                    } ${locked ? "opacity-80" : "cursor-grab active:cursor-grabbing"} ${
+                      draggingId === task.id ? "opacity-50" : ""
+                    }`}
+                  >
+                    <div className="flex items-start gap-2">
+                      {!locked && (
+                        <GripVertical className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground/60" />
+                      )}
+                      <div className="flex-1 min-w-0 space-y-2">
+                        <div className="flex items-start justify-between gap-2">
+                          <span className="text-sm font-medium leading-tight">{task.title}</span>
+                          <Badge variant="outline" className="capitalize text-[10px] shrink-0">
+                            {task.priority}
+                          </Badge>
+                        </div>
+                        {task.is_blocked && (
+                          <Badge variant="destructive" className="text-[10px] gap-1">
+                            <Lock className="h-3 w-3" /> Blocked
+                          </Badge>
+                        )}
+                        {task.status === "pending_review" && (
+                          <Badge variant="secondary" className="text-[10px]">
+                            Awaiting review
+                          </Badge>
+                        )}
+                        {task.deadline && (
+                          <div className="text-xs text-muted-foreground flex items-center gap-1">
+                            <Clock className="h-3 w-3" /> Due:{" "}
+                            {new Date(task.deadline).toLocaleDateString()}
+                          </div>
+                        )}
+                        <Progress value={task.completion_percentage} className="h-1.5" />
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+              {items.length === 0 && (
+                <div className="rounded-lg border-2 border-dashed py-8 text-center text-xs text-muted-foreground">
+                  Drop tasks here
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TaskBoard;
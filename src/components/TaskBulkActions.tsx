@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { CalendarClock, Globe, Lock, Trash2, X } from "lucide-react";
+
+type BulkStatus = "todo" | "in_progress";
+type BulkPriority = "high" | "medium" | "low";
+
+interface TaskBulkActionsProps {
+  count: number;
+  // selected tasks the member owns; assigned group tasks can't be deleted by them
+  deletableCount: number;
+  visibleCount: number;
+  busy: boolean;
+  penalty: number;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onStatus: (status: BulkStatus) => void;
+  onPriority: (priority: BulkPriority) => void;
+  onDeadline: (deadline: string | null) => void;
+  onPublic: (isPublic: boolean) => void;
+  onDelete: () => Promise<void>;
+}
+
+/**
+ * TaskBulkActions
+ * - Floating bar for the tasks selected in TaskList
+ * - Completing stays per task (it needs a reviewed proof), so status only offers To Do / In Progress
+ */
+const TaskBulkActions = ({
+  count,
+  deletableCount,
+  visibleCount,
+  busy,
+  penalty,
+  onSelectAll,
+  onClear,
+  onStatus,
+  onPriority,
+  onDeadline,
+  onPublic,
+  onDelete,
+}: TaskBulkActionsProps) => {
+  const [deadline, setDeadline] = useState("");
+
+  return (
+    <div className="sticky bottom-4 z-30 mx-auto w-fit max-w-full">
+      <div className="flex flex-wrap items-center gap-2 rounded-2xl border bg-background/95 backdrop-blur px-3 py-2 shadow-lg">
+        <span className="text-sm font-semibold px-1">{count} selected</span>
+        {count < visibleCount && (
+          <Button variant="link" size="sm" className="h-8 px-1" onClick={onSelectAll}>
+            Select all {visibleCount}
+          </Button>
+        )}
+
+        <Select disabled={busy} value="" onValueChange={(v) => onStatus(v as BulkStatus)}>
+          <SelectTrigger className="h-8 w-[130px]">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="todo">To Do</SelectItem>
+            <SelectItem value="in_progress">In Progress</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Select disabled={busy} value="" onValueChange={(v) => onPriority(v as BulkPriority)}>
+          <SelectTrigger className="h-8 w-[120px]">
+            <SelectValue placeholder="Priority" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="high">High</SelectItem>
+            <SelectItem value="medium">Medium</SelectItem>
+            <SelectItem value="low">Low</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8 gap-1.5" disabled={busy}>
+              <CalendarClock className="h-4 w-4" /> Deadline
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 space-y-2">
+            <Input type="date" value={deadline} onChange={(e) => setDeadline(e.target.value)} />
+            <div className="flex justify-between">
+              <Button variant="ghost" size="sm" onClick={() => onDeadline(null)}>
+                Clear deadline
+              </Button>
+              <Button size="sm" disabled={!deadline} onClick={() => onDeadline(deadline)}>
+                Apply
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        <Button variant="outline" size="sm" className="h-8 gap-1.5" disabled={busy} onClick={() => onPublic(true)}>
+          <Globe className="h-4 w-4" /> Public
+        </Button>
+        <Button variant="outline" size="sm" className="h-8 gap-1.5" disabled={busy} onClick={() => onPublic(false)}>
+          <Lock className="h-4 w-4" /> Private
+        </Button>
+
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="destructive" size="sm" className="h-8 gap-1.5" disabled={busy || deletableCount === 0}>
+              <Trash2 className="h-4 w-4" /> Delete
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                Delete {deletableCount} task{deletableCount === 1 ? "" : "s"}?
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                Each deleted task costs 5 points. This will{" "}
+                <b>reduce your points by {penalty}</b>. This action cannot be undone.
+                {deletableCount < count &&
+                  ` ${count - deletableCount} group task${count - deletableCount === 1 ? "" : "s"} assigned to you will be skipped; only the group admin can delete those.`}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                onClick={onDelete}
+              >
+                Yes, Delete (-{penalty} pts)
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClear} title="Clear selection">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TaskBulkActions;
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { toast } from "sonner";
+import { ArrowDown, ArrowUp, ListChecks, Plus, X } from "lucide-react";
+
+export interface Subtask {
+  id: string;
+  task_id: string;
+  title: string;
+  is_done: boolean;
+  position: number;
+}
+
+interface TaskChecklistProps {
+  taskId: string;
+  subtasks: Subtask[];
+  readOnly?: boolean;
+  onChange: (subtasks: Subtask[], percentage: number | null) => void;
+}
+
+// Mirrors public.task_checklist_percentage so the progress bar updates without a refetch.
+const checklistPercentage = (subtasks: Subtask[]) =>
+  subtasks.length
+    ? Math.round((100 * subtasks.filter((s) => s.is_done).length) / subtasks.length)
+    : null;
+
+/**
+ * TaskChecklist
+ * - Ordered subtasks inside a task card (add, reorder, tick off)
+ * - Parent completion_percentage is recomputed server-side from these rows
+ */
+const TaskChecklist = ({ taskId, subtasks, readOnly = false, onChange }: TaskChecklistProps) => {
+  const [newItem, setNewItem] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const sorted = [...subtasks].sort((a, b) => a.position - b.position);
+  const doneCount = sorted.filter((s) => s.is_done).length;
+
+  const emit = (next: Subtask[]) => onChange(next, checklistPercentage(next));
+
+  const handleAdd = async () => {
+    const title = newItem.trim();
+    if (!title || busy) return;
+    setBusy(true);
+
+    const position = sorted.length ? sorted[sorted.length - 1].position + 1 : 0;
+    const { data, error } = await supabase
+      .from("task_subtasks")
+      .insert({ task_id: taskId, title, position })
+      .select("id, task_id, title, is_done, position")
+      .single();
+
+    setBusy(false);
+    if (error || !data) {
+      toast.error("Failed to add checklist item");
+      return;
+    }
+    setNewItem("");
+    emit([...sorted, data]);
+  };
+
+  const handleToggle = async (item: Subtask, isDone: boolean) => {
+    const next = sorted.map((s) => (s.id === item.id ? { ...s, is_done: isDone } : s));
+    emit(next);
+
+    const { error } = await supabase
+      .from("task_subtasks")
+      .update({ is_done: isDone })
+      .eq("id", item.id);
+
+    if (error) {
+      toast.error("Failed to update checklist item");
+      emit(sorted);
+    }
+  };
+
+  const handleRemove = async (item: Subtask) => {
+    const { error } = await supabase.from("task_subtasks").delete().eq("id", item.id);
+    if (error) {
+      toast.error("Failed to remove checklist item");
+      return;
+    }
+    emit(sorted.filter((s) => s.id !== item.id));
+  };
+
+  // swap positions with the neighbour above/below
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= sorted.length) return;
+
+    const a = sorted[index];
+    const b = sorted[target];
+    const next = sorted.map((s) => {
+      if (s.id === a.id) return { ...s, position: b.position };
+      if (s.id === b.id) return { ...s, position: a.position };
+      return s;
+    });
+    emit(next);
+
+    const [resA, resB] = await Promise.all([
+      supabase.from("task_subtasks").update({ position: b.position }).eq("id", a.id),
+      supabase.from("task_subtasks").update({ position: a.position }).eq("id", b.id),
+    ]);
+
+    if (resA.error || resB.error) {
+      toast.error("Failed to reorder checklist");
+      emit(sorted);
+    }
+  };
+
+  if (readOnly && sorted.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+        <ListChecks className="h-3.5 w-3.5" />
+        <span>
+          Checklist {sorted.length > 0 && `(${doneCount}/${sorted.length})`}
+        </span>
+      </div>
+
+      {sorted.length > 0 && (
+        <ul className="space-y-1">
+          {sorted.map((item, index) => (
+            <li
+              key={item.id}
+              className="group/item flex items-center gap-2 rounded-md px-2 py-1 hover:bg-muted/40"
+            >
+              <Checkbox
+                checked={item.is_done}
+                disabled={readOnly}
+                onCheckedChange={(checked) => handleToggle(item, checked === true)}
+              />
+              <span
+                className={`flex-1 text-sm ${
+                  item.is_done ? "line-through text-muted-foreground" : ""
+                }`}
+              >
+                {item.title}
+              </span>
+              {!readOnly && (
+                <div className="flex items-center opacity-0 group-hover/item:opacity-100 transition-opacity">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    disabled={index === 0}
+                    onClick={() => handleMove(index, -1)}
+                  >
+                    <ArrowUp className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    disabled={index === sorted.length - 1}
+                    onClick={() => handleMove(index, 1)}
+                  >
+                    <ArrowDown className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 hover:text-destructive"
+                    onClick={() => handleRemove(item)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!readOnly && (
+        <div className="flex gap-2">
+          <Input
+            value={newItem}
+            onChange={(e) => setNewItem(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleAdd();
+            }}
+            placeholder="Add a checklist item..."
+            className="h-8 text-sm"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-8"
+            disabled={!newItem.trim() || busy}
+            onClick={handleAdd}
+          >
+            <Plus className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskChecklist;
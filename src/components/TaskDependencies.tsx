@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { CheckCircle2, Link2, Trash2 } from "lucide-react";
+
+export interface TaskBlocker {
+  blocked_by: string;
+  blocker: { id: string; title: string; status: string | null } | null;
+}
+
+interface CandidateTask {
+  id: string;
+  title: string;
+  status: string | null;
+}
+
+interface TaskDependenciesProps {
+  userId: string;
+  task: { id: string; title: string; task_dependencies?: TaskBlocker[] } | null;
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+/**
+ * TaskDependencies
+ * - Pick which of your own tasks must be finished before this one can start
+ * - Same-owner and cycle checks happen server-side; their errors are shown as-is
+ */
+const TaskDependencies = ({ userId, task, onOpenChange, onChanged }: TaskDependenciesProps) => {
+  const [blockers, setBlockers] = useState<TaskBlocker[]>([]);
+  const [candidates, setCandidates] = useState<CandidateTask[]>([]);
+  const [selected, setSelected] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!task) return;
+    setBlockers(task.task_dependencies || []);
+    setSelected("");
+    (async () => {
+      const { data, error } = await supabase
+        .from("tasks")
+        .select("id, title, status")
+        .eq("user_id", userId)
+        .neq("id", task.id)
+        .order("created_at", { ascending: false });
+      if (error) {
+        toast.error("Failed to load your tasks");
+        return;
+      }
+      setCandidates(data || []);
+    })();
+  }, [task, userId]);
+
+  const available = candidates.filter(
+    (c) => c.status !== "completed" && !blockers.some((b) => b.blocked_by === c.id)
+  );
+
+  const handleAdd = async () => {
+    if (!task || !selected) return;
+    setSaving(true);
+    const { error } = await supabase
+      .from("task_dependencies")
+      .insert({ task_id: task.id, blocked_by: selected });
+    setSaving(false);
+    if (error) {
+      toast.error(error.message || "Failed to add blocker");
+      return;
+    }
+    const blocker = candidates.find((c) => c.id === selected) || null;
+    setBlockers((prev) => [...prev, { blocked_by: selected, blocker }]);
+    setSelected("");
+    onChanged();
+  };
+
+  const handleRemove = async (blockedBy: string) => {
+    if (!task) return;
+    const { error } = await supabase
+      .from("task_dependencies")
+      .delete()
+      .eq("task_id", task.id)
+      .eq("blocked_by", blockedBy);
+    if (error) {
+      toast.error("Failed to remove blocker");
+      return;
+    }
+    setBlockers((prev) => prev.filter((b) => b.blocked_by !== blockedBy));
+    onChanged();
+  };
+
+  return (
+    <Dialog open={!!task} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5 text-primary" /> Blocked By
+          </DialogTitle>
+          {task && (
+            <DialogDescription>
+              "{task.title}" can only be started once these tasks are completed.
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <div className="space-y-2 py-2">
+          {blockers.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No blockers.</p>
+          ) : (
+            blockers.map((b) => (
+              <div
+                key={b.blocked_by}
+                className="flex items-center justify-between gap-3 rounded-md border p-3 text-sm"
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  {b.blocker?.status === "completed" && (
+                    <CheckCircle2 className="h-4 w-4 shrink-0 text-green-500" />
+                  )}
+                  <span className="truncate">{b.blocker?.title || "Deleted task"}</span>
+                  <Badge variant="outline" className="capitalize text-[10px] shrink-0">
+                    {(b.blocker?.status || "todo").replace("_", " ")}
+                  </Badge>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                  onClick={() => handleRemove(b.blocked_by)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="flex gap-2 pt-2 border-t">
+          <Select value={selected} onValueChange={setSelected}>
+            <SelectTrigger className="flex-1">
+              <SelectValue
+                placeholder={available.length ? "Choose a task" : "No other open tasks"}
+              />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map((c) => (
+                <SelectItem key={c.id} value={c.id}>
+                  {c.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleAdd} disabled={!selected || saving}>
+            Add
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TaskDependencies;
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Bookmark, SlidersHorizontal } from "lucide-react";
+import {
+  DEADLINE_LABELS,
+  DeadlinePreset,
+  STATUS_LABELS,
+  TaskFilters,
+  TaskPriority,
+  TaskStatus,
+  activeFilterCount,
+  emptyFilters,
+} from "@/lib/taskFilters";
+import { MyGroup } from "@/lib/groups";
+
+interface TaskFilterPanelProps {
+  filters: TaskFilters;
+  onChange: (filters: TaskFilters) => void;
+  tagOptions: string[];
+  groups: MyGroup[];
+  onSaveView: (name: string) => Promise<boolean>;
+}
+
+const PRIORITIES: TaskPriority[] = ["high", "medium", "low"];
+const MY_TASKS = "mine";
+
+const toggle = <T,>(list: T[], item: T) =>
+  list.includes(item) ? list.filter((x) => x !== item) : [...list, item];
+
+/**
+ * TaskFilterPanel
+ * - Multi-criteria filters: status, priority, tags (any of) and deadline range
+ * - Group picks one of the member's groups instead of their own tasks
+ * - Current filters can be saved as a named view for the dashboard sidebar
+ */
+const TaskFilterPanel = ({ filters, onChange, tagOptions, groups, onSaveView }: TaskFilterPanelProps) => {
+  const [viewName, setViewName] = useState("");
+  const count = activeFilterCount(filters);
+
+  const set = (patch: Partial<TaskFilters>) => onChange({ ...filters, ...patch });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2 rounded-full">
+          <SlidersHorizontal className="h-4 w-4" />
+          Filters
+          {count > 0 && (
+            <Badge variant="secondary" className="h-5 px-1.5 rounded-full">
+              {count}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-4">
+        {groups.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-xs uppercase tracking-wider text-muted-foreground">Group</Label>
+            <Select
+              value={filters.group ?? MY_TASKS}
+              onValueChange={(v) => set({ group: v === MY_TASKS ? null : v })}
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={MY_TASKS}>My tasks</SelectItem>
+                {groups.map((g) => (
+                  <SelectItem key={g.group_id} value={g.group_id}>
+                    {g.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label className="text-xs uppercase tracking-wider text-muted-foreground">Status</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(STATUS_LABELS) as TaskStatus[]).map((s) => (
+              <label key={s} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={filters.statuses.includes(s)}
+                  onCheckedChange={() => set({ statuses: toggle(filters.statuses, s) })}
+                />
+                {STATUS_LABELS[s]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs uppercase tracking-wider text-muted-foreground">Priority</Label>
+          <div className="flex gap-4">
+            {PRIORITIES.map((p) => (
+              <label key={p} className="flex items-center gap-2 text-sm capitalize cursor-pointer">
+                <Checkbox
+                  checked={filters.priorities.includes(p)}
+                  onCheckedChange={() => set({ priorities: toggle(filters.priorities, p) })}
+                />
+                {p}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs uppercase tracking-wider text-muted-foreground">Tags</Label>
+          {tagOptions.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No tags yet. Add #tags to your tasks.</p>
+          ) : (
+            <div className="flex flex-wrap gap-1.5 max-h-24 overflow-y-auto">
+              {tagOptions.map((tag) => (
+                <Badge
+                  key={tag}
+                  variant={filters.tags.includes(tag) ? "default" : "outline"}
+                  className="cursor-pointer select-none"
+                  onClick={() => set({ tags: toggle(filters.tags, tag) })}
+                >
+                  #{tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs uppercase tracking-wider text-muted-foreground">Deadline</Label>
+          <Select
+            value={filters.deadline}
+            onValueChange={(v) => set({ deadline: v as DeadlinePreset })}
+          >
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(DEADLINE_LABELS) as DeadlinePreset[]).map((d) => (
+                <SelectItem key={d} value={d}>
+                  {DEADLINE_LABELS[d]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {filters.deadline === "custom" && (
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                type="date"
+                className="h-9"
+                value={filters.deadline_from}
+                onChange={(e) => set({ deadline_from: e.target.value })}
+              />
+              <Input
+                type="date"
+                className="h-9"
+                value={filters.deadline_to}
+                onChange={(e) => set({ deadline_to: e.target.value })}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="ghost" size="sm" onClick={() => onChange(emptyFilters())}>
+            Clear all
+          </Button>
+        </div>
+
+        <div className="space-y-2 border-t pt-3">
+          <Label className="text-xs uppercase tracking-wider text-muted-foreground">Save as view</Label>
+          <div className="flex gap-2">
+            <Input
+              className="h-9"
+              placeholder='e.g. "Work this week"'
+              value={viewName}
+              onChange={(e) => setViewName(e.target.value)}
+            />
+            <Button
+              size="sm"
+              className="gap-1"
+              disabled={!viewName.trim()}
+              onClick={async () => {
+                if (await onSaveView(viewName.trim())) setViewName("");
+              }}
+            >
+              <Bookmark className="h-4 w-4" /> Save
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TaskFilterPanel;
@@ -0,0 +1,352 @@
+import { useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { ArrowDownToLine, ArrowUpFromLine, FileDown } from "lucide-react";
+import { format } from "date-fns";
+import { TaskFilters, activeFilterCount, matchesFilters } from "@/lib/taskFilters";
+import {
+  EXPORT_MIME,
+  ExportFormat,
+  ExportTask,
+  IMPORT_FIELDS,
+  IMPORT_SOURCE_LABELS,
+  ImportMapping,
+  ImportTable,
+  mapImportRows,
+  parseImportFile,
+  serializeTasks,
+  suggestMapping,
+} from "@/lib/taskTransfer";
+import { storedDeadline } from "@/lib/taskDraft";
+
+interface TaskImportExportProps {
+  userId: string;
+  filters: TaskFilters;
+  onImported: () => void;
+}
+
+const NONE = "__none__";
+const PREVIEW_ROWS = 50;
+const INSERT_CHUNK = 100;
+
+const download = (content: string, fileName: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * TaskImportExport
+ * - Export all tasks, or only those matching the current filters, as CSV / JSON / iCalendar VTODO
+ * - Import CSV, JSON, .ics, Todoist and Trello exports with a column-mapping and preview step
+ * - Imported rows are validated like the create dialog; completed items are skipped, no points change
+ */
+const TaskImportExport = ({ userId, filters, onImported }: TaskImportExportProps) => {
+  const [exporting, setExporting] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [fileName, setFileName] = useState("");
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const rows = useMemo(
+    () => (table && mapping ? mapImportRows(table, mapping) : []),
+    [table, mapping]
+  );
+  const ready = rows.filter((r) => !r.error && !r.skipped);
+  const hasFilters = activeFilterCount(filters) > 0 || filters.statuses.length > 0 || filters.is_public !== null;
+
+  const handleExport = async (fmt: ExportFormat, filtered: boolean) => {
+    setExporting(true);
+    const { data, error } = await supabase
+      .from("tasks")
+      .select("id, title, description, status, priority, deadline, is_public, tags, created_at, group_id")
+      .or(`user_id.eq.${userId},assigned_to.eq.${userId}`)
+      .order("created_at", { ascending: true });
+    setExporting(false);
+
+    if (error) {
+      toast.error("Failed to export tasks");
+      return;
+    }
+
+    const tasks = ((data || []) as ExportTask[]).filter((t) => !filtered || matchesFilters(t, filters));
+    if (tasks.length === 0) {
+      toast.error("No tasks to export");
+      return;
+    }
+
+    download(
+      serializeTasks(tasks, fmt),
+      `peacutoria-tasks-${format(new Date(), "yyyy-MM-dd")}.${fmt}`,
+      EXPORT_MIME[fmt]
+    );
+    toast.success(`Exported ${tasks.length} task${tasks.length === 1 ? "" : "s"}`);
+  };
+
+  const resetImport = () => {
+    setFileName("");
+    setTable(null);
+    setMapping(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const parsed = parseImportFile(file.name, await file.text());
+      if (parsed.rows.length === 0) {
+        toast.error("No tasks found in this file");
+        return;
+      }
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(suggestMapping(parsed.columns));
+    } catch (err) {
+      console.error(err);
+      toast.error("Couldn't read this file");
+    }
+  };
+
+  const handleImport = async () => {
+    if (importing || ready.length === 0) return;
+    setImporting(true);
+
+    // plain inserts: no community posts and no points for imported tasks
+    let inserted = 0;
+    for (let i = 0; i < ready.length; i += INSERT_CHUNK) {
+      const chunk = ready.slice(i, i + INSERT_CHUNK).map(({ draft, status }) => ({
+        user_id: userId,
+        title: draft.title,
+        description: draft.description || null,
+        priority: draft.priority,
+        deadline: storedDeadline(draft.deadline),
+        is_public: draft.is_public,
+        tags: draft.tags,
+        status,
+        completion_percentage: status === "in_progress" ? 50 : 0,
+      }));
+      const { error } = await supabase.from("tasks").insert(chunk);
+      if (error) {
+        console.error("Import failed:", error);
+        toast.error(
+          inserted
+            ? `Imported ${inserted} tasks, then failed: ${error.message}`
+            : error.message || "Failed to import tasks"
+        );
+        setImporting(false);
+        if (inserted) onImported();
+        return;
+      }
+      inserted += chunk.length;
+    }
+
+    setImporting(false);
+    toast.success(`Imported ${inserted} task${inserted === 1 ? "" : "s"}`);
+    setImportOpen(false);
+    resetImport();
+    onImported();
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2 rounded-full" disabled={exporting}>
+            <FileDown className="h-4 w-4" /> Import / Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>Export all tasks</DropdownMenuLabel>
+          {(["csv", "json", "ics"] as ExportFormat[]).map((fmt) => (
+            <DropdownMenuItem key={fmt} onClick={() => handleExport(fmt, false)}>
+              <ArrowDownToLine className="h-4 w-4 mr-2" /> {fmt === "ics" ? "iCalendar (.ics)" : fmt.toUpperCase()}
+            </DropdownMenuItem>
+          ))}
+          {hasFilters && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Export filtered tasks</DropdownMenuLabel>
+              {(["csv", "json", "ics"] as ExportFormat[]).map((fmt) => (
+                <DropdownMenuItem key={fmt} onClick={() => handleExport(fmt, true)}>
+                  <ArrowDownToLine className="h-4 w-4 mr-2" /> {fmt === "ics" ? "iCalendar (.ics)" : fmt.toUpperCase()}
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setImportOpen(true)}>
+            <ArrowUpFromLine className="h-4 w-4 mr-2" /> Import tasks...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog
+        open={importOpen}
+        onOpenChange={(open) => {
+          setImportOpen(open);
+          if (!open) resetImport();
+        }}
+      >
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import tasks</DialogTitle>
+            <DialogDescription>
+              CSV, JSON, iCalendar (.ics), or a Todoist / Trello JSON export. Completed items are
+              skipped and imported tasks earn no points.
+            </DialogDescription>
+          </DialogHeader>
+
+          {!table || !mapping ? (
+            <div className="grid gap-2 py-4">
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.json,.ics,text/csv,application/json,text/calendar"
+                className="cursor-pointer"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+          ) : (
+            <div className="space-y-5 py-2">
+              <div className="flex items-center gap-2 text-sm">
+                <span className="font-medium truncate">{fileName}</span>
+                <Badge variant="secondary">{IMPORT_SOURCE_LABELS[table.source]}</Badge>
+                <span className="text-muted-foreground">{table.rows.length} rows</span>
+                <Button variant="link" size="sm" className="ml-auto" onClick={resetImport}>
+                  Choose another file
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs uppercase tracking-wider text-muted-foreground">Column mapping</Label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {IMPORT_FIELDS.map(({ field, label }) => (
+                    <div key={field} className="flex items-center gap-2">
+                      <span className="w-24 text-sm">{label}</span>
+                      <Select
+                        value={mapping[field] ?? NONE}
+                        onValueChange={(v) => setMapping({ ...mapping, [field]: v === NONE ? null : v })}
+                      >
+                        <SelectTrigger className="h-8 flex-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NONE}>— Not imported —</SelectItem>
+                          {table.columns.map((c) => (
+                            <SelectItem key={c} value={c}>
+                              {c}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-xs uppercase tracking-wider text-muted-foreground">
+                  Preview · {ready.length} ready
+                  {rows.length - ready.length > 0 && `, ${rows.length - ready.length} skipped`}
+                </Label>
+                <div className="rounded-md border max-h-72 overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Title</TableHead>
+                        <TableHead>Priority</TableHead>
+                        <TableHead>Deadline</TableHead>
+                        <TableHead>Tags</TableHead>
+                        <TableHead>Result</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.slice(0, PREVIEW_ROWS).map((r) => (
+                        <TableRow key={r.index} className={r.error || r.skipped ? "opacity-60" : ""}>
+                          <TableCell className="max-w-[220px] truncate">{r.draft.title || "—"}</TableCell>
+                          <TableCell className="capitalize">{r.draft.priority}</TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {r.draft.deadline
+                              ? format(new Date(r.draft.deadline), r.draft.deadline.includes("T") ? "MMM d, yyyy h:mm a" : "MMM d, yyyy")
+                              : "—"}
+                          </TableCell>
+                          <TableCell className="max-w-[140px] truncate">
+                            {r.draft.tags.map((t) => `#${t}`).join(" ")}
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            {r.error ? (
+                              <span className="text-destructive">{r.error}</span>
+                            ) : r.skipped ? (
+                              <span className="text-muted-foreground">{r.skipped}</span>
+                            ) : (
+                              <span className="text-green-600">{r.status === "in_progress" ? "In Progress" : "To Do"}</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                {rows.length > PREVIEW_ROWS && (
+                  <p className="text-xs text-muted-foreground">
+                    Showing the first {PREVIEW_ROWS} of {rows.length} rows.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setImportOpen(false)}>
+              Cancel
+            </Button>
+            <Button disabled={!table || ready.length === 0 || importing} onClick={handleImport}>
+              {importing ? "Importing..." : `Import ${ready.length} task${ready.length === 1 ? "" : "s"}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default TaskImportExport;
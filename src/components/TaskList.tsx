@@ -38,8 +38,58 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Progress } from "@/components/ui/progress";
+import TaskChecklist, { Subtask } from "@/components/TaskChecklist";
+import TaskSeriesHistory, { TaskSeriesInfo } from "@/components/TaskSeriesHistory";
+import TaskBoard from "@/components/TaskBoard";
+import ProofReviewQueue from "@/components/ProofReviewQueue";
+import TaskDependencies, { TaskBlocker } from "@/components/TaskDependencies";
+import FocusTimerBar from "@/components/FocusTimerBar";
+import TaskTemplatePicker, { TaskTemplate } from "@/components/TaskTemplatePicker";
+import QuickAddTask from "@/components/QuickAddTask";
+import { QuickAddResult, quickAddDeadline } from "@/lib/quickAdd";
+import TagInput from "@/components/TagInput";
+import TaskFilterPanel from "@/components/TaskFilterPanel";
+import TaskBulkActions from "@/components/TaskBulkActions";
+import TaskImportExport from "@/components/TaskImportExport";
+import GroupManager from "@/components/GroupManager";
+import GroupTaskBar from "@/components/GroupTaskBar";
+import { GroupMember, GroupRole, MyGroup, isGroupAdmin } from "@/lib/groups";
+import {
+  SORT_LABELS,
+  TaskFilters,
+  TaskSort,
+  TaskStatus,
+  deadlineRange,
+  emptyFilters,
+  normalizeFilters,
+  taskUrgency,
+} from "@/lib/taskFilters";
+import type { Json } from "@/integrations/supabase/types";
+import ProofAttachmentsInput from "@/components/ProofAttachmentsInput";
+import ProofGallery from "@/components/ProofGallery";
+import { ProofDraft, ProofItem } from "@/lib/proofs";
+import { compressVideo } from "@/lib/compressVideo";
+import { useFocusTimer } from "@/hooks/use-focus-timer";
+import { useOutbox } from "@/hooks/use-outbox";
+import { isNetworkError, isOffline } from "@/lib/outbox";
+import { formatDuration } from "@/lib/duration";
+import {
+  RecurrenceRule,
+  WEEKDAY_LABELS,
+  describeRecurrence,
+} from "@/lib/recurrence";
+import {
+  NewTaskDraft,
+  Priority,
+  emptyDraft,
+  storedDeadline,
+  validateTaskDraft,
+} from "@/lib/taskDraft";
 import { toast } from "sonner";
+import { addDays, differenceInCalendarDays, format, formatDistanceToNow } from "date-fns";
 import {
   Plus,
   CheckCircle2,
@@ -47,6 +97,22 @@ import {
   AlertCircle,
   Trash2,
   Search,
+  Repeat,
+  LayoutList,
+  SquareKanban,
+  Hourglass,
+  Lock,
+  Link2,
+  Timer,
+  BookmarkPlus,
+  X,
+  AlertTriangle,
+  Tag,
+  ListChecks,
+  CloudUpload,
+  ArrowUpDown,
+  CalendarClock,
+  Users,
 } from "lucide-react";
 
 interface Task {
@@ -54,28 +120,51 @@ interface Task {
   title: string;
   description: string | null;
   priority: "high" | "medium" | "low";
-  status: "todo" | "in_progress" | "completed";
+  status: "todo" | "in_progress" | "pending_review" | "completed";
   completion_percentage: number;
   deadline: string | null;
   is_public: boolean;
   created_at: string;
+  updated_at?: string | null;
+  user_id?: string;
+  group_id?: string | null;
+  assigned_to?: string | null;
+  grace_extended_at?: string | null;
+  original_deadline?: string | null;
   proof_of_work_url?: string | null;
   is_active?: boolean | null;
+  task_subtasks?: Subtask[];
+  series_id?: string | null;
+  task_series?: TaskSeriesInfo | null;
+  task_reviews?: { id: string; status: string; comment: string | null; created_at: string }[];
+  task_proofs?: (ProofItem & { review_id: string; position: number })[];
+  is_blocked?: boolean;
+  task_dependencies?: TaskBlocker[];
+  task_time_entries?: { duration_seconds: number | null }[];
+  tags?: string[];
 }
 
 interface TaskListProps {
   userId: string;
+  // a fresh object per sidebar click, so reopening the same view re-applies it
+  openView?: { id: string } | null;
+  // likewise fresh per "new task" command from the palette / keyboard
+  createRequest?: { at: number } | null;
 }
 interface BlogPost {
   id: string;
 }
 
+// the member's own personal tasks plus group tasks assigned to them (PostgREST "or" filter)
+const ownTasksFilter = (userId: string) =>
+  `and(user_id.eq.${userId},group_id.is.null),assigned_to.eq.${userId}`;
+
 /**
  * TaskList
  * - UI Updated for modern aesthetic
  * - Logic preserved
  */
-const TaskList = ({ userId }: TaskListProps) => {
+const TaskList = ({ userId, openView, createRequest }: TaskListProps) => {
   // UI / paging
   const PAGE_SIZE = 20;
   const [page, setPage] = useState(0);
@@ -84,33 +173,37 @@ const TaskList = ({ userId }: TaskListProps) => {
 
   // Data
   const [tasks, setTasks] = useState<Task[]>([]);
-  const [filter, setFilter] = useState<
-    "all" | "todo" | "in_progress" | "completed" | "public"
-  >("all");
+  const [filters, setFilters] = useState<TaskFilters>(emptyFilters);
+  const [activeViewName, setActiveViewName] = useState<string | null>(null);
+  const [tagOptions, setTagOptions] = useState<string[]>([]);
+  const [view, setView] = useState<"list" | "board">("list");
+  const [sort, setSort] = useState<TaskSort>("newest");
 
   // Create / edit / proof
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [proofDialogOpen, setProofDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [taskToDelete, setTaskToDelete] = useState<string | null>(null);
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isBulkUpdating, setIsBulkUpdating] = useState(false);
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
-  const [proofFile, setProofFile] = useState<File | null>(null);
+  const [proofDrafts, setProofDrafts] = useState<ProofDraft[]>([]);
   const [isCreatingTask, setIsCreatingTask] = useState(false);
-  type Priority = "high" | "medium" | "low";
-
-  const [newTask, setNewTask] = useState<{
-    title: string;
-    description: string;
-    priority: Priority;
-    deadline: string;
-    is_public: boolean;
-  }>({
-    title: "",
-    description: "",
-    priority: "medium",
-    deadline: "",
-    is_public: false,
-  });
+
+  const [newTask, setNewTask] = useState<NewTaskDraft>(emptyDraft);
+  const [historySeries, setHistorySeries] = useState<TaskSeriesInfo | null>(
+    null
+  );
+  const [dependencyTask, setDependencyTask] = useState<Task | null>(null);
+  const [overdueTasks, setOverdueTasks] = useState<Task[]>([]);
+  const [graceTask, setGraceTask] = useState<Task | null>(null);
+  const [graceHours, setGraceHours] = useState(24);
+
+  // groups the member belongs to, with everyone's membership for assigning
+  const [groups, setGroups] = useState<MyGroup[]>([]);
+  const [groupMembers, setGroupMembers] = useState<GroupMember[]>([]);
+  const [groupsOpen, setGroupsOpen] = useState(false);
 
   // helpers
   const [searchTerm, setSearchTerm] = useState("");
@@ -154,23 +247,37 @@ const TaskList = ({ userId }: TaskListProps) => {
       // build base query
       let query = supabase
         .from("tasks")
-        .select("*")
-        .order("created_at", { ascending: false })
+        .select(
+          "*, task_subtasks(id, task_id, title, is_done, position), task_series(id, frequency, interval_days, weekdays, until_date, max_count, occurrences, is_active), task_reviews(id, status, comment, created_at), task_proofs(review_id, kind, url, caption, position), task_dependencies!task_dependencies_task_id_fkey(blocked_by, blocker:tasks!task_dependencies_blocked_by_fkey(id, title, status)), task_time_entries(duration_seconds)"
+        )
         .range(from, to);
 
-      // apply server-side filter
-      if (filter === "todo") {
-        query = query.eq("status", "todo");
-      } else if (filter === "in_progress") {
-        query = query.eq("status", "in_progress");
-      } else if (filter === "completed") {
-        query = query.eq("status", "completed");
-      } else if (filter === "public") {
-        query = query.eq("is_public", true);
-      } // 'all' -> no extra filter
+      // urgency: open tasks by deadline (overdue, due today, upcoming, undated), then the rest
+      query =
+        sort === "urgency"
+          ? query
+              .order("is_open", { ascending: false })
+              .order("deadline", { ascending: true, nullsFirst: false })
+              .order("created_at", { ascending: false })
+          : query.order("created_at", { ascending: false });
+
+      // apply server-side filters
+      const range = deadlineRange(filters);
+      if (filters.statuses.length) {
+        query = query.in("status", filters.statuses);
+      } else if (range.openOnly) {
+        query = query.in("status", ["todo", "in_progress"]);
+      }
+      if (filters.priorities.length) query = query.in("priority", filters.priorities);
+      if (filters.tags.length) query = query.overlaps("tags", filters.tags);
+      if (range.from) query = query.gte("deadline", range.from);
+      if (range.to) query = query.lte("deadline", range.to);
+      if (filters.is_public !== null) query = query.eq("is_public", filters.is_public);
 
-      // always fetch only current user's tasks
-      query = query.eq("user_id", userId);
+      // a group's tasks, or the member's own and assigned ones
+      query = filters.group
+        ? query.eq("group_id", filters.group)
+        : query.or(ownTasksFilter(userId));
 
       // add simple title/content search (server-side)
       if (searchTerm.trim()) {
@@ -200,9 +307,202 @@ const TaskList = ({ userId }: TaskListProps) => {
       setPage((p) => (reset ? 1 : p + 1));
       if ((data as Task[]).length < PAGE_SIZE) setHasMore(false);
     },
-    [filter, page, PAGE_SIZE, searchTerm, userId, hasMore, loadingMore]
+    [filters, sort, page, PAGE_SIZE, searchTerm, userId, hasMore, loadingMore]
+  );
+
+  // focus timer; a finished session refreshes the time totals
+  const focus = useFocusTimer(userId, () => {
+    setHasMore(true);
+    setPage(0);
+    fetchTasks(true);
+  });
+
+  // offline outbox; queued task writes refresh the list once they go through
+  const outbox = useOutbox(userId, (kinds) => {
+    if (!kinds.some((k) => k.startsWith("task_"))) return;
+    setHasMore(true);
+    setPage(0);
+    fetchTasks(true);
+  });
+  const queuedCreates = outbox.ops.flatMap((o) => (o.kind === "task_create" ? [o] : []));
+  const queuedStatus = new Map(
+    outbox.ops.flatMap((o) => (o.kind === "task_status" ? [[o.payload.task_id, o] as const] : []))
   );
 
+  useEffect(() => {
+    if (createRequest) setIsDialogOpen(true);
+  }, [createRequest]);
+
+  // overdue tasks are listed separately so they show regardless of paging/filter
+  useEffect(() => {
+    (async () => {
+      const { data, error } = await supabase
+        .from("tasks")
+        .select("*, task_subtasks(id, task_id, title, is_done, position)")
+        .or(ownTasksFilter(userId))
+        .in("status", ["todo", "in_progress"])
+        .lt("deadline", new Date().toISOString())
+        .order("deadline", { ascending: true });
+      if (error) {
+        console.error("Failed to load overdue tasks:", error);
+        return;
+      }
+      setOverdueTasks((data || []) as Task[]);
+    })();
+  }, [tasks, userId]);
+
+  const fetchGroups = useCallback(async () => {
+    const { data, error } = await supabase.rpc("get_my_groups");
+    if (error) {
+      console.error("Failed to load groups:", error);
+      return;
+    }
+    setGroups(data || []);
+    if (!data?.length) {
+      setGroupMembers([]);
+      return;
+    }
+    const { data: members } = await supabase
+      .from("group_members")
+      .select("group_id, user_id, role, profiles(username)")
+      .in("group_id", data.map((g) => g.group_id))
+      .order("created_at", { ascending: true });
+    setGroupMembers(
+      (members || []).map((m) => ({
+        group_id: m.group_id,
+        user_id: m.user_id,
+        role: m.role as GroupRole,
+        username: m.profiles?.username ?? null,
+      }))
+    );
+  }, []);
+
+  useEffect(() => {
+    fetchGroups();
+  }, [fetchGroups, userId]);
+
+  // tag suggestions come from every tag the member has used
+  useEffect(() => {
+    (async () => {
+      const { data } = await supabase
+        .from("tasks")
+        .select("tags")
+        .eq("user_id", userId);
+      const all = new Set((data || []).flatMap((t) => t.tags || []));
+      setTagOptions([...all].sort());
+    })();
+  }, [tasks, userId]);
+
+  // saved view picked in the dashboard sidebar
+  useEffect(() => {
+    if (!openView) return;
+    (async () => {
+      const { data, error } = await supabase
+        .from("task_filter_views")
+        .select("name, filters")
+        .eq("id", openView.id)
+        .maybeSingle();
+      if (error || !data) {
+        toast.error("Saved view not found");
+        return;
+      }
+      setFilters(normalizeFilters(data.filters));
+      setActiveViewName(data.name);
+      setHasMore(true);
+      setPage(0);
+    })();
+  }, [openView]);
+
+  const changeFilters = (next: TaskFilters) => {
+    setFilters(next);
+    setSelectedIds([]);
+    setActiveViewName(null);
+    setHasMore(true);
+    setPage(0);
+  };
+
+  const handleUpdateTags = async (taskId: string, tags: string[]) => {
+    setTasks((prev) => prev.map((t) => (t.id === taskId ? { ...t, tags } : t)));
+    const { error } = await supabase.from("tasks").update({ tags }).eq("id", taskId);
+    if (error) {
+      toast.error("Failed to update tags");
+      fetchTasks(true);
+    }
+  };
+
+  const handleSaveView = async (name: string) => {
+    const { error } = await supabase
+      .from("task_filter_views")
+      .upsert(
+        { user_id: userId, name, filters: filters as unknown as Json },
+        { onConflict: "user_id,name" }
+      );
+    if (error) {
+      toast.error("Failed to save view");
+      return false;
+    }
+    setActiveViewName(name);
+    toast.success(`Saved view "${name}"`);
+    return true;
+  };
+
+  // list/board and sort preferences are stored per user in user_ui_settings
+  useEffect(() => {
+    (async () => {
+      const { data } = await supabase
+        .from("user_ui_settings")
+        .select("task_view, task_sort")
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (data?.task_view === "board" || data?.task_view === "list") {
+        setView(data.task_view);
+      }
+      if (data?.task_sort === "urgency") setSort("urgency");
+    })();
+  }, [userId]);
+
+  // how far a grace extension pushes the deadline (admin setting)
+  useEffect(() => {
+    (async () => {
+      const { data } = await supabase
+        .from("task_overdue_settings")
+        .select("grace_hours")
+        .maybeSingle();
+      if (data) setGraceHours(data.grace_hours);
+    })();
+  }, []);
+
+  const handleSortChange = async (next: TaskSort) => {
+    setSort(next);
+    const { error } = await supabase
+      .from("user_ui_settings")
+      .upsert({ user_id: userId, task_sort: next }, { onConflict: "user_id" });
+    if (error) console.error("Failed to save task sort:", error);
+  };
+
+  // one grace extension per task, granted server-side
+  const handleGraceExtension = async (task: Task) => {
+    const { data, error } = await supabase.rpc("request_grace_extension", {
+      p_task_id: task.id,
+    });
+    if (error) {
+      toast.error(error.message || "Failed to extend deadline");
+      return;
+    }
+    toast.success(`Deadline moved to ${format(new Date(data), "MMM d, h:mm a")}`);
+    setHasMore(true);
+    setPage(0);
+    await fetchTasks(true);
+  };
+
+  const handleViewChange = async (next: "list" | "board") => {
+    setView(next);
+    const { error } = await supabase
+      .from("user_ui_settings")
+      .upsert({ user_id: userId, task_view: next }, { onConflict: "user_id" });
+    if (error) console.error("Failed to save task view:", error);
+  };
+
   useEffect(() => {
     // initial
     (async () => {
@@ -212,56 +512,116 @@ const TaskList = ({ userId }: TaskListProps) => {
       setLoadingInitial(false);
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [filter, searchTerm, userId]);
+  }, [filters, sort, searchTerm, userId]);
 
   // create a new task + optionally create public post
-  const handleCreateTask = async () => {
-    if (isCreatingTask) return; // prevent double click
+  // (shared by the create dialog and the quick-add bar)
+  const createTask = async (draft: NewTaskDraft) => {
+    if (isCreatingTask) return false; // prevent double click
     setIsCreatingTask(true);
 
-    if (!newTask.title.trim()) {
-      toast.error("Please enter a task title");
+    const invalid = validateTaskDraft(draft);
+    if (invalid) {
+      toast.error(invalid);
       setIsCreatingTask(false);
-      return;
+      return false;
     }
 
-    const { data: insertedTasks, error } = await supabase
-      .from("tasks")
-      .insert({
-        user_id: userId,
-        title: newTask.title,
-        description: newTask.description || null,
-        priority: newTask.priority,
-        deadline: newTask.deadline || null,
-        is_public: newTask.is_public,
-        status: "todo",
-        completion_percentage: 0,
-        created_at: new Date().toISOString(),
-      })
-      .select("*")
-      .single();
+    const recurrence = draft.recurrence;
 
-    if (error || !insertedTasks) {
-      toast.error("Failed to create task");
+    if (recurrence.frequency === "none" && !draft.group_id && isOffline()) {
+      return queueTask(draft);
+    }
+
+    // recurring tasks are created server-side as a series + first occurrence
+    let createdTaskId: string | null = null;
+    let error = null;
+    if (recurrence.frequency !== "none") {
+      const res = await supabase.rpc("create_recurring_task", {
+        p_title: draft.title,
+        p_description: draft.description || null,
+        p_priority: draft.priority,
+        p_is_public: draft.is_public,
+        p_frequency: recurrence.frequency,
+        p_interval_days:
+          recurrence.frequency === "interval" ? recurrence.interval_days : null,
+        p_weekdays:
+          recurrence.frequency === "weekly" ? recurrence.weekdays : null,
+        p_start_date: draft.deadline || null,
+        p_until_date:
+          recurrence.ends === "until" ? recurrence.until_date : null,
+        p_max_count: recurrence.ends === "count" ? recurrence.max_count : null,
+        p_tags: draft.tags,
+      });
+      createdTaskId = res.data ?? null;
+      error = res.error;
+    } else {
+      const res = await supabase
+        .from("tasks")
+        .insert({
+          user_id: userId,
+          title: draft.title,
+          description: draft.description || null,
+          priority: draft.priority,
+          deadline: storedDeadline(draft.deadline),
+          is_public: draft.is_public,
+          tags: draft.tags,
+          group_id: draft.group_id,
+          assigned_to: draft.group_id ? draft.assigned_to : null,
+          status: "todo",
+          completion_percentage: 0,
+          created_at: new Date().toISOString(),
+        })
+        .select("id")
+        .single();
+      createdTaskId = res.data?.id ?? null;
+      error = res.error;
+    }
+
+    if (error && recurrence.frequency === "none" && !draft.group_id && isNetworkError(error)) {
+      return queueTask(draft);
+    }
+    if (error || !createdTaskId) {
+      toast.error(
+        isNetworkError(error)
+          ? `${draft.group_id ? "Group" : "Recurring"} tasks need a connection to be created`
+          : error?.message || "Failed to create task"
+      );
       setIsCreatingTask(false);
-      return;
+      return false;
+    }
+
+    // checklist carried over from a template
+    if (draft.checklist.length > 0) {
+      const { error: checklistError } = await supabase
+        .from("task_subtasks")
+        .insert(
+          draft.checklist.map((title, position) => ({
+            task_id: createdTaskId,
+            title,
+            position,
+          }))
+        );
+      if (checklistError) {
+        console.error("Failed to add template checklist:", checklistError);
+        toast.error("Task created, but its checklist could not be added");
+      }
     }
 
     toast.success("Task created!");
 
     setIsCreatingTask(false);
-    setIsDialogOpen(false);
 
     // if public, create community post
-    if (newTask.is_public) {
+    if (draft.is_public) {
       try {
         const { error: postError } = await supabase.from("blog_posts").insert({
           user_id: userId,
-          title: newTask.title,
+          title: draft.title,
           content:
-            newTask.description?.trim() ||
+            draft.description?.trim() ||
             "Started a new public accountability task 💪",
-          task_id: insertedTasks.id,
+          task_id: createdTaskId,
           tags: ["accountability"],
         });
 
@@ -276,19 +636,115 @@ const TaskList = ({ userId }: TaskListProps) => {
       }
     }
 
-    setNewTask({
-      title: "",
-      description: "",
-      priority: "medium",
-      deadline: "",
-      is_public: false,
-    });
-
     // reload first page
     setHasMore(true);
     setPage(0);
     await fetchTasks(true);
     await fetchProfile();
+    return true;
+  };
+
+  // no connection: keep the task in the outbox; it is created (with its post) on reconnect
+  const queueTask = async (draft: NewTaskDraft) => {
+    try {
+      await outbox.enqueue({
+        kind: "task_create",
+        payload: {
+          id: crypto.randomUUID(),
+          title: draft.title,
+          description: draft.description || null,
+          priority: draft.priority,
+          deadline: storedDeadline(draft.deadline),
+          is_public: draft.is_public,
+          tags: draft.tags,
+          checklist: draft.checklist,
+        },
+      });
+      toast.info("You're offline. The task will be created when you reconnect.");
+      return true;
+    } catch (e) {
+      console.error("Failed to queue task:", e);
+      toast.error("Failed to create task");
+      return false;
+    } finally {
+      setIsCreatingTask(false);
+    }
+  };
+
+  // quick-add goes through the same path as the dialog
+  const handleQuickAdd = (parsed: QuickAddResult) =>
+    createTask({
+      ...emptyDraft(),
+      title: parsed.title,
+      priority: parsed.priority ?? "medium",
+      deadline: quickAddDeadline(parsed),
+      is_public: parsed.is_public,
+      tags: parsed.tags,
+    });
+
+  const handleCreateTask = async () => {
+    if (await createTask(newTask)) {
+      setIsDialogOpen(false);
+      setNewTask(emptyDraft());
+    }
+  };
+
+  // templates: fill the create form from one, or save a task as one
+  const applyTemplate = (template: TaskTemplate) => {
+    setNewTask((p) => ({
+      ...p,
+      title: template.title,
+      description: template.description || "",
+      priority: template.priority as Priority,
+      deadline:
+        template.deadline_offset_days != null
+          ? format(addDays(new Date(), template.deadline_offset_days), "yyyy-MM-dd")
+          : "",
+      checklist: template.checklist,
+    }));
+  };
+
+  const handleSaveTemplate = async (task: Task) => {
+    const { error } = await supabase.from("task_templates").insert({
+      user_id: userId,
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      deadline_offset_days: task.deadline
+        ? Math.max(
+            0,
+            differenceInCalendarDays(new Date(task.deadline), new Date(task.created_at))
+          )
+        : null,
+      checklist: [...(task.task_subtasks || [])]
+        .sort((a, b) => a.position - b.position)
+        .map((s) => s.title),
+    });
+    if (error) {
+      toast.error("Failed to save template");
+      return;
+    }
+    toast.success("Saved to your templates");
+  };
+
+  // checklist changed inside a card -> keep list state in sync
+  const handleSubtasksChange = (
+    taskId: string,
+    subtasks: Subtask[],
+    percentage: number | null
+  ) => {
+    setTasks((prev) =>
+      prev.map((t) =>
+        t.id === taskId
+          ? {
+              ...t,
+              task_subtasks: subtasks,
+              completion_percentage:
+                percentage ?? t.completion_percentage,
+            }
+          : t
+      )
+    );
   };
 
   // update status
@@ -296,6 +752,7 @@ const TaskList = ({ userId }: TaskListProps) => {
     taskId: string,
     newStatus: Task["status"]
   ) => {
+    // tasks with a checklist get their percentage from it (server trigger)
     const completionPercentage =
       newStatus === "completed" ? 100 : newStatus === "in_progress" ? 50 : 0;
 
@@ -304,6 +761,34 @@ const TaskList = ({ userId }: TaskListProps) => {
       return;
     }
 
+    const task = tasks.find((t) => t.id === taskId);
+    if (task && !canWork(task)) {
+      toast.error("Claim this group task before working on it.");
+      return;
+    }
+    if (task?.is_blocked && newStatus === "in_progress" && task.status === "todo") {
+      toast.error("Finish the tasks blocking this one first.");
+      return;
+    }
+
+    const queue = async () => {
+      if (!task || (newStatus !== "todo" && newStatus !== "in_progress")) return false;
+      await outbox.enqueue({
+        kind: "task_status",
+        payload: {
+          task_id: taskId,
+          title: task.title,
+          status: newStatus,
+          base_updated_at: task.updated_at ?? null,
+        },
+      });
+      setTasks((prev) => prev.map((t) => (t.id === taskId ? { ...t, status: newStatus } : t)));
+      toast.info("You're offline. The change will sync when you reconnect.");
+      return true;
+    };
+
+    if (isOffline() && (await queue())) return;
+
     const { error } = await supabase
       .from("tasks")
       .update({
@@ -313,7 +798,8 @@ const TaskList = ({ userId }: TaskListProps) => {
       .eq("id", taskId);
 
     if (error) {
-      toast.error("Failed to update task");
+      if (isNetworkError(error) && (await queue())) return;
+      toast.error(error.message || "Failed to update task");
       return;
     }
 
@@ -323,48 +809,166 @@ const TaskList = ({ userId }: TaskListProps) => {
     await fetchTasks(true);
   };
 
+  // completing always goes through the proof dialog
+  const openProofDialog = (task: Task) => {
+    if (!canWork(task)) {
+      toast.error("Claim this group task before completing it.");
+      return;
+    }
+    if (task.is_blocked) {
+      toast.error("Finish the tasks blocking this one first.");
+      return;
+    }
+    if ((task.task_subtasks || []).some((s) => !s.is_done)) {
+      toast.error("Tick off every checklist item before completing this task.");
+      return;
+    }
+    setSelectedTaskId(task.id);
+    setProofDialogOpen(true);
+  };
+
+  // board drag and drop
+  const handleBoardMove = (taskId: string, newStatus: Task["status"]) => {
+    const task = tasks.find((t) => t.id === taskId);
+    if (!task) return;
+    if (newStatus === "completed") {
+      openProofDialog(task);
+      return;
+    }
+    handleUpdateTaskStatus(taskId, newStatus);
+  };
+
   // delete
   const handleDeleteTask = async (taskId: string) => {
-    const confirmDelete = window.confirm(
-      "⚠️ Deleting this task will reduce your points by 5.\nAre you sure you want to continue?"
-    );
+    // delete the task and charge the penalty through the points ledger
+    const { data: applied, error } = await supabase.rpc("delete_task", {
+      p_task_id: taskId,
+    });
+
+    if (error) {
+      toast.error("Failed to delete task");
+      return;
+    }
+
+    if (applied && applied < 0) {
+      setUserPoints((prev) => Math.max(0, (prev ?? 0) + applied));
+      toast.warning(`Task deleted! ${applied} points ⚠️`);
+    } else {
+      toast.success("Task deleted");
+    }
+
+    // refresh
+    setHasMore(true);
+    setPage(0);
+    await fetchTasks(true);
+    await fetchProfile();
+  };
 
-    if (!confirmDelete) return;
+  // bulk actions on the multi-select
+  const toggleSelected = (taskId: string) =>
+    setSelectedIds((prev) =>
+      prev.includes(taskId) ? prev.filter((id) => id !== taskId) : [...prev, taskId]
+    );
 
-    // delete the task
-    const { error } = await supabase.from("tasks").delete().eq("id", taskId);
+  const exitSelectMode = () => {
+    setSelectMode(false);
+    setSelectedIds([]);
+  };
 
+  const runBulkUpdate = async (
+    ids: string[],
+    patch: {
+      status?: Task["status"];
+      completion_percentage?: number;
+      priority?: Task["priority"];
+      deadline?: string | null;
+      is_public?: boolean;
+    },
+    skipped = 0
+  ) => {
+    if (ids.length === 0) {
+      toast.error("None of the selected tasks can be changed that way");
+      return;
+    }
+    setIsBulkUpdating(true);
+    const { error } = await supabase.from("tasks").update(patch).in("id", ids);
+    setIsBulkUpdating(false);
     if (error) {
-      toast.error("Failed to delete task");
+      toast.error(error.message || "Failed to update tasks");
       return;
     }
+    toast.success(
+      `Updated ${ids.length} task${ids.length === 1 ? "" : "s"}` +
+        (skipped ? ` (${skipped} skipped)` : "")
+    );
+    setSelectedIds([]);
+    setHasMore(true);
+    setPage(0);
+    await fetchTasks(true);
+  };
 
-    // reduce 5 points
-    try {
-      const { data: profile, error: profileError } = await supabase
-        .from("profiles")
-        .select("points")
-        .eq("id", userId)
-        .single();
+  const handleBulkStatus = (newStatus: "todo" | "in_progress") => {
+    // completed / in-review tasks only move through the proof review flow
+    const eligible = tasks.filter(
+      (t) =>
+        selectedIds.includes(t.id) &&
+        (t.status === "todo" || t.status === "in_progress") &&
+        !(t.is_blocked && t.status === "todo" && newStatus === "in_progress")
+    );
+    runBulkUpdate(
+      eligible.map((t) => t.id),
+      { status: newStatus, completion_percentage: newStatus === "in_progress" ? 50 : 0 },
+      selectedIds.length - eligible.length
+    );
+  };
+
+  const handleBulkManage = (patch: { priority?: Task["priority"]; is_public?: boolean }) => {
+    const eligible = tasks.filter((t) => selectedIds.includes(t.id) && canManage(t));
+    runBulkUpdate(
+      eligible.map((t) => t.id),
+      patch,
+      selectedIds.length - eligible.length
+    );
+  };
 
-      if (!profileError && profile) {
-        const newPoints = Math.max(0, (profile.points || 0) - 5);
+  // an overdue task's deadline only moves through its grace extension
+  const handleBulkDeadline = (deadline: string | null) => {
+    const eligible = tasks.filter((t) => selectedIds.includes(t.id) && canManage(t) && !isOverdue(t));
+    runBulkUpdate(
+      eligible.map((t) => t.id),
+      { deadline: storedDeadline(deadline) },
+      selectedIds.length - eligible.length
+    );
+  };
 
-        await supabase
-          .from("profiles")
-          .update({ points: newPoints })
-          .eq("id", userId);
+  const handleBulkDelete = async () => {
+    const skipped = selectedIds.length - selectedOwnIds.length;
+    if (selectedOwnIds.length === 0) {
+      toast.error("Only the group admin who created a group task can delete it");
+      return;
+    }
 
-        setUserPoints(newPoints);
-        toast.warning("Task deleted! -5 points ⚠️");
-      } else {
-        toast.success("Task deleted");
-      }
-    } catch (err) {
-      toast.success("Task deleted");
+    setIsBulkUpdating(true);
+    const { data: applied, error } = await supabase.rpc("delete_tasks", {
+      p_task_ids: selectedOwnIds,
+    });
+    setIsBulkUpdating(false);
+
+    if (error) {
+      toast.error("Failed to delete tasks");
+      return;
     }
 
-    // refresh
+    const count = selectedOwnIds.length;
+    const note = skipped ? ` (${skipped} skipped)` : "";
+    if (applied && applied < 0) {
+      setUserPoints((prev) => Math.max(0, (prev ?? 0) + applied));
+      toast.warning(`${count} task${count === 1 ? "" : "s"} deleted${note}! ${applied} points ⚠️`);
+    } else {
+      toast.success(`${count} task${count === 1 ? "" : "s"} deleted${note}`);
+    }
+
+    exitSelectMode();
     setHasMore(true);
     setPage(0);
     await fetchTasks(true);
@@ -376,118 +980,77 @@ const TaskList = ({ userId }: TaskListProps) => {
     if (isSubmittingProof) return; // prevent double-click
     setIsSubmittingProof(true);
 
-    if (!proofFile || !selectedTaskId) {
-      setIsSubmittingProof(false);
-      toast.error("Please select a file first");
-      return;
-    }
-
-    // ✅ File size validation
-    const MAX_FILE_SIZE = 50 * 1024 * 1024;
-    if (proofFile.size > MAX_FILE_SIZE) {
-      toast.error(
-        "File size exceeds 50 MB. Please upload a smaller image or compress it."
-      );
+    if (proofDrafts.length === 0 || !selectedTaskId) {
       setIsSubmittingProof(false);
+      toast.error("Add at least one proof first");
       return;
     }
 
     try {
-      // sanitize filename
-      const sanitizedFileName = proofFile.name
-        .replace(/\s+/g, "_")
-        .replace(/[^\w.-]/g, "_");
-      const filePath = `task-proofs/${userId}/${Date.now()}_${sanitizedFileName}`;
-
-      // upload
-      const { error: uploadError } = await supabase.storage
-        .from("task-proofs")
-        .upload(filePath, proofFile);
-
-      if (uploadError) {
-        toast.error(uploadError.message || "Failed to upload proof image");
-        return;
-      }
+      // upload files in order; links go through as they are
+      const proofs: ProofItem[] = [];
+      for (const draft of proofDrafts) {
+        if (!draft.file) {
+          proofs.push({ kind: draft.kind, url: draft.url, caption: draft.caption.trim() || null });
+          continue;
+        }
 
-      // public url
-      const { data: urlData } = supabase.storage
-        .from("task-proofs")
-        .getPublicUrl(filePath);
-      const publicUrl = urlData?.publicUrl || null;
+        let file = draft.file;
+        if (draft.kind === "video") {
+          toast.info("Compressing video, please wait...");
+          file = await compressVideo(file);
+        }
 
-      // mark task completed
-      const { error: updateError } = await supabase
-        .from("tasks")
-        .update({
-          status: "completed",
-          completion_percentage: 100,
-          proof_of_work_url: publicUrl,
-          is_active: false,
-        })
-        .eq("id", selectedTaskId);
+        // ✅ File size validation
+        const MAX_FILE_SIZE = 50 * 1024 * 1024;
+        if (file.size > MAX_FILE_SIZE) {
+          toast.error(`${draft.file.name} exceeds 50 MB. Please upload a smaller file.`);
+          return;
+        }
 
-      if (updateError) {
-        toast.error("Failed to mark task as completed");
-        return;
-      }
+        // sanitize filename
+        const sanitizedFileName = file.name
+          .replace(/\s+/g, "_")
+          .replace(/[^\w.-]/g, "_");
+        const filePath = `task-proofs/${userId}/${Date.now()}_${sanitizedFileName}`;
 
-      // Award points (+10)
-      const { data: profile } = await supabase
-        .from("profiles")
-        .select("points, active_tasks")
-        .eq("id", userId)
-        .single();
+        // upload
+        const { error: uploadError } = await supabase.storage
+          .from("task-proofs")
+          .upload(filePath, file);
 
-      if (profile) {
-        await supabase
-          .from("profiles")
-          .update({ points: (profile.points || 0) + 10 })
-          .eq("id", userId);
-
-        if (typeof profile.active_tasks === "number") {
-          const newCount = Math.max(0, (profile.active_tasks || 0) - 1);
-          await supabase
-            .from("profiles")
-            .update({ active_tasks: newCount })
-            .eq("id", userId);
+        if (uploadError) {
+          toast.error(uploadError.message || `Failed to upload ${draft.file.name}`);
+          return;
         }
 
-        setUserPoints((prev) => (prev ?? 0) + 10);
+        // public url
+        const { data: urlData } = supabase.storage
+          .from("task-proofs")
+          .getPublicUrl(filePath);
+        proofs.push({
+          kind: draft.kind,
+          url: urlData.publicUrl,
+          caption: draft.caption.trim() || null,
+        });
       }
 
-      // If task is public, handle community post
-      const { data: taskRecord } = await supabase
-        .from("tasks")
-        .select("is_public, title, description")
-        .eq("id", selectedTaskId)
-        .single();
-
-      if (taskRecord?.is_public) {
-        const postContent = `${
-          taskRecord.description || ""
-        }\n\n✅ Task completed successfully! 🎯\n\n![Proof of Work]`;
-
-        const { error: insertError } = await supabase.from("blog_posts").insert({
-          user_id: userId,
-          title: `✅ Completed: ${taskRecord.title || "A Task"}`,
-          content: postContent,
-          task_id: selectedTaskId,
-          tags: ["accountability", "task-completion"],
-          image_url: publicUrl,
-        });
+      // send for review; points and the community post follow on approval
+      const { error: submitError } = await supabase.rpc("submit_task_proofs", {
+        p_task_id: selectedTaskId,
+        p_proofs: proofs as unknown as Json,
+      });
 
-        if (insertError) {
-          console.error("Error creating community post:", insertError);
-        } else {
-          toast.success("Posted your completion update to the community 🎉");
-        }
+      if (submitError) {
+        toast.error(submitError.message || "Failed to submit proof");
+        return;
       }
 
-      toast.success("Task completed with proof! +10 points 🎉");
+      toast.success("Proof submitted for review! +10 points once approved 🎉");
 
       // cleanup
       setProofDialogOpen(false);
-      setProofFile(null);
+      setProofDrafts([]);
       setSelectedTaskId(null);
       setHasMore(true);
       setPage(0);
@@ -528,12 +1091,66 @@ const TaskList = ({ userId }: TaskListProps) => {
     }
   };
 
+  // group tasks are worked on only by whoever claimed them; the creator owns deletion and extensions
+  const canWork = (task: Task) => !task.group_id || task.assigned_to === userId;
+  const isOwner = (task: Task) => !task.user_id || task.user_id === userId;
+
+  // group tasks assigned to the member stay with the admin who created them
+  const selectedOwnIds = tasks.filter((t) => selectedIds.includes(t.id) && isOwner(t)).map((t) => t.id);
+
+  const groupById = (id: string | null | undefined) => groups.find((g) => g.group_id === id);
+  const adminGroups = groups.filter(isGroupAdmin);
+  // title, deadline, tags and the like; an assignee only moves status and progress
+  const canManage = (task: Task) => isOwner(task) || (!!task.group_id && isGroupAdmin(groupById(task.group_id)));
+  // the assignee carries the overdue penalty, so they may take the grace extension too
+  const canExtend = (task: Task) => isOwner(task) || (!!task.group_id && task.assigned_to === userId);
+
+  const isOverdue = (task: Task) =>
+    !!task.deadline &&
+    (task.status === "todo" || task.status === "in_progress") &&
+    new Date(task.deadline) < new Date();
+
+  const timeSpent = (task: Task) =>
+    (task.task_time_entries || []).reduce(
+      (sum, e) => sum + (e.duration_seconds || 0),
+      0
+    );
+
+  const activeTab =
+    filters.is_public === true && filters.statuses.length === 0
+      ? "public"
+      : filters.is_public === null && filters.statuses.length === 0
+        ? "all"
+        : filters.is_public === null && filters.statuses.length === 1
+          ? filters.statuses[0]
+          : null;
+
+  const openBlockers = (task: Task) =>
+    (task.task_dependencies || []).filter(
+      (d) => d.blocker?.status !== "completed"
+    );
+
+  const latestReview = (task: Task) =>
+    [...(task.task_reviews || [])].sort((a, b) =>
+      b.created_at.localeCompare(a.created_at)
+    )[0];
+
+  // proofs of the most recent submission; older, rejected ones stay hidden
+  const submittedProofs = (task: Task): ProofItem[] => {
+    const review = latestReview(task);
+    return (task.task_proofs || [])
+      .filter((p) => p.review_id === review?.id)
+      .sort((a, b) => a.position - b.position);
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case "completed":
         return <CheckCircle2 className="h-4 w-4 text-green-500" />;
       case "in_progress":
         return <Clock className="h-4 w-4 text-yellow-500" />;
+      case "pending_review":
+        return <Hourglass className="h-4 w-4 text-blue-500" />;
       default:
         return <AlertCircle className="h-4 w-4 text-muted-foreground" />;
     }
@@ -546,21 +1163,24 @@ const TaskList = ({ userId }: TaskListProps) => {
   };
 
   // UI: Pill Tab Nav
+  // tabs are shortcuts for the status / public part of the filters
   const TabButton = ({
     id,
     label,
   }: {
-    id: typeof filter;
+    id: "all" | TaskStatus | "public";
     label: string;
   }) => (
     <button
       onClick={() => {
-        setFilter(id);
-        setHasMore(true);
-        setPage(0);
+        changeFilters({
+          ...filters,
+          statuses: id === "all" || id === "public" ? [] : [id],
+          is_public: id === "public" ? true : null,
+        });
       }}
       className={`px-4 py-1.5 text-sm font-medium rounded-full transition-all duration-200 ${
-        filter === id
+        activeTab === id
           ? "bg-primary text-primary-foreground shadow-sm ring-1 ring-primary/10"
           : "bg-transparent text-muted-foreground hover:bg-muted hover:text-foreground"
       }`}
@@ -575,7 +1195,7 @@ const TaskList = ({ userId }: TaskListProps) => {
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6">
         <div className="space-y-1">
           <h2 className="text-3xl font-bold tracking-tight flex items-center gap-3">
-            My Tasks
+            {groupById(filters.group)?.name ?? "My Tasks"}
             {userPoints !== null && (
               <Badge variant="secondary" className="ml-2 text-base px-3 py-0.5 rounded-full font-semibold">
                 {userPoints} pts
@@ -617,6 +1237,8 @@ const TaskList = ({ userId }: TaskListProps) => {
               </DialogHeader>
 
               <div className="grid gap-6 py-4">
+                <TaskTemplatePicker userId={userId} onUse={applyTemplate} />
+
                 <div className="grid gap-2">
                   <Label htmlFor="title">Task Title</Label>
                   <Input
@@ -643,6 +1265,106 @@ const TaskList = ({ userId }: TaskListProps) => {
                   />
                 </div>
 
+                <div className="grid gap-2">
+                  <Label>Tags</Label>
+                  <TagInput
+                    value={newTask.tags}
+                    onChange={(tags) => setNewTask((p) => ({ ...p, tags }))}
+                    suggestions={tagOptions}
+                    placeholder="e.g. work, health"
+                  />
+                </div>
+
+                {newTask.checklist.length > 0 && (
+                  <div className="grid gap-2">
+                    <Label>Checklist</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {newTask.checklist.map((item, i) => (
+                        <Badge key={i} variant="secondary" className="gap-1 pr-1">
+                          {item}
+                          <button
+                            type="button"
+                            className="rounded-full hover:bg-muted p-0.5"
+                            onClick={() =>
+                              setNewTask((p) => ({
+                                ...p,
+                                checklist: p.checklist.filter((_, j) => j !== i),
+                              }))
+                            }
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {adminGroups.length > 0 && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="grid gap-2">
+                      <Label>Group</Label>
+                      <Select
+                        value={newTask.group_id ?? "personal"}
+                        onValueChange={(value) =>
+                          setNewTask((p) => ({
+                            ...p,
+                            group_id: value === "personal" ? null : value,
+                            assigned_to: null,
+                            // group tasks are one-off
+                            recurrence:
+                              value === "personal"
+                                ? p.recurrence
+                                : { ...p.recurrence, frequency: "none" },
+                          }))
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="personal">Personal task</SelectItem>
+                          {adminGroups.map((g) => (
+                            <SelectItem key={g.group_id} value={g.group_id}>
+                              {g.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {newTask.group_id && (
+                      <div className="grid gap-2">
+                        <Label>Assign to</Label>
+                        <Select
+                          value={newTask.assigned_to ?? "none"}
+                          onValueChange={(value) =>
+                            setNewTask((p) => ({
+                              ...p,
+                              assigned_to: value === "none" ? null : value,
+                            }))
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Anyone can claim it</SelectItem>
+                            {groupMembers
+                              .filter((m) => m.group_id === newTask.group_id)
+                              .map((m) => (
+                                <SelectItem key={m.user_id} value={m.user_id}>
+                                  {m.username || "Unknown"}
+                                  {m.user_id === userId && " (you)"}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 <div className="grid grid-cols-2 gap-4">
                   <div className="grid gap-2">
                     <Label>Priority</Label>
@@ -667,7 +1389,11 @@ const TaskList = ({ userId }: TaskListProps) => {
                   </div>
 
                   <div className="grid gap-2">
-                    <Label>Deadline</Label>
+                    <Label>
+                      {newTask.recurrence.frequency === "none"
+                        ? "Deadline"
+                        : "Starts on"}
+                    </Label>
                     <Input
                       type="date"
                       value={newTask.deadline}
@@ -678,6 +1404,168 @@ const TaskList = ({ userId }: TaskListProps) => {
                   </div>
                 </div>
 
+                <div className="grid gap-3">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="grid gap-2">
+                      <Label>Repeat</Label>
+                      <Select
+                        value={newTask.recurrence.frequency}
+                        disabled={!!newTask.group_id}
+                        onValueChange={(value) =>
+                          setNewTask((p) => ({
+                            ...p,
+                            recurrence: {
+                              ...p.recurrence,
+                              frequency: value as RecurrenceRule["frequency"],
+                            },
+                          }))
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Does not repeat</SelectItem>
+                          <SelectItem value="daily">Daily</SelectItem>
+                          <SelectItem value="weekdays">Every weekday</SelectItem>
+                          <SelectItem value="weekly">Weekly on...</SelectItem>
+                          <SelectItem value="interval">Every N days</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {newTask.recurrence.frequency !== "none" && (
+                      <div className="grid gap-2">
+                        <Label>Ends</Label>
+                        <Select
+                          value={newTask.recurrence.ends}
+                          onValueChange={(value) =>
+                            setNewTask((p) => ({
+                              ...p,
+                              recurrence: {
+                                ...p.recurrence,
+                                ends: value as RecurrenceRule["ends"],
+                              },
+                            }))
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="never">Never</SelectItem>
+                            <SelectItem value="until">On a date</SelectItem>
+                            <SelectItem value="count">After N times</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                  </div>
+
+                  {newTask.recurrence.frequency === "weekly" && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {WEEKDAY_LABELS.map((label, day) => {
+                        const active =
+                          newTask.recurrence.weekdays.includes(day);
+                        return (
+                          <button
+                            key={label}
+                            type="button"
+                            onClick={() =>
+                              setNewTask((p) => ({
+                                ...p,
+                                recurrence: {
+                                  ...p.recurrence,
+                                  weekdays: active
+                                    ? p.recurrence.weekdays.filter(
+                                        (d) => d !== day
+                                      )
+                                    : [...p.recurrence.weekdays, day],
+                                },
+                              }))
+                            }
+                            className={`px-3 py-1 text-xs font-medium rounded-full border transition-colors ${
+                              active
+                                ? "bg-primary text-primary-foreground border-primary"
+                                : "text-muted-foreground hover:bg-muted"
+                            }`}
+                          >
+                            {label}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {newTask.recurrence.frequency === "interval" && (
+                    <div className="flex items-center gap-2 text-sm">
+                      <span>Every</span>
+                      <Input
+                        type="number"
+                        min={1}
+                        className="w-20 h-8"
+                        value={newTask.recurrence.interval_days}
+                        onChange={(e) =>
+                          setNewTask((p) => ({
+                            ...p,
+                            recurrence: {
+                              ...p.recurrence,
+                              interval_days: Math.max(
+                                1,
+                                Number(e.target.value) || 1
+                              ),
+                            },
+                          }))
+                        }
+                      />
+                      <span>days</span>
+                    </div>
+                  )}
+
+                  {newTask.recurrence.frequency !== "none" &&
+                    newTask.recurrence.ends === "until" && (
+                      <Input
+                        type="date"
+                        value={newTask.recurrence.until_date}
+                        onChange={(e) =>
+                          setNewTask((p) => ({
+                            ...p,
+                            recurrence: {
+                              ...p.recurrence,
+                              until_date: e.target.value,
+                            },
+                          }))
+                        }
+                      />
+                    )}
+
+                  {newTask.recurrence.frequency !== "none" &&
+                    newTask.recurrence.ends === "count" && (
+                      <div className="flex items-center gap-2 text-sm">
+                        <span>After</span>
+                        <Input
+                          type="number"
+                          min={1}
+                          className="w-20 h-8"
+                          value={newTask.recurrence.max_count}
+                          onChange={(e) =>
+                            setNewTask((p) => ({
+                              ...p,
+                              recurrence: {
+                                ...p.recurrence,
+                                max_count: Math.max(
+                                  1,
+                                  Number(e.target.value) || 1
+                                ),
+                              },
+                            }))
+                          }
+                        />
+                        <span>occurrences</span>
+                      </div>
+                    )}
+                </div>
+
                 <div className="flex items-center space-x-2 bg-muted/30 p-3 rounded-lg border border-dashed border-muted-foreground/30">
                   <input
                     id="public"
@@ -711,16 +1599,212 @@ const TaskList = ({ userId }: TaskListProps) => {
         </div>
       </div>
 
-      {/* Tabs */}
-      <div className="flex flex-wrap gap-2 items-center bg-muted/20 p-1.5 rounded-full w-fit">
-        <TabButton id="all" label="All" />
-        <TabButton id="todo" label="To Do" />
-        <TabButton id="in_progress" label="In Progress" />
-        <TabButton id="completed" label="Done" />
-        <TabButton id="public" label="Public" />
+      {/* Natural language quick-add */}
+      <QuickAddTask disabled={isCreatingTask} onSubmit={handleQuickAdd} />
+
+      {/* Running focus session */}
+      {focus.entry && (
+        <FocusTimerBar
+          entry={focus.entry}
+          remainingSeconds={focus.remainingSeconds}
+          onStop={focus.stop}
+        />
+      )}
+
+      {/* Proofs assigned to me for peer review */}
+      <ProofReviewQueue hideWhenEmpty />
+
+      {/* Tabs + view toggle */}
+      <div className="flex flex-wrap gap-3 items-center justify-between">
+        <div className="flex flex-wrap gap-2 items-center bg-muted/20 p-1.5 rounded-full w-fit">
+          <TabButton id="all" label="All" />
+          <TabButton id="todo" label="To Do" />
+          <TabButton id="in_progress" label="In Progress" />
+          <TabButton id="pending_review" label="In Review" />
+          <TabButton id="completed" label="Done" />
+          <TabButton id="public" label="Public" />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mr-auto">
+          <TaskFilterPanel
+            filters={filters}
+            onChange={changeFilters}
+            tagOptions={tagOptions}
+            groups={groups}
+            onSaveView={handleSaveView}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2 rounded-full"
+            onClick={() => setGroupsOpen(true)}
+          >
+            <Users className="h-4 w-4" />
+            Groups
+          </Button>
+          <TaskImportExport
+            userId={userId}
+            filters={filters}
+            onImported={() => {
+              setHasMore(true);
+              setPage(0);
+              fetchTasks(true);
+            }}
+          />
+          {activeViewName && (
+            <Badge variant="secondary" className="gap-1 rounded-full">
+              View: {activeViewName}
+              <button
+                className="rounded-full hover:bg-muted p-0.5"
+                onClick={() => changeFilters(emptyFilters())}
+                title="Clear view"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          )}
+        </div>
+
+        {view === "list" && (
+          <Select value={sort} onValueChange={(v) => handleSortChange(v as TaskSort)}>
+            <SelectTrigger className="h-9 w-auto gap-2 rounded-full">
+              <ArrowUpDown className="h-4 w-4 text-muted-foreground" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SORT_LABELS) as TaskSort[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {SORT_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <div className="flex items-center gap-1 bg-muted/20 p-1 rounded-full">
+          {view === "list" && (
+            <Button
+              variant={selectMode ? "secondary" : "ghost"}
+              size="sm"
+              className="rounded-full h-8 gap-1.5"
+              onClick={() => (selectMode ? exitSelectMode() : setSelectMode(true))}
+            >
+              <ListChecks className="h-4 w-4" /> {selectMode ? "Done" : "Select"}
+            </Button>
+          )}
+          <Button
+            variant={view === "list" ? "default" : "ghost"}
+            size="sm"
+            className="rounded-full h-8 gap-1.5"
+            onClick={() => handleViewChange("list")}
+          >
+            <LayoutList className="h-4 w-4" /> List
+          </Button>
+          <Button
+            variant={view === "board" ? "default" : "ghost"}
+            size="sm"
+            className="rounded-full h-8 gap-1.5"
+            onClick={() => {
+              exitSelectMode();
+              handleViewChange("board");
+            }}
+          >
+            <SquareKanban className="h-4 w-4" /> Board
+          </Button>
+        </div>
       </div>
 
+      {/* Board view */}
+      {view === "board" && (
+        <TaskBoard tasks={tasks} onMove={handleBoardMove} />
+      )}
+
+      {/* Overdue */}
+      {overdueTasks.length > 0 && (
+        <Card className="border-destructive/40 bg-destructive/5">
+          <CardHeader className="py-3">
+            <CardTitle className="text-base flex items-center gap-2 text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              Overdue ({overdueTasks.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pb-3 space-y-2">
+            {overdueTasks.map((task) => (
+              <div
+                key={task.id}
+                className="flex items-center justify-between gap-3 rounded-md border bg-background p-2.5 text-sm"
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  {getStatusIcon(task.status)}
+                  <span className="font-medium truncate">{task.title}</span>
+                  <span className="text-xs text-destructive shrink-0">
+                    due {formatDistanceToNow(new Date(task.deadline as string), { addSuffix: true })}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1.5 shrink-0">
+                  {!task.grace_extended_at && canExtend(task) && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 gap-1"
+                      onClick={() => setGraceTask(task)}
+                    >
+                      <CalendarClock className="h-3.5 w-3.5" /> Extend
+                    </Button>
+                  )}
+                  {!canWork(task) ? null : task.status === "todo" ? (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7"
+                      disabled={task.is_blocked}
+                      onClick={() => handleUpdateTaskStatus(task.id, "in_progress")}
+                    >
+                      Start
+                    </Button>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7"
+                      disabled={task.is_blocked}
+                      onClick={() => openProofDialog(task)}
+                    >
+                      Mark Done
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Created offline, waiting for the connection */}
+      {queuedCreates.length > 0 && (
+        <div className="grid gap-2">
+          {queuedCreates.map((op) => (
+            <div
+              key={op.id}
+              className={`flex items-center gap-3 rounded-lg border border-dashed border-l-4 bg-muted/20 p-3 ${getPriorityBorderColor(
+                op.payload.priority
+              )}`}
+            >
+              <CloudUpload className="h-4 w-4 text-muted-foreground shrink-0" />
+              <span className="font-medium truncate flex-1">{op.payload.title}</span>
+              <Badge
+                variant={op.state === "pending" ? "secondary" : "outline"}
+                className="text-[10px] h-5 shrink-0"
+              >
+                {op.state === "pending" ? "Pending sync" : "Sync failed"}
+              </Badge>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Tasks Grid */}
+      {view === "list" && (
       <div className="grid gap-5">
         {tasks.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-20 text-center border-2 border-dashed rounded-xl bg-muted/10">
@@ -740,12 +1824,19 @@ const TaskList = ({ userId }: TaskListProps) => {
               key={task.id}
               className={`group relative overflow-hidden transition-all duration-300 hover:shadow-lg border-l-4 ${getPriorityBorderColor(
                 task.priority
-              )}`}
+              )} ${selectedIds.includes(task.id) ? "ring-2 ring-primary/60" : ""}`}
             >
               <CardHeader className="pb-3">
                 <div className="flex justify-between items-start gap-4">
                   <div className="space-y-1.5">
                     <div className="flex items-center gap-2 flex-wrap">
+                      {selectMode && (
+                        <Checkbox
+                          checked={selectedIds.includes(task.id)}
+                          onCheckedChange={() => toggleSelected(task.id)}
+                          aria-label={`Select ${task.title}`}
+                        />
+                      )}
                       {getStatusIcon(task.status)}
                       <CardTitle className="text-lg font-semibold leading-none">
                         {task.title}
@@ -758,17 +1849,134 @@ const TaskList = ({ userId }: TaskListProps) => {
                           Public
                         </Badge>
                       )}
+                      {task.is_blocked && (
+                        <Badge
+                          variant="destructive"
+                          className="text-[10px] h-5 gap-1"
+                        >
+                          <Lock className="h-3 w-3" />
+                          Blocked
+                        </Badge>
+                      )}
+                      {taskUrgency(task) === "overdue" && (
+                        <Badge variant="destructive" className="text-[10px] h-5">
+                          Overdue
+                        </Badge>
+                      )}
+                      {taskUrgency(task) === "today" && (
+                        <Badge
+                          variant="outline"
+                          className="text-[10px] h-5 border-amber-500 text-amber-700"
+                        >
+                          Due today
+                        </Badge>
+                      )}
+                      {task.grace_extended_at && (
+                        <Badge
+                          variant="secondary"
+                          className="text-[10px] h-5 gap-1"
+                          title={
+                            task.original_deadline
+                              ? `Originally due ${format(new Date(task.original_deadline), "MMM d, h:mm a")}`
+                              : undefined
+                          }
+                        >
+                          <CalendarClock className="h-3 w-3" />
+                          Extended
+                        </Badge>
+                      )}
+                      {queuedStatus.has(task.id) && (
+                        <Badge
+                          variant="secondary"
+                          className="text-[10px] h-5 gap-1"
+                        >
+                          <CloudUpload className="h-3 w-3" />
+                          {queuedStatus.get(task.id)?.state === "conflict" ? "Sync conflict" : "Pending sync"}
+                        </Badge>
+                      )}
+                      {task.task_series && (
+                        <Badge
+                          variant="secondary"
+                          className="text-[10px] h-5 gap-1 cursor-pointer"
+                          onClick={() => setHistorySeries(task.task_series)}
+                        >
+                          <Repeat className="h-3 w-3" />
+                          {describeRecurrence(task.task_series)}
+                        </Badge>
+                      )}
                     </div>
                     {task.description && (
                       <CardDescription className="line-clamp-2 text-sm leading-relaxed">
                         {task.description}
                       </CardDescription>
                     )}
+                    <div className="flex flex-wrap items-center gap-1 pt-0.5">
+                      {(task.tags || []).map((tag) => (
+                        <Badge
+                          key={tag}
+                          variant={filters.tags.includes(tag) ? "default" : "outline"}
+                          className="text-[10px] h-5 px-1.5 font-normal cursor-pointer"
+                          onClick={() =>
+                            !filters.tags.includes(tag) &&
+                            changeFilters({ ...filters, tags: [...filters.tags, tag] })
+                          }
+                        >
+                          #{tag}
+                        </Badge>
+                      ))}
+                      {canManage(task) && (
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <button
+                              className="text-[10px] h-5 px-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted flex items-center gap-1"
+                              title="Edit tags"
+                            >
+                              <Tag className="h-3 w-3" />
+                              {(task.tags || []).length === 0 && "Add tag"}
+                            </button>
+                          </PopoverTrigger>
+                          <PopoverContent align="start" className="w-72">
+                            <TagInput
+                              value={task.tags || []}
+                              onChange={(tags) => handleUpdateTags(task.id, tags)}
+                              suggestions={tagOptions}
+                            />
+                          </PopoverContent>
+                        </Popover>
+                      )}
+                    </div>
+                    {task.group_id && (
+                      <GroupTaskBar
+                        userId={userId}
+                        task={task}
+                        group={groupById(task.group_id)}
+                        members={groupMembers.filter((m) => m.group_id === task.group_id)}
+                        onChanged={() => {
+                          setHasMore(true);
+                          setPage(0);
+                          fetchTasks(true);
+                        }}
+                      />
+                    )}
+                    {task.is_blocked && (
+                      <div className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                        <Link2 className="h-3 w-3" /> Waiting on:{" "}
+                        {openBlockers(task)
+                          .map((b) => b.blocker?.title)
+                          .join(", ")}
+                      </div>
+                    )}
                     {task.deadline && (
-                        <div className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                        <div className={`text-xs flex items-center gap-1 mt-1 ${isOverdue(task) ? "text-destructive font-medium" : "text-muted-foreground"}`}>
                             <Clock className="h-3 w-3" /> Due: {new Date(task.deadline).toLocaleDateString()}
+                            {isOverdue(task) && " · Overdue"}
                         </div>
                     )}
+                    {timeSpent(task) > 0 && (
+                      <div className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                        <Timer className="h-3 w-3" /> Time spent: {formatDuration(timeSpent(task))}
+                      </div>
+                    )}
                   </div>
 
                   <Badge
@@ -781,8 +1989,14 @@ const TaskList = ({ userId }: TaskListProps) => {
               </CardHeader>
 
               <CardContent className="pb-3">
-                {/* Proof Image Preview */}
-                {task.status === "completed" && task.proof_of_work_url && (
+                {/* Proof Preview */}
+                {(task.status === "completed" || task.status === "pending_review") &&
+                  submittedProofs(task).length > 0 ? (
+                  <div className="mb-4 mt-1">
+                    <ProofGallery proofs={submittedProofs(task)} compact />
+                  </div>
+                ) : (task.status === "completed" || task.status === "pending_review") &&
+                  task.proof_of_work_url && (
                   <div className="mb-4 mt-1">
                     <div className="relative group/image w-fit">
                       <img
@@ -801,6 +2015,28 @@ const TaskList = ({ userId }: TaskListProps) => {
                   </div>
                 )}
                 
+                <div className="mb-4">
+                  <TaskChecklist
+                    taskId={task.id}
+                    subtasks={task.task_subtasks || []}
+                    readOnly={
+                      task.status === "completed" ||
+                      task.status === "pending_review" ||
+                      !canWork(task)
+                    }
+                    onChange={(subtasks, percentage) =>
+                      handleSubtasksChange(task.id, subtasks, percentage)
+                    }
+                  />
+                </div>
+
+                {task.status === "in_progress" && latestReview(task)?.status === "rejected" && (
+                  <div className="mb-4 rounded-md border border-destructive/30 bg-destructive/5 p-3 text-xs">
+                    <span className="font-medium text-destructive">Proof rejected: </span>
+                    {latestReview(task)?.comment}
+                  </div>
+                )}
+
                 <div className="space-y-2 mt-2">
                   <div className="flex justify-between text-xs font-medium text-muted-foreground">
                     <span>Progress</span>
@@ -812,9 +2048,10 @@ const TaskList = ({ userId }: TaskListProps) => {
 
               <CardFooter className="pt-3 border-t bg-muted/5 flex justify-between items-center">
                 <div className="flex gap-2">
-                  {task.status === "todo" && (
+                  {task.status === "todo" && canWork(task) && (
                     <Button
                       size="sm"
+                      disabled={task.is_blocked}
                       onClick={() =>
                         handleUpdateTaskStatus(task.id, "in_progress")
                       }
@@ -823,13 +2060,11 @@ const TaskList = ({ userId }: TaskListProps) => {
                     </Button>
                   )}
 
-                  {task.status === "in_progress" && (
+                  {task.status === "in_progress" && canWork(task) && (
                     <Button
                       size="sm"
-                      onClick={() => {
-                        setSelectedTaskId(task.id);
-                        setProofDialogOpen(true);
-                      }}
+                      disabled={task.is_blocked}
+                      onClick={() => openProofDialog(task)}
                       className="gap-2"
                     >
                       <CheckCircle2 className="h-4 w-4" />
@@ -837,6 +2072,54 @@ const TaskList = ({ userId }: TaskListProps) => {
                     </Button>
                   )}
 
+                  {task.status === "in_progress" && canWork(task) && focus.entry?.task_id !== task.id && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1"
+                      onClick={() => focus.start(task.id)}
+                    >
+                      <Timer className="h-4 w-4" />
+                      Focus
+                    </Button>
+                  )}
+
+                  {(task.status === "todo" || task.status === "in_progress") && isOwner(task) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1"
+                      onClick={() => setDependencyTask(task)}
+                    >
+                      <Link2 className="h-4 w-4" />
+                      Blockers
+                      {(task.task_dependencies || []).length > 0 &&
+                        ` (${(task.task_dependencies || []).length})`}
+                    </Button>
+                  )}
+
+                  {taskUrgency(task) &&
+                    taskUrgency(task) !== "upcoming" &&
+                    !task.grace_extended_at &&
+                    canExtend(task) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1"
+                      onClick={() => setGraceTask(task)}
+                    >
+                      <CalendarClock className="h-4 w-4" />
+                      Extend
+                    </Button>
+                  )}
+
+                  {task.status === "pending_review" && (
+                    <Badge variant="secondary" className="gap-1 h-8 px-3">
+                      <Hourglass className="h-3.5 w-3.5" />
+                      Awaiting review
+                    </Badge>
+                  )}
+
                   {task.status === "completed" && (
                     <Button
                       variant="ghost"
@@ -849,53 +2132,85 @@ const TaskList = ({ userId }: TaskListProps) => {
                   )}
                 </div>
 
-                <AlertDialog
-                  open={deleteDialogOpen}
-                  onOpenChange={setDeleteDialogOpen}
-                >
-                  <AlertDialogTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-8 w-8 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
-                      onClick={() => {
-                        setTaskToDelete(task.id);
-                        setDeleteDialogOpen(true);
-                      }}
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Save as template"
+                    className="h-8 w-8 text-muted-foreground hover:text-primary"
+                    onClick={() => handleSaveTemplate(task)}
+                  >
+                    <BookmarkPlus className="h-4 w-4" />
+                  </Button>
+
+                  {isOwner(task) && (
+                    <AlertDialog
+                      open={deleteDialogOpen}
+                      onOpenChange={setDeleteDialogOpen}
                     >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </AlertDialogTrigger>
-                  <AlertDialogContent>
-                    <AlertDialogHeader>
-                      <AlertDialogTitle>Delete this task?</AlertDialogTitle>
-                      <AlertDialogDescription>
-                        Deleting this task will <b>reduce your points by 5</b>.
-                        This action cannot be undone.
-                      </AlertDialogDescription>
-                    </AlertDialogHeader>
-                    <AlertDialogFooter>
-                      <AlertDialogCancel>Cancel</AlertDialogCancel>
-                      <AlertDialogAction
-                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                        onClick={async () => {
-                          if (taskToDelete) {
-                            await handleDeleteTask(taskToDelete);
-                          }
-                          setDeleteDialogOpen(false);
-                          setTaskToDelete(null);
-                        }}
-                      >
-                        Yes, Delete (-5 pts)
-                      </AlertDialogAction>
-                    </AlertDialogFooter>
-                  </AlertDialogContent>
-                </AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                          onClick={() => {
+                            setTaskToDelete(task.id);
+                            setDeleteDialogOpen(true);
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete this task?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Deleting this task will <b>reduce your points by 5</b>.
+                            This action cannot be undone.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                            onClick={async () => {
+                              if (taskToDelete) {
+                                await handleDeleteTask(taskToDelete);
+                              }
+                              setDeleteDialogOpen(false);
+                              setTaskToDelete(null);
+                            }}
+                          >
+                            Yes, Delete (-5 pts)
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                </div>
               </CardFooter>
             </Card>
           ))
         )}
       </div>
+      )}
+
+      {selectMode && selectedIds.length > 0 && (
+        <TaskBulkActions
+          count={selectedIds.length}
+          deletableCount={selectedOwnIds.length}
+          visibleCount={tasks.length}
+          busy={isBulkUpdating}
+          penalty={Math.min(5 * selectedOwnIds.length, userPoints ?? 5 * selectedOwnIds.length)}
+          onSelectAll={() => setSelectedIds(tasks.map((t) => t.id))}
+          onClear={() => setSelectedIds([])}
+          onStatus={handleBulkStatus}
+          onPriority={(priority) => handleBulkManage({ priority })}
+          onDeadline={handleBulkDeadline}
+          onPublic={(is_public) => handleBulkManage({ is_public })}
+          onDelete={handleBulkDelete}
+        />
+      )}
 
       {/* Pager */}
       <div className="flex justify-center py-6">
@@ -911,38 +2226,101 @@ const TaskList = ({ userId }: TaskListProps) => {
         )}
       </div>
 
+      {/* Group membership and settings */}
+      <GroupManager
+        userId={userId}
+        open={groupsOpen}
+        onOpenChange={setGroupsOpen}
+        groups={groups}
+        members={groupMembers}
+        onChanged={async () => {
+          await fetchGroups();
+          setHasMore(true);
+          setPage(0);
+          await fetchTasks(true);
+        }}
+      />
+
+      {/* Recurring series history */}
+      <TaskSeriesHistory
+        series={historySeries}
+        onOpenChange={(open) => !open && setHistorySeries(null)}
+        onStopped={async () => {
+          setHistorySeries(null);
+          setHasMore(true);
+          setPage(0);
+          await fetchTasks(true);
+        }}
+      />
+
+      {/* Grace extension */}
+      <AlertDialog open={!!graceTask} onOpenChange={(open) => !open && setGraceTask(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Extend this deadline?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{graceTask?.title}" gets {graceHours} more hours. Each task can be extended
+              only once, and points already deducted for being overdue are not returned.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={async () => {
+                if (graceTask) await handleGraceExtension(graceTask);
+                setGraceTask(null);
+              }}
+            >
+              Extend by {graceHours}h
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Blockers */}
+      <TaskDependencies
+        userId={userId}
+        task={dependencyTask}
+        onOpenChange={(open) => !open && setDependencyTask(null)}
+        onChanged={async () => {
+          setHasMore(true);
+          setPage(0);
+          await fetchTasks(true);
+        }}
+      />
+
       {/* Proof Dialog */}
       <Dialog open={proofDialogOpen} onOpenChange={setProofDialogOpen}>
-        <DialogContent className="sm:max-w-md">
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Upload Proof of Work</DialogTitle>
           </DialogHeader>
 
           <div className="space-y-6 py-4">
-            <div className="grid w-full max-w-sm items-center gap-1.5">
-                <Label htmlFor="picture">Evidence</Label>
-                <Input
-                id="picture"
-                type="file"
-                accept="image/*"
-                className="cursor-pointer"
-                onChange={(e) => setProofFile(e.target.files?.[0] || null)}
+            <div className="grid w-full items-center gap-1.5">
+                <Label>Evidence</Label>
+                <ProofAttachmentsInput
+                  value={proofDrafts}
+                  onChange={setProofDrafts}
+                  disabled={isSubmittingProof}
                 />
-                <p className="text-[12px] text-muted-foreground">Upload a screenshot or photo (Max 50MB)</p>
+                <p className="text-[12px] text-muted-foreground">
+                  Screenshots, videos, PDFs or links to a commit / deployed page (Max 50MB per file)
+                </p>
             </div>
             
             <div className="flex justify-end gap-3">
               <Button
                 variant="outline"
                 onClick={() => {
-                  setProofFile(null);
+                  setProofDrafts([]);
                   setSelectedTaskId(null);
                   setProofDialogOpen(false);
                 }}
               >
                 Cancel
               </Button>
-              <Button disabled={!proofFile || isSubmittingProof} onClick={handleSubmitProof}>
+              <Button disabled={proofDrafts.length === 0 || isSubmittingProof} onClick={handleSubmitProof}>
                 {isSubmittingProof ? (
                   <>
                     <span className="animate-spin mr-2">⏳</span> Uploading...
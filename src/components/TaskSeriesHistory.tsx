@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { CheckCircle2, Clock, AlertCircle, Repeat } from "lucide-react";
+import { format } from "date-fns";
+import { describeRecurrence } from "@/lib/recurrence";
+
+export interface TaskSeriesInfo {
+  id: string;
+  frequency: string;
+  interval_days: number | null;
+  weekdays: number[] | null;
+  until_date: string | null;
+  max_count: number | null;
+  occurrences: number;
+  is_active: boolean;
+}
+
+interface Occurrence {
+  id: string;
+  title: string;
+  status: string | null;
+  deadline: string | null;
+  proof_of_work_url: string | null;
+}
+
+interface TaskSeriesHistoryProps {
+  series: TaskSeriesInfo | null;
+  onOpenChange: (open: boolean) => void;
+  onStopped: () => void;
+}
+
+/**
+ * TaskSeriesHistory
+ * - Lists every occurrence generated for a recurring task
+ * - Lets the owner stop the series (existing occurrences are kept)
+ */
+const TaskSeriesHistory = ({ series, onOpenChange, onStopped }: TaskSeriesHistoryProps) => {
+  const [occurrences, setOccurrences] = useState<Occurrence[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!series) return;
+    (async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("tasks")
+        .select("id, title, status, deadline, proof_of_work_url")
+        .eq("series_id", series.id)
+        .order("deadline", { ascending: false });
+      setLoading(false);
+      if (error) {
+        toast.error("Failed to load series history");
+        return;
+      }
+      setOccurrences(data || []);
+    })();
+  }, [series]);
+
+  const handleStop = async () => {
+    if (!series) return;
+    const { error } = await supabase
+      .from("task_series")
+      .update({ is_active: false })
+      .eq("id", series.id);
+    if (error) {
+      toast.error("Failed to stop recurrence");
+      return;
+    }
+    toast.success("Recurrence stopped");
+    onStopped();
+  };
+
+  const completed = occurrences.filter((o) => o.status === "completed").length;
+
+  return (
+    <Dialog open={!!series} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Repeat className="h-5 w-5 text-primary" /> Series History
+          </DialogTitle>
+          {series && (
+            <DialogDescription>
+              {describeRecurrence(series)}
+              {series.until_date && ` until ${format(new Date(series.until_date), "MMM d, yyyy")}`}
+              {series.max_count && ` · ${series.occurrences}/${series.max_count} occurrences`}
+              {" · "}
+              {completed} completed
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-2 py-2">
+          {loading ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Loading...</p>
+          ) : occurrences.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No occurrences yet.</p>
+          ) : (
+            occurrences.map((o) => (
+              <div
+                key={o.id}
+                className="flex items-center justify-between gap-3 rounded-md border p-3 text-sm"
+              >
+                <div className="flex items-center gap-2">
+                  {o.status === "completed" ? (
+                    <CheckCircle2 className="h-4 w-4 text-green-500" />
+                  ) : o.status === "in_progress" ? (
+                    <Clock className="h-4 w-4 text-yellow-500" />
+                  ) : (
+                    <AlertCircle className="h-4 w-4 text-muted-foreground" />
+                  )}
+                  <span className="font-medium">
+                    {o.deadline ? format(new Date(o.deadline), "EEE, MMM d") : o.title}
+                  </span>
+                </div>
+                {o.proof_of_work_url ? (
+                  <a
+                    href={o.proof_of_work_url}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-xs text-primary hover:underline"
+                  >
+                    View proof
+                  </a>
+                ) : (
+                  <Badge variant="outline" className="capitalize text-[10px]">
+                    {(o.status || "todo").replace("_", " ")}
+                  </Badge>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {series?.is_active && (
+          <div className="flex justify-end pt-2 border-t">
+            <Button variant="outline" size="sm" onClick={handleStop}>
+              Stop repeating
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TaskSeriesHistory;
@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { toast } from "sonner";
+import { BookCopy, Download, Globe, ListChecks, Trash2 } from "lucide-react";
+
+export type TaskTemplate = Database["public"]["Tables"]["task_templates"]["Row"];
+
+interface TaskTemplatePickerProps {
+  userId: string;
+  onUse: (template: TaskTemplate) => void;
+}
+
+/**
+ * TaskTemplatePicker
+ * - "My templates" and admin-published "Community" templates
+ * - Use fills the create form; Import copies a community template into your own
+ * - Admins can publish / unpublish their templates
+ */
+const TaskTemplatePicker = ({ userId, onUse }: TaskTemplatePickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [isAdmin, setIsAdmin] = useState(false);
+
+  const fetchTemplates = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("task_templates")
+      .select("*")
+      .order("created_at", { ascending: false });
+    if (error) {
+      toast.error("Failed to load templates");
+      return;
+    }
+    setTemplates(data || []);
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    fetchTemplates();
+    (async () => {
+      const { data } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", userId)
+        .eq("role", "admin")
+        .maybeSingle();
+      setIsAdmin(!!data);
+    })();
+  }, [open, userId, fetchTemplates]);
+
+  const mine = templates.filter((t) => t.user_id === userId);
+  const community = templates.filter((t) => t.is_community);
+
+  const handleImport = async (t: TaskTemplate) => {
+    const { error } = await supabase.from("task_templates").insert({
+      user_id: userId,
+      title: t.title,
+      description: t.description,
+      priority: t.priority,
+      deadline_offset_days: t.deadline_offset_days,
+      checklist: t.checklist,
+    });
+    if (error) {
+      toast.error("Failed to import template");
+      return;
+    }
+    toast.success("Template added to your library");
+    fetchTemplates();
+  };
+
+  const handlePublish = async (t: TaskTemplate) => {
+    const { error } = await supabase
+      .from("task_templates")
+      .update({ is_community: !t.is_community })
+      .eq("id", t.id);
+    if (error) {
+      toast.error("Failed to update template");
+      return;
+    }
+    toast.success(t.is_community ? "Template unpublished" : "Published to the community");
+    fetchTemplates();
+  };
+
+  const handleDelete = async (t: TaskTemplate) => {
+    if (!window.confirm(`Delete template "${t.title}"?`)) return;
+    const { error } = await supabase.from("task_templates").delete().eq("id", t.id);
+    if (error) {
+      toast.error("Failed to delete template");
+      return;
+    }
+    setTemplates((prev) => prev.filter((x) => x.id !== t.id));
+  };
+
+  const renderList = (items: TaskTemplate[], isCommunityTab: boolean) =>
+    items.length === 0 ? (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        {isCommunityTab
+          ? "No community templates yet."
+          : "No templates yet. Save one from any task card."}
+      </p>
+    ) : (
+      <div className="space-y-2">
+        {items.map((t) => (
+          <div key={t.id} className="rounded-lg border p-3 space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <div className="font-medium leading-tight flex items-center gap-2">
+                  {t.title}
+                  {t.is_community && !isCommunityTab && (
+                    <Badge variant="secondary" className="text-[10px] h-5 gap-1">
+                      <Globe className="h-3 w-3" /> Community
+                    </Badge>
+                  )}
+                </div>
+                {t.description && (
+                  <p className="text-xs text-muted-foreground line-clamp-2 mt-1">
+                    {t.description}
+                  </p>
+                )}
+              </div>
+              <Badge variant="outline" className="capitalize text-[10px] shrink-0">
+                {t.priority}
+              </Badge>
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex gap-3 text-xs text-muted-foreground">
+                {t.checklist.length > 0 && (
+                  <span className="flex items-center gap-1">
+                    <ListChecks className="h-3 w-3" /> {t.checklist.length} items
+                  </span>
+                )}
+                {t.deadline_offset_days != null && (
+                  <span>Due in {t.deadline_offset_days} days</span>
+                )}
+              </div>
+              <div className="flex gap-1">
+                {isCommunityTab && t.user_id !== userId && (
+                  <Button size="sm" variant="ghost" className="h-7 gap-1" onClick={() => handleImport(t)}>
+                    <Download className="h-3.5 w-3.5" /> Import
+                  </Button>
+                )}
+                {!isCommunityTab && isAdmin && (
+                  <Button size="sm" variant="ghost" className="h-7 gap-1" onClick={() => handlePublish(t)}>
+                    <Globe className="h-3.5 w-3.5" />
+                    {t.is_community ? "Unpublish" : "Publish"}
+                  </Button>
+                )}
+                {(t.user_id === userId || isAdmin) && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleDelete(t)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  className="h-7"
+                  onClick={() => {
+                    onUse(t);
+                    setOpen(false);
+                  }}
+                >
+                  Use
+                </Button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2 w-fit">
+          <BookCopy className="h-4 w-4" /> Use a template
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Task Templates</DialogTitle>
+          <DialogDescription>Start from a saved task instead of filling the form.</DialogDescription>
+        </DialogHeader>
+        <Tabs defaultValue="mine" className="flex-1 flex flex-col min-h-0">
+          <TabsList className="w-fit">
+            <TabsTrigger value="mine">My templates ({mine.length})</TabsTrigger>
+            <TabsTrigger value="community">Community ({community.length})</TabsTrigger>
+          </TabsList>
+          <TabsContent value="mine" className="flex-1 overflow-y-auto">
+            {renderList(mine, false)}
+          </TabsContent>
+          <TabsContent value="community" className="flex-1 overflow-y-auto">
+            {renderList(community, true)}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TaskTemplatePicker;
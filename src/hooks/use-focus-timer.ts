@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+export const FOCUS_MINUTES = 25;
+
+export interface RunningEntry {
+  id: string;
+  task_id: string;
+  started_at: string;
+  planned_minutes: number;
+  tasks: { title: string } | null;
+}
+
+const plannedEnd = (entry: RunningEntry) =>
+  new Date(entry.started_at).getTime() + entry.planned_minutes * 60_000;
+
+/**
+ * Pomodoro timer backed by task_time_entries. The running entry lives in the
+ * database (ended_at is null), so a reload picks it up again. The server sets
+ * the end time when a session is stopped: now, or the planned end for a
+ * session that ran out while the page was closed.
+ */
+export function useFocusTimer(userId: string, onLogged?: () => void) {
+  const [entry, setEntry] = useState<RunningEntry | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const finishing = useRef(false);
+  const onLoggedRef = useRef(onLogged);
+  onLoggedRef.current = onLogged;
+
+  const close = useCallback(async (running: RunningEntry) => {
+    const { error } = await supabase
+      .from("task_time_entries")
+      .update({ ended_at: new Date().toISOString() })
+      .eq("id", running.id);
+    if (error) {
+      toast.error("Failed to save focus session");
+      return false;
+    }
+    setEntry(null);
+    onLoggedRef.current?.();
+    return true;
+  }, []);
+
+  // resume whatever was running before the reload
+  useEffect(() => {
+    if (!userId) return;
+    (async () => {
+      const { data, error } = await supabase
+        .from("task_time_entries")
+        .select("id, task_id, started_at, planned_minutes, tasks(title)")
+        .eq("user_id", userId)
+        .is("ended_at", null)
+        .maybeSingle();
+      if (error || !data) return;
+      if (plannedEnd(data) <= Date.now()) {
+        if (await close(data)) {
+          toast.success(`Focus session on "${data.tasks?.title ?? "task"}" logged`);
+        }
+        return;
+      }
+      setEntry(data);
+    })();
+  }, [userId, close]);
+
+  useEffect(() => {
+    if (!entry) return;
+    const id = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(id);
+  }, [entry]);
+
+  const remainingSeconds = entry
+    ? Math.max(0, Math.round((plannedEnd(entry) - now) / 1000))
+    : 0;
+
+  // session ran its full length
+  useEffect(() => {
+    if (!entry || remainingSeconds > 0 || finishing.current) return;
+    finishing.current = true;
+    close(entry).then((ok) => {
+      finishing.current = false;
+      if (ok) toast.success("Focus session complete! Take a 5 minute break ☕");
+    });
+  }, [entry, remainingSeconds, close]);
+
+  const start = async (taskId: string, minutes = FOCUS_MINUTES) => {
+    if (entry && !(await close(entry))) return;
+    const { data, error } = await supabase
+      .from("task_time_entries")
+      .insert({ task_id: taskId, user_id: userId, planned_minutes: minutes })
+      .select("id, task_id, started_at, planned_minutes, tasks(title)")
+      .single();
+    if (error) {
+      toast.error("Failed to start focus timer");
+      return;
+    }
+    setNow(Date.now());
+    setEntry(data);
+  };
+
+  const stop = async () => {
+    if (!entry) return;
+    if (await close(entry)) toast.success("Focus session logged");
+  };
+
+  return { entry, remainingSeconds, start, stop };
+}
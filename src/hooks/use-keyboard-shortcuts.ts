@@ -0,0 +1,55 @@
+import { useEffect, useRef } from "react";
+import { ShortcutAction, isTypingTarget, matchShortcut } from "@/lib/shortcuts";
+
+const SEQUENCE_TIMEOUT_MS = 1000;
+
+/**
+ * Global keyboard shortcuts (see SHORTCUTS). Ctrl/Cmd+K always opens the
+ * palette; single keys and "g x" sequences are ignored while typing or while
+ * a dialog is open.
+ */
+export function useKeyboardShortcuts(onAction: (action: ShortcutAction) => void) {
+  const onActionRef = useRef(onAction);
+  onActionRef.current = onAction;
+
+  useEffect(() => {
+    let pressed: string[] = [];
+    let timer: number | undefined;
+
+    const reset = () => {
+      pressed = [];
+      window.clearTimeout(timer);
+    };
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        reset();
+        onActionRef.current({ type: "palette" });
+        return;
+      }
+      if (e.metaKey || e.ctrlKey || e.altKey || e.repeat || isTypingTarget(e.target)) return;
+      if (e.key.length !== 1) return;
+
+      window.clearTimeout(timer);
+      pressed = e.key === "?" ? ["?"] : [...pressed, e.key.toLowerCase()];
+
+      const match = matchShortcut(pressed);
+      if (match === "pending") {
+        timer = window.setTimeout(reset, SEQUENCE_TIMEOUT_MS);
+        return;
+      }
+      reset();
+      if (match) {
+        e.preventDefault();
+        onActionRef.current(match.action);
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.clearTimeout(timer);
+    };
+  }, []);
+}
@@ -0,0 +1,382 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, TablesInsert } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import { compressVideo } from "@/lib/compressVideo";
+import {
+  NewOutboxOp,
+  OutboxKind,
+  OutboxOp,
+  addOutboxOp,
+  isNetworkError,
+  listOutbox,
+  putOutboxOp,
+  removeOutboxOp,
+  subscribeOutbox,
+} from "@/lib/outbox";
+import { storedDeadline } from "@/lib/taskDraft";
+
+type ReplayResult = "done" | "offline" | { conflict: string; op: OutboxOp } | { failed: string };
+
+const UNIQUE_VIOLATION = "23505";
+
+const failure = (error: { message: string }): ReplayResult =>
+  isNetworkError(error) ? "offline" : { failed: error.message };
+
+// Follow-up writes run again when an earlier attempt's response was lost, so
+// each one first checks whether that attempt already made it. Only a lost
+// connection is returned; anything else is logged and skipped.
+const followUp = (label: string, error: { message: string } | null) => {
+  if (!error) return null;
+  if (isNetworkError(error)) return error;
+  console.error(label, error);
+  return null;
+};
+
+// `match` picks out the post an earlier attempt would have made
+const shareOnce = async (post: TablesInsert<"blog_posts">, match: Partial<TablesInsert<"blog_posts">>) => {
+  const { data, error } = await supabase.from("blog_posts").select("id").match(match).limit(1);
+  if (error) return followUp("Failed to check for an earlier community post:", error);
+  if (data.length > 0) return null;
+  const { error: insertError } = await supabase.from("blog_posts").insert(post);
+  return followUp("Failed to create community post:", insertError);
+};
+
+const replayTaskCreate = async (op: Extract<OutboxOp, { kind: "task_create" }>): Promise<ReplayResult> => {
+  const p = op.payload;
+  const { error } = await supabase.from("tasks").insert({
+    id: p.id,
+    user_id: op.user_id,
+    title: p.title,
+    description: p.description,
+    priority: p.priority,
+    // payloads queued by older clients may still hold a bare date
+    deadline: storedDeadline(p.deadline),
+    is_public: p.is_public,
+    tags: p.tags,
+    status: "todo",
+    completion_percentage: 0,
+    created_at: op.created_at,
+  });
+  // a unique violation means an earlier attempt got through but its response was lost
+  if (error && error.code !== UNIQUE_VIOLATION) return failure(error);
+
+  if (p.checklist.length > 0) {
+    const { count, error: countError } = await supabase
+      .from("task_subtasks")
+      .select("id", { count: "exact", head: true })
+      .eq("task_id", p.id);
+    let checklistError = followUp("Failed to check the queued checklist:", countError);
+    if (!countError && !count) {
+      const { error: insertError } = await supabase
+        .from("task_subtasks")
+        .insert(p.checklist.map((title, position) => ({ task_id: p.id, title, position })));
+      checklistError = followUp("Failed to add queued checklist:", insertError);
+    }
+    if (checklistError) return failure(checklistError);
+  }
+
+  if (p.is_public) {
+    const postError = await shareOnce(
+      {
+        user_id: op.user_id,
+        title: p.title,
+        content: p.description?.trim() || "Started a new public accountability task 💪",
+        task_id: p.id,
+        tags: ["accountability"],
+      },
+      { task_id: p.id }
+    );
+    if (postError) return failure(postError);
+  }
+  return "done";
+};
+
+const replayTaskStatus = async (op: Extract<OutboxOp, { kind: "task_status" }>): Promise<ReplayResult> => {
+  const p = op.payload;
+  let query = supabase
+    .from("tasks")
+    .update({
+      status: p.status,
+      completion_percentage: p.status === "in_progress" ? 50 : 0,
+    })
+    .eq("id", p.task_id);
+  // only apply on top of the version the change was made against
+  query = p.base_updated_at ? query.eq("updated_at", p.base_updated_at) : query.is("updated_at", null);
+
+  const { data, error } = await query.select("id");
+  if (error) return failure(error);
+  if (data && data.length > 0) return "done";
+
+  const { data: current, error: currentError } = await supabase
+    .from("tasks")
+    .select("status, updated_at")
+    .eq("id", p.task_id)
+    .maybeSingle();
+  if (currentError) return failure(currentError);
+  if (!current) return { failed: "The task no longer exists" };
+  if (current.status === p.status) return "done";
+
+  return {
+    conflict: `Changed to "${current.status}" elsewhere`,
+    op: { ...op, payload: { ...p, remote_status: current.status, remote_updated_at: current.updated_at } },
+  };
+};
+
+const uploadLogFile = async (file: File) => {
+  let uploadFile = file;
+  if (file.type.startsWith("video/")) {
+    try {
+      uploadFile = await compressVideo(file);
+    } catch {
+      // upload the original
+    }
+  }
+  const { data, error } = await supabase.storage
+    .from("post-images")
+    .upload(`dailylogs/${Date.now()}_${uploadFile.name}`, uploadFile);
+  if (error) return { url: null, error };
+  return { url: supabase.storage.from("post-images").getPublicUrl(data.path).data?.publicUrl || null, error: null };
+};
+
+const replayLogCreate = async (op: Extract<OutboxOp, { kind: "log_create" }>): Promise<ReplayResult> => {
+  const p = op.payload;
+
+  // skip the upload if the log already made it on an earlier attempt
+  const { data: existing, error: existingError } = await supabase
+    .from("daily_logs")
+    .select("id, image_url")
+    .eq("id", p.id)
+    .maybeSingle();
+  if (existingError) return failure(existingError);
+
+  let fileUrl = existing ? existing.image_url : p.image_url;
+  if (!existing && !fileUrl && p.file) {
+    const upload = await uploadLogFile(p.file);
+    if (upload.error) return failure(upload.error);
+    fileUrl = upload.url;
+  }
+
+  if (!existing) {
+    const { error } = await supabase.from("daily_logs").insert({
+      id: p.id,
+      user_id: op.user_id,
+      title: p.title,
+      content: p.content,
+      tags: p.tags,
+      mood: p.mood,
+      mood_score: p.mood_score ?? null,
+      is_public: p.is_public,
+      image_url: fileUrl,
+      template_id: p.template_id ?? null,
+      sections: (p.sections ?? []) as unknown as Json,
+      created_at: op.created_at,
+    });
+    if (error && error.code !== UNIQUE_VIOLATION) return failure(error);
+  }
+
+  if (p.is_public) {
+    const blogError = await shareOnce(
+      {
+        user_id: op.user_id,
+        title: p.title,
+        content: p.content,
+        tags: p.tags,
+        image_url: fileUrl,
+        daily_log_id: p.id,
+      },
+      { daily_log_id: p.id }
+    );
+    if (blogError) return failure(blogError);
+  }
+
+  // counted on the day the log was written (its created_at), not the day it synced;
+  // a log that was already counted leaves the streak as it is
+  const { error: streakError } = await supabase.rpc("handle_daily_streak", {
+    p_log_id: p.id,
+  });
+  const streakFailure = followUp("Error updating streak:", streakError);
+  if (streakFailure) return failure(streakFailure);
+  return "done";
+};
+
+const replay = (op: OutboxOp) => {
+  switch (op.kind) {
+    case "task_create":
+      return replayTaskCreate(op);
+    case "task_status":
+      return replayTaskStatus(op);
+    case "log_create":
+      return replayLogCreate(op);
+  }
+};
+
+// one flush at a time across every hook instance; a flush asked for while one
+// runs (e.g. an op queued meanwhile) follows once it ends
+let flushing: Promise<void> | null = null;
+let flushAgain = false;
+const syncedListeners = new Set<(kinds: OutboxKind[]) => void>();
+
+// the server can be unreachable while the browser still reports a connection,
+// so no "online" event follows: retry on a timer, backing off up to 5 minutes
+const RETRY_MIN_MS = 5_000;
+const RETRY_MAX_MS = 5 * 60_000;
+let retryDelay = RETRY_MIN_MS;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const flushOutbox = (userId: string): Promise<void> => {
+  if (flushing) {
+    flushAgain = true;
+    return flushing;
+  }
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  flushing = (async () => {
+    const synced: OutboxKind[] = [];
+    let conflicts = 0;
+    let unreachable = false;
+    try {
+      for (const op of await listOutbox(userId)) {
+        if (op.state !== "pending") continue;
+        let result: ReplayResult;
+        try {
+          result = await replay(op);
+        } catch (err) {
+          result = isNetworkError(err) ? "offline" : { failed: String(err) };
+        }
+        if (result === "offline") {
+          unreachable = true;
+          break; // still no connection; keep the rest queued in order
+        }
+
+        if (result === "done") {
+          await removeOutboxOp(op.id);
+          synced.push(op.kind);
+          continue;
+        }
+        // a conflict carries the op with the server's current state filled in
+        await putOutboxOp({
+          ...("conflict" in result ? result.op : op),
+          attempts: op.attempts + 1,
+          state: "conflict" in result ? "conflict" : "failed",
+          last_error: "conflict" in result ? result.conflict : result.failed,
+        });
+        if ("conflict" in result) conflicts += 1;
+      }
+    } catch (err) {
+      console.error("Outbox flush failed:", err);
+    } finally {
+      flushing = null;
+    }
+
+    if (synced.length > 0) {
+      toast.success(`Synced ${synced.length} offline change${synced.length === 1 ? "" : "s"}`);
+      syncedListeners.forEach((l) => l(synced));
+    }
+    if (conflicts > 0) {
+      toast.warning(`${conflicts} queued change${conflicts === 1 ? "" : "s"} conflict with edits made elsewhere`);
+    }
+
+    if (unreachable) {
+      flushAgain = false;
+      if (navigator.onLine) {
+        retryTimer = setTimeout(() => flushOutbox(userId), retryDelay);
+        retryDelay = Math.min(retryDelay * 2, RETRY_MAX_MS);
+      }
+    } else {
+      retryDelay = RETRY_MIN_MS;
+      if (flushAgain) {
+        flushAgain = false;
+        flushOutbox(userId);
+      }
+    }
+  })();
+  return flushing;
+};
+
+/**
+ * Offline outbox: queue writes that couldn't reach the server and replay them
+ * in order when the browser comes back online, on every mount and, while the
+ * server can't be reached, on a backoff timer.
+ * `onSynced` fires with the kinds of ops that just went through, so lists can refetch.
+ */
+export function useOutbox(userId: string, onSynced?: (kinds: OutboxKind[]) => void) {
+  const [ops, setOps] = useState<OutboxOp[]>([]);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const load = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setOps(await listOutbox(userId));
+    } catch (err) {
+      // private mode / storage disabled: the outbox just stays empty
+      console.error("Outbox unavailable:", err);
+    }
+  }, [userId]);
+
+  const flush = useCallback(() => (userId ? flushOutbox(userId) : Promise.resolve()), [userId]);
+
+  useEffect(() => {
+    load();
+    const unsubscribe = subscribeOutbox(load);
+    const onSyncedOps = (kinds: OutboxKind[]) => onSyncedRef.current?.(kinds);
+    syncedListeners.add(onSyncedOps);
+
+    const goOnline = () => {
+      setOnline(true);
+      flush();
+    };
+    const goOffline = () => setOnline(false);
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+    if (navigator.onLine) flush();
+
+    return () => {
+      unsubscribe();
+      syncedListeners.delete(onSyncedOps);
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+    };
+  }, [load, flush]);
+
+  const enqueue = useCallback(
+    async (op: Omit<NewOutboxOp, "user_id">) => {
+      const row = await addOutboxOp({ ...op, user_id: userId } as NewOutboxOp);
+      if (navigator.onLine) flush();
+      return row;
+    },
+    [userId, flush]
+  );
+
+  const retry = useCallback(
+    async (op: OutboxOp) => {
+      await putOutboxOp({ ...op, state: "pending", last_error: null });
+      await flush();
+    },
+    [flush]
+  );
+
+  // conflict resolution: re-apply the queued change on top of the current server version
+  const applyMine = useCallback(
+    async (op: OutboxOp) => {
+      if (op.kind !== "task_status") return;
+      await putOutboxOp({
+        ...op,
+        state: "pending",
+        last_error: null,
+        payload: { ...op.payload, base_updated_at: op.payload.remote_updated_at ?? null },
+      });
+      await flush();
+    },
+    [flush]
+  );
+
+  // "keep theirs" for conflicts, or give up on a failed op
+  const discard = useCallback((op: OutboxOp) => removeOutboxOp(op.id), []);
+
+  return { ops, online, enqueue, flush, retry, applyMine, discard };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { diffLines } from "./diff";
+
+describe("diffLines", () => {
+  it("marks every line the same when nothing changed", () => {
+    expect(diffLines("a\nb", "a\nb")).toEqual([
+      { type: "same", text: "a" },
+      { type: "same", text: "b" },
+    ]);
+  });
+
+  it("finds added and removed lines around unchanged ones", () => {
+    expect(diffLines("a\nb\nc", "a\nc\nd")).toEqual([
+      { type: "same", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "same", text: "c" },
+      { type: "added", text: "d" },
+    ]);
+  });
+
+  it("puts a removed line before the line that replaces it", () => {
+    expect(diffLines("Felt tired", "Felt great")).toEqual([
+      { type: "removed", text: "Felt tired" },
+      { type: "added", text: "Felt great" },
+    ]);
+  });
+
+  it("treats an empty text as a single empty line", () => {
+    expect(diffLines("", "a")).toEqual([
+      { type: "removed", text: "" },
+      { type: "added", text: "a" },
+    ]);
+  });
+});
@@ -0,0 +1,14 @@
+/** "1h 25m", "12m" or "0m" for a number of seconds. */
+export const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return h > 0 ? `${h}h ${m}m` : `${m}m`;
+};
+
+/** Countdown clock, e.g. "24:59". */
+export const formatClock = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
+};
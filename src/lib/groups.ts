@@ -0,0 +1,23 @@
+import type { Database } from "@/integrations/supabase/types";
+
+/** How an approved group task pays out; kept in groups.point_rule. */
+export type GroupPointRule = "assignee" | "split" | "everyone";
+export type GroupRole = "admin" | "member";
+
+/** A group the member belongs to, as returned by get_my_groups. */
+export type MyGroup = Database["public"]["Functions"]["get_my_groups"]["Returns"][number];
+
+export interface GroupMember {
+  group_id: string;
+  user_id: string;
+  role: GroupRole;
+  username: string | null;
+}
+
+export const POINT_RULE_LABELS: Record<GroupPointRule, string> = {
+  assignee: "Whoever completes it gets the points",
+  split: "Points are split across all members",
+  everyone: "Every member gets the points",
+};
+
+export const isGroupAdmin = (group: MyGroup | undefined) => group?.role === "admin";
@@ -0,0 +1,64 @@
+import { addDays, format, startOfWeek, subDays } from "date-fns";
+import type { Database } from "@/integrations/supabase/types";
+
+type Functions = Database["public"]["Functions"];
+
+export type ActivityDay = Functions["get_activity_heatmap"]["Returns"][number];
+export type ActivityItem = Functions["get_activity_day"]["Returns"][number];
+export type ActivityKind = "log" | "task" | "post" | "message";
+
+export interface HeatmapCell {
+  date: string; // yyyy-MM-dd
+  total: number;
+  level: 0 | 1 | 2 | 3 | 4;
+  inRange: boolean; // false for the rest of the current week, after today
+}
+
+export const ACTIVITY_LABELS: Record<ActivityKind, string> = {
+  log: "Daily log",
+  task: "Task completed",
+  post: "Community post",
+  message: "Chat message",
+};
+
+/** First and last day of the heatmap: a year back from today, starting on a Sunday like GitHub's. */
+export const heatmapRange = (today = new Date()) => ({
+  start: format(startOfWeek(subDays(today, 364)), "yyyy-MM-dd"),
+  end: format(today, "yyyy-MM-dd"),
+});
+
+// intensity relative to the member's own busiest day, so quiet members still get a readable map
+const levelFor = (total: number, max: number): HeatmapCell["level"] => {
+  if (total <= 0 || max <= 0) return 0;
+  return Math.min(4, Math.ceil((total / max) * 4)) as HeatmapCell["level"];
+};
+
+/** Columns of seven cells (Sunday first), one per week between start and end. */
+export const buildHeatmapWeeks = (days: ActivityDay[], start: string, end: string) => {
+  const totals = new Map(days.map((d) => [d.day, d.total]));
+  const max = Math.max(0, ...days.map((d) => d.total));
+  const weeks: HeatmapCell[][] = [];
+
+  // dates are handled as local calendar days; the strings only ever round-trip through format()
+  let cursor = new Date(`${start}T00:00:00`);
+  const last = new Date(`${end}T00:00:00`);
+  while (cursor <= last) {
+    const week: HeatmapCell[] = [];
+    for (let i = 0; i < 7; i++) {
+      const date = format(cursor, "yyyy-MM-dd");
+      const total = totals.get(date) ?? 0;
+      week.push({ date, total, level: levelFor(total, max), inRange: cursor <= last });
+      cursor = addDays(cursor, 1);
+    }
+    weeks.push(week);
+  }
+  return weeks;
+};
+
+/** Month name above the first week of each month; a partial first month is skipped when it would overlap the next. */
+export const monthLabels = (weeks: HeatmapCell[][]) =>
+  weeks.map((week, i) => {
+    const month = (w: HeatmapCell[] | undefined) => w?.[0].date.slice(0, 7);
+    const starts = i === 0 ? month(weeks[2]) === month(week) : month(week) !== month(weeks[i - 1]);
+    return starts ? format(new Date(`${week[0].date}T00:00:00`), "MMM") : "";
+  });
@@ -0,0 +1,64 @@
+import type { Database, Json } from "@/integrations/supabase/types";
+
+export type LogTemplateRow = Database["public"]["Tables"]["log_templates"]["Row"];
+
+/** One prompt of a template, as stored in log_templates.fields. */
+export interface LogTemplateField {
+  key: string;
+  label: string;
+  placeholder?: string;
+}
+
+/** One answered prompt, as stored in daily_logs.sections. */
+export interface LogSection {
+  key: string;
+  label: string;
+  content: string;
+}
+
+export interface LogTemplate extends Omit<LogTemplateRow, "fields"> {
+  fields: LogTemplateField[];
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+
+export const parseTemplateFields = (raw: Json | null | undefined): LogTemplateField[] =>
+  (Array.isArray(raw) ? raw : []).flatMap((f) =>
+    isRecord(f) && typeof f.key === "string" && typeof f.label === "string"
+      ? [{ key: f.key, label: f.label, placeholder: typeof f.placeholder === "string" ? f.placeholder : undefined }]
+      : []
+  );
+
+export const parseLogSections = (raw: Json | null | undefined): LogSection[] =>
+  (Array.isArray(raw) ? raw : []).flatMap((s) =>
+    isRecord(s) && typeof s.key === "string" && typeof s.content === "string"
+      ? [{ key: s.key, label: typeof s.label === "string" ? s.label : s.key, content: s.content }]
+      : []
+  );
+
+export const toLogTemplate = (row: LogTemplateRow): LogTemplate => ({
+  ...row,
+  fields: parseTemplateFields(row.fields),
+});
+
+/** Field key derived from its label, e.g. "What I learned" -> "what_i_learned". */
+export const fieldKey = (label: string) =>
+  label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+/** Answers for a template's fields, in template order; unanswered fields are left out. */
+export const buildSections = (fields: LogTemplateField[], values: Record<string, string>): LogSection[] =>
+  fields.flatMap((f) =>
+    values[f.key]?.trim() ? [{ key: f.key, label: f.label, content: values[f.key].trim() }] : []
+  );
+
+/** The fields a log was written with, for when its template is no longer available. */
+export const fieldsFromSections = (sections: LogSection[]): LogTemplateField[] =>
+  sections.map(({ key, label }) => ({ key, label }));
+
+/** The markdown kept in daily_logs.content (and the community post) for a structured log. */
+export const sectionsToMarkdown = (sections: LogSection[]) =>
+  sections.map((s) => `## ${s.label}\n\n${s.content}`).join("\n\n");
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { markdownToText, parseInline, parseMarkdown, safeUrl } from "./markdown";
+
+describe("safeUrl", () => {
+  it("keeps http(s) and mailto URLs", () => {
+    expect(safeUrl("https://example.com/a?b=1")).toBe("https://example.com/a?b=1");
+    expect(safeUrl("  http://example.com ")).toBe("http://example.com/");
+    expect(safeUrl("mailto:me@example.com")).toBe("mailto:me@example.com");
+  });
+
+  it("rejects script and data URLs, whatever their case or padding", () => {
+    expect(safeUrl("javascript:alert(1)")).toBeNull();
+    expect(safeUrl(" JavaScript:alert(1)")).toBeNull();
+    expect(safeUrl("data:text/html,<script>alert(1)</script>")).toBeNull();
+    expect(safeUrl("vbscript:msgbox(1)")).toBeNull();
+  });
+
+  it("rejects relative and malformed URLs", () => {
+    expect(safeUrl("/profile")).toBeNull();
+    expect(safeUrl("example.com")).toBeNull();
+    expect(safeUrl("")).toBeNull();
+  });
+
+  it("only allows the given protocols", () => {
+    expect(safeUrl("mailto:me@example.com", ["http:", "https:"])).toBeNull();
+    expect(safeUrl("https://example.com/cat.png", ["http:", "https:"])).toBe("https://example.com/cat.png");
+  });
+});
+
+describe("parseInline", () => {
+  it("drops links with unsafe URLs but keeps their text", () => {
+    expect(parseInline("[click](javascript:alert%281%29)")).toEqual([{ type: "text", text: "click" }]);
+  });
+
+  it("keeps the alt text of images with unsafe URLs", () => {
+    expect(parseInline("![cat](data:image/png;base64,AAAA)")).toEqual([{ type: "text", text: "cat" }]);
+    expect(parseInline("![cat](https://example.com/cat.png)")).toEqual([
+      { type: "image", src: "https://example.com/cat.png", alt: "cat" },
+    ]);
+  });
+
+  it("parses nested emphasis and bare links", () => {
+    expect(parseInline("**bold _and_ more** see https://example.com.")).toEqual([
+      {
+        type: "strong",
+        children: [
+          { type: "text", text: "bold " },
+          { type: "em", children: [{ type: "text", text: "and" }] },
+          { type: "text", text: " more" },
+        ],
+      },
+      { type: "text", text: " see " },
+      { type: "link", href: "https://example.com/", children: [{ type: "text", text: "https://example.com" }] },
+      { type: "text", text: "." },
+    ]);
+  });
+
+  it("leaves markup inside inline code alone", () => {
+    expect(parseInline("`**not bold**`")).toEqual([{ type: "code", text: "**not bold**" }]);
+  });
+
+  it("keeps raw HTML as text", () => {
+    expect(parseInline("<img src=x onerror=alert(1)>")).toEqual([
+      { type: "text", text: "<img src=x onerror=alert(1)>" },
+    ]);
+  });
+});
+
+describe("parseMarkdown", () => {
+  it("splits headings, lists, quotes, code and rules into blocks", () => {
+    const blocks = parseMarkdown("## Done\n\n- one\n- two\n\n> quoted\n\n```ts\nconst a = 1;\n```\n\n---\n\n3. three");
+    expect(blocks.map((b) => b.type)).toEqual(["heading", "list", "quote", "code", "hr", "list"]);
+    expect(blocks[3]).toEqual({ type: "code", lang: "ts", text: "const a = 1;" });
+    expect(blocks[5]).toMatchObject({ type: "list", ordered: true, start: 3 });
+  });
+
+  it("keeps indented continuation lines with their list item", () => {
+    const [list] = parseMarkdown("- first\n  more of first\n- second");
+    expect(list).toMatchObject({ type: "list", ordered: false });
+    expect(list.type === "list" && list.items.length).toBe(2);
+    expect(list.type === "list" && list.items[0]).toEqual([
+      [{ type: "text", text: "first" }],
+      [{ type: "text", text: "more of first" }],
+    ]);
+  });
+
+  it("reads an unclosed fence to the end of the input", () => {
+    expect(parseMarkdown("```\nline 1\nline 2")).toEqual([{ type: "code", lang: "", text: "line 1\nline 2" }]);
+  });
+});
+
+describe("markdownToText", () => {
+  it("strips markup and keeps the text", () => {
+    expect(markdownToText("# Title\n\n- **bold** and [a link](https://example.com)\n> `code`")).toBe(
+      "Title\n\nbold and a link\ncode"
+    );
+  });
+});
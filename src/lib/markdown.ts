@@ -0,0 +1,192 @@
+/**
+ * A small markdown subset for logs, posts and announcements: headings, lists,
+ * quotes, fenced code, horizontal rules, bold/italic/strikethrough, inline
+ * code, links and images. Content is parsed into a tree and rendered as React
+ * elements (see MarkdownContent), so raw HTML is never interpreted and only
+ * http(s)/mailto URLs make it into links and images.
+ */
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong" | "em" | "del"; children: MarkdownInline[] }
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "image"; src: string; alt: string };
+
+/** A paragraph or list item keeps its line breaks; each line is parsed on its own. */
+export type MarkdownLines = MarkdownInline[][];
+
+export type MarkdownBlock =
+  | { type: "heading"; level: 1 | 2 | 3 | 4 | 5 | 6; children: MarkdownInline[] }
+  | { type: "paragraph"; lines: MarkdownLines }
+  | { type: "list"; ordered: boolean; start: number; items: MarkdownLines[] }
+  | { type: "code"; lang: string; text: string }
+  | { type: "quote"; children: MarkdownBlock[] }
+  | { type: "hr" };
+
+const FENCE = /^\s*```\s*([\w+-]*)\s*$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const LIST_ITEM = /^\s*([-*+]|\d{1,9}[.)])\s+(.*)$/;
+
+const LINK_PROTOCOLS = ["http:", "https:", "mailto:"];
+const IMAGE_PROTOCOLS = ["http:", "https:"];
+
+/** The URL if it is absolute and uses an allowed protocol, otherwise null. */
+export const safeUrl = (raw: string, protocols: string[] = LINK_PROTOCOLS): string | null => {
+  try {
+    const url = new URL(raw.trim());
+    return protocols.includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+
+// earliest-match alternation; group numbers are read in parseInline
+const INLINE =
+  /`([^`\n]+)`|!\[([^\]\n]*)\]\(([^)\s]+)\)|\[([^\]\n]+)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|__(.+?)__|~~(.+?)~~|\*([^\s*](?:.*?[^\s*])?)\*|(?<!\w)_([^\s_](?:.*?[^\s_])?)_(?!\w)|(https?:\/\/[^\s<]*[^\s<.,;:!?)\]'"])/g;
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const out: MarkdownInline[] = [];
+  const pushText = (t: string) => {
+    if (!t) return;
+    const last = out[out.length - 1];
+    if (last?.type === "text") last.text += t;
+    else out.push({ type: "text", text: t });
+  };
+
+  const re = new RegExp(INLINE.source, "g");
+  let pos = 0;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text))) {
+    pushText(text.slice(pos, m.index));
+    pos = m.index + m[0].length;
+
+    if (m[1] !== undefined) {
+      out.push({ type: "code", text: m[1] });
+    } else if (m[3] !== undefined) {
+      const src = safeUrl(m[3], IMAGE_PROTOCOLS);
+      if (src) out.push({ type: "image", src, alt: m[2] });
+      else pushText(m[2]);
+    } else if (m[5] !== undefined) {
+      const href = safeUrl(m[5]);
+      const children = parseInline(m[4]);
+      if (href) out.push({ type: "link", href, children });
+      else out.push(...children);
+    } else if (m[6] !== undefined || m[7] !== undefined) {
+      out.push({ type: "strong", children: parseInline(m[6] ?? m[7]) });
+    } else if (m[8] !== undefined) {
+      out.push({ type: "del", children: parseInline(m[8]) });
+    } else if (m[9] !== undefined || m[10] !== undefined) {
+      out.push({ type: "em", children: parseInline(m[9] ?? m[10]) });
+    } else if (m[11] !== undefined) {
+      const href = safeUrl(m[11]);
+      if (href) out.push({ type: "link", href, children: [{ type: "text", text: m[11] }] });
+      else pushText(m[11]);
+    }
+  }
+  pushText(text.slice(pos));
+  return out;
+};
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = (source || "").replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) body.push(lines[i++]);
+      i++; // closing fence (or end of input)
+      blocks.push({ type: "code", lang: fence[1], text: body.join("\n") });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1].length as 1 | 2 | 3 | 4 | 5 | 6,
+        children: parseInline(heading[2]),
+      });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "hr" });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) body.push(lines[i++].replace(QUOTE, "$1"));
+      blocks.push({ type: "quote", children: parseMarkdown(body.join("\n")) });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = /\d/.test(item[1]);
+      const items: string[][] = [];
+      while (i < lines.length) {
+        const next = lines[i].match(LIST_ITEM);
+        if (next && /\d/.test(next[1]) === ordered) {
+          items.push([next[2]]);
+        } else if (!next && lines[i].trim() && /^\s+/.test(lines[i]) && !startsBlock(lines[i])) {
+          items[items.length - 1].push(lines[i].trim()); // indented continuation line
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({
+        type: "list",
+        ordered,
+        start: ordered ? parseInt(item[1], 10) : 1,
+        items: items.map((rows) => rows.map(parseInline)),
+      });
+      continue;
+    }
+
+    const body: string[] = [];
+    while (i < lines.length && lines[i].trim() && (body.length === 0 || !startsBlock(lines[i]))) {
+      body.push(lines[i++]);
+    }
+    blocks.push({ type: "paragraph", lines: body.map(parseInline) });
+  }
+
+  return blocks;
+};
+
+/** Plain text for previews, snippets and search: markup removed, line breaks kept. */
+export const markdownToText = (source: string) =>
+  (source || "")
+    .replace(/\r\n?/g, "\n")
+    .replace(/^[ \t]*```.*$/gm, "")
+    .replace(/^(#{1,6})[ \t]+/gm, "")
+    .replace(/^[ \t]*>[ \t]?/gm, "")
+    .replace(/^[ \t]*([-*+]|\d{1,9}[.)])[ \t]+/gm, "")
+    .replace(/^[ \t]*([-*_])([ \t]*\1){2,}[ \t]*$/gm, "")
+    .replace(/!\[([^\]\n]*)\]\([^)\s]+\)/g, "$1")
+    .replace(/\[([^\]\n]+)\]\([^)\s]+\)/g, "$1")
+    .replace(/(\*\*|__|~~)(.+?)\1/g, "$2")
+    .replace(/\*([^\s*](?:.*?[^\s*])?)\*/g, "$1")
+    .replace(/(?<!\w)_([^\s_](?:.*?[^\s_])?)_(?!\w)/g, "$1")
+    .replace(/`([^`\n]+)`/g, "$1")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
@@ -0,0 +1,82 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type MoodDay = Database["public"]["Functions"]["get_mood_series"]["Returns"][number];
+
+export interface MoodLevel {
+  score: number;
+  label: string;
+  emoji: string;
+}
+
+/** The fixed mood scale; labels match public.mood_label in the database. */
+export const MOOD_SCALE: MoodLevel[] = [
+  { score: 1, label: "Rough", emoji: "😣" },
+  { score: 2, label: "Low", emoji: "😕" },
+  { score: 3, label: "Okay", emoji: "😐" },
+  { score: 4, label: "Good", emoji: "🙂" },
+  { score: 5, label: "Great", emoji: "😄" },
+];
+
+export const moodLevel = (score: number | null | undefined) => MOOD_SCALE.find((m) => m.score === score);
+
+/** "🙂 Good" for scored logs, the original text for free-text moods that couldn't be mapped. */
+export const moodText = (score: number | null | undefined, mood: string | null | undefined) => {
+  const level = moodLevel(score);
+  return level ? `${level.emoji} ${level.label}` : mood || null;
+};
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const average = (values: number[]) =>
+  values.length ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 100) / 100 : null;
+
+const moodDays = (days: MoodDay[]) => days.filter((d) => d.mood_score != null);
+
+/** Average mood per weekday, Monday first; days without a mood are left out. */
+export const moodByWeekday = (days: MoodDay[]) =>
+  WEEKDAYS.map((weekday, i) => {
+    const scores = moodDays(days)
+      // day is a plain date, so read it as UTC to keep the weekday stable
+      .filter((d) => (new Date(`${d.day}T00:00:00Z`).getUTCDay() + 6) % 7 === i)
+      .map((d) => Number(d.mood_score));
+    return { weekday, mood: average(scores), days: scores.length };
+  });
+
+/** Average mood for days whose value falls in each bucket, e.g. tasks completed 0 / 1-2 / 3+. */
+export const moodByBucket = (
+  days: MoodDay[],
+  value: (d: MoodDay) => number,
+  buckets: { label: string; min: number; max?: number }[]
+) =>
+  buckets.map((b) => {
+    const scores = moodDays(days)
+      .filter((d) => value(d) >= b.min && (b.max === undefined || value(d) <= b.max))
+      .map((d) => Number(d.mood_score));
+    return { bucket: b.label, mood: average(scores), days: scores.length };
+  });
+
+/** Pearson correlation between mood and another daily value; null with too little data. */
+export const moodCorrelation = (days: MoodDay[], value: (d: MoodDay) => number) => {
+  const points = moodDays(days).map((d) => [Number(d.mood_score), value(d)]);
+  if (points.length < 3) return null;
+
+  const mean = (i: number) => points.reduce((sum, p) => sum + p[i], 0) / points.length;
+  const [mx, my] = [mean(0), mean(1)];
+  let cov = 0;
+  let vx = 0;
+  let vy = 0;
+  for (const [x, y] of points) {
+    cov += (x - mx) * (y - my);
+    vx += (x - mx) ** 2;
+    vy += (y - my) ** 2;
+  }
+  if (vx === 0 || vy === 0) return null;
+  return Math.round((cov / Math.sqrt(vx * vy)) * 100) / 100;
+};
+
+export const describeCorrelation = (r: number | null) => {
+  if (r === null) return "Not enough data yet";
+  const strength = Math.abs(r) >= 0.5 ? "Strong" : Math.abs(r) >= 0.3 ? "Moderate" : Math.abs(r) >= 0.1 ? "Weak" : "No";
+  if (strength === "No") return "No clear link";
+  return `${strength} ${r > 0 ? "positive" : "negative"} link`;
+};
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { isNetworkError, isOffline } from "./outbox";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("isNetworkError", () => {
+  it("recognises fetch failures from each browser", () => {
+    vi.stubGlobal("navigator", { onLine: true });
+    expect(isNetworkError(new TypeError("Failed to fetch"))).toBe(true);
+    expect(isNetworkError(new TypeError("NetworkError when attempting to fetch resource."))).toBe(true);
+    expect(isNetworkError(new TypeError("Load failed"))).toBe(true);
+    expect(isNetworkError({ message: "TypeError: Network request failed" })).toBe(true);
+  });
+
+  it("treats rejected writes as real errors", () => {
+    vi.stubGlobal("navigator", { onLine: true });
+    expect(isNetworkError({ message: "new row violates row-level security policy", code: "42501" })).toBe(false);
+    expect(isNetworkError(new Error("task not found"))).toBe(false);
+    expect(isNetworkError(null)).toBe(false);
+    expect(isNetworkError("Failed to fetch")).toBe(false);
+  });
+
+  it("treats every error as a network error while offline", () => {
+    vi.stubGlobal("navigator", { onLine: false });
+    expect(isNetworkError(new Error("task not found"))).toBe(true);
+  });
+});
+
+describe("isOffline", () => {
+  it("follows navigator.onLine", () => {
+    vi.stubGlobal("navigator", { onLine: false });
+    expect(isOffline()).toBe(true);
+    vi.stubGlobal("navigator", { onLine: true });
+    expect(isOffline()).toBe(false);
+  });
+
+  it("is online where there is no navigator", () => {
+    vi.stubGlobal("navigator", undefined);
+    expect(isOffline()).toBe(false);
+  });
+});
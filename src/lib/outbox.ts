@@ -0,0 +1,158 @@
+import type { Priority } from "@/lib/taskDraft";
+import type { LogSection } from "@/lib/logTemplates";
+
+/**
+ * IndexedDB-backed outbox for writes made while offline (or when the request
+ * failed on the network). Every op is replayed in order once the connection
+ * returns; see useOutbox for the replay itself.
+ */
+
+export type OutboxKind = "task_create" | "task_status" | "log_create";
+export type OutboxState = "pending" | "conflict" | "failed";
+export type OutboxTaskStatus = "todo" | "in_progress";
+
+export interface TaskCreatePayload {
+  id: string; // client-generated, so a replay after a lost response can't duplicate the task
+  title: string;
+  description: string | null;
+  priority: Priority;
+  deadline: string | null;
+  is_public: boolean;
+  tags: string[];
+  checklist: string[];
+}
+
+export interface TaskStatusPayload {
+  task_id: string;
+  title: string;
+  status: OutboxTaskStatus;
+  // updated_at the change was made against; a different value on replay means it was edited elsewhere
+  base_updated_at: string | null;
+  // filled in when a conflict is detected
+  remote_status?: string | null;
+  remote_updated_at?: string | null;
+}
+
+export interface LogCreatePayload {
+  id: string;
+  title: string;
+  content: string;
+  tags: string[];
+  mood: string | null;
+  mood_score?: number | null; // absent on logs queued before the mood scale; derived from mood then
+  is_public: boolean;
+  file: File | null; // IndexedDB stores blobs as-is; uploaded on replay
+  image_url: string | null; // set when the upload went through before the connection dropped
+  template_id?: string | null; // absent on logs queued before templates existed
+  sections?: LogSection[];
+}
+
+interface OutboxBase {
+  id: string;
+  user_id: string;
+  created_at: string;
+  attempts: number;
+  last_error: string | null;
+  state: OutboxState;
+}
+
+export type OutboxOp = OutboxBase &
+  (
+    | { kind: "task_create"; payload: TaskCreatePayload }
+    | { kind: "task_status"; payload: TaskStatusPayload }
+    | { kind: "log_create"; payload: LogCreatePayload }
+  );
+
+export type NewOutboxOp = Pick<OutboxOp, "kind" | "payload" | "user_id">;
+
+const DB_NAME = "peacutoria-outbox";
+const STORE = "ops";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("user_id", "user_id");
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// every useOutbox instance listens, so a list and the header badge stay in sync
+const listeners = new Set<() => void>();
+
+export const subscribeOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const emit = () => listeners.forEach((l) => l());
+
+export const listOutbox = async (userId: string): Promise<OutboxOp[]> => {
+  const ops = await run<OutboxOp[]>("readonly", (s) => s.index("user_id").getAll(userId));
+  return ops.sort((a, b) => a.created_at.localeCompare(b.created_at));
+};
+
+export const addOutboxOp = async (op: NewOutboxOp): Promise<OutboxOp> => {
+  const row = {
+    ...op,
+    id: crypto.randomUUID(),
+    created_at: new Date().toISOString(),
+    attempts: 0,
+    last_error: null,
+    state: "pending",
+  } as OutboxOp;
+  await run("readwrite", (s) => s.put(row));
+  emit();
+  return row;
+};
+
+export const putOutboxOp = async (op: OutboxOp) => {
+  await run("readwrite", (s) => s.put(op));
+  emit();
+};
+
+export const removeOutboxOp = async (id: string) => {
+  await run("readwrite", (s) => s.delete(id));
+  emit();
+};
+
+/** True when a Supabase/fetch error means "couldn't reach the server" rather than a rejected write. */
+export const isNetworkError = (error: unknown) => {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const message =
+    error instanceof Error
+      ? error.message
+      : typeof error === "object" && error && "message" in error
+        ? String((error as { message: unknown }).message)
+        : "";
+  return /Failed to fetch|NetworkError|Load failed|Network request failed/i.test(message);
+};
+
+export const isOffline = () => typeof navigator !== "undefined" && !navigator.onLine;
@@ -0,0 +1,55 @@
+export type ProofKind = "image" | "video" | "pdf" | "link";
+
+/** One proof as stored in task_proofs and in blog_posts.attachments. */
+export interface ProofItem {
+  kind: ProofKind;
+  url: string;
+  caption: string | null;
+}
+
+export const PROOF_KIND_LABELS: Record<ProofKind, string> = {
+  image: "Image",
+  video: "Video",
+  pdf: "PDF",
+  link: "Link",
+};
+
+/** Maps an uploaded file to a proof kind; null for anything we don't accept. */
+export const proofKindForFile = (file: File): ProofKind | null => {
+  if (file.type.startsWith("image/")) return "image";
+  if (file.type.startsWith("video/")) return "video";
+  if (file.type === "application/pdf" || /\.pdf$/i.test(file.name)) return "pdf";
+  return null;
+};
+
+export const isProofLink = (value: string) => {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+/** Reads blog_posts.attachments (json) back into proofs, skipping malformed entries. */
+export const parseProofItems = (raw: unknown): ProofItem[] =>
+  Array.isArray(raw)
+    ? raw
+        .filter(
+          (p): p is ProofItem =>
+            !!p &&
+            typeof p === "object" &&
+            typeof (p as ProofItem).url === "string" &&
+            ["image", "video", "pdf", "link"].includes((p as ProofItem).kind)
+        )
+        .map((p) => ({ kind: p.kind, url: p.url, caption: p.caption ?? null }))
+    : [];
+
+/** A proof being assembled in the submit dialog: a file still to upload, or a link. */
+export interface ProofDraft {
+  key: string;
+  kind: ProofKind;
+  file: File | null;
+  url: string;
+  caption: string;
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { parseQuickAdd, quickAddDeadline } from "./quickAdd";
+
+// Wednesday 10 Dec 2025, 09:00 local time
+const now = new Date(2025, 11, 10, 9, 0);
+const at = (month: number, day: number, h = 0, m = 0, year = 2025) => new Date(year, month, day, h, m);
+
+describe("parseQuickAdd", () => {
+  it("pulls priority, tags, visibility and deadline out of the title", () => {
+    expect(parseQuickAdd("Finish report tomorrow 5pm !high #work #Work public", now)).toEqual({
+      title: "Finish report",
+      deadline: at(11, 11, 17),
+      hasTime: true,
+      priority: "high",
+      tags: ["work"],
+      is_public: true,
+    });
+  });
+
+  it("leaves unrecognised words in the title", () => {
+    const result = parseQuickAdd("Call mom about !someday plans", now);
+    expect(result.title).toBe("Call mom about !someday plans");
+    expect(result.deadline).toBeNull();
+    expect(result.priority).toBeNull();
+  });
+
+  it("reads relative dates against now", () => {
+    expect(parseQuickAdd("a today", now).deadline).toEqual(at(11, 10));
+    expect(parseQuickAdd("a tmrw", now).deadline).toEqual(at(11, 11));
+    expect(parseQuickAdd("a in 3 days", now).deadline).toEqual(at(11, 13));
+    expect(parseQuickAdd("a in 2 weeks", now).deadline).toEqual(at(11, 24));
+    expect(parseQuickAdd("a next week", now).deadline).toEqual(at(11, 17));
+  });
+
+  it("takes the next matching weekday, never today", () => {
+    expect(parseQuickAdd("a fri", now).deadline).toEqual(at(11, 12));
+    expect(parseQuickAdd("a due wed", now).deadline).toEqual(at(11, 17));
+    expect(parseQuickAdd("a next monday", now).deadline).toEqual(at(11, 15));
+  });
+
+  it("rolls a month and day that already passed over to next year", () => {
+    expect(parseQuickAdd("a dec 24", now).deadline).toEqual(at(11, 24));
+    expect(parseQuickAdd("a 3rd jan", now).deadline).toEqual(at(0, 3, 0, 0, 2026));
+    expect(parseQuickAdd("a on 2026-02-01", now).deadline).toEqual(at(1, 1, 0, 0, 2026));
+  });
+
+  it("reads 12h and 24h times", () => {
+    expect(parseQuickAdd("a fri at 5:30 pm", now).deadline).toEqual(at(11, 12, 17, 30));
+    expect(parseQuickAdd("a fri 12am", now).deadline).toEqual(at(11, 12, 0, 0));
+    expect(parseQuickAdd("a fri 17:45", now).deadline).toEqual(at(11, 12, 17, 45));
+    expect(parseQuickAdd("a tonight", now).deadline).toEqual(at(11, 10, 20));
+    expect(parseQuickAdd("a in 2 hours", now).deadline).toEqual(at(11, 10, 11));
+  });
+
+  it("moves a bare time that already passed today to tomorrow", () => {
+    expect(parseQuickAdd("a 8am", now).deadline).toEqual(at(11, 11, 8));
+    expect(parseQuickAdd("a noon", now).deadline).toEqual(at(11, 10, 12));
+  });
+
+  it("keeps impossible times in the title", () => {
+    const result = parseQuickAdd("a 13pm", now);
+    expect(result.title).toBe("a 13pm");
+    expect(result.deadline).toBeNull();
+  });
+
+  it("only uses the first date", () => {
+    const result = parseQuickAdd("Review draft friday or monday", now);
+    expect(result.deadline).toEqual(at(11, 12));
+    expect(result.title).toBe("Review draft or monday");
+  });
+
+  it("leaves weekday abbreviations that are words in the title", () => {
+    for (const input of ["Read Sun Tzu", "Email Sat team", "Buy wed cake"]) {
+      const result = parseQuickAdd(input, now);
+      expect(result.title).toBe(input);
+      expect(result.deadline).toBeNull();
+    }
+  });
+
+  it("reads weekday abbreviations after a cue word or at the end of the line", () => {
+    expect(parseQuickAdd("Read on sun", now).deadline).toEqual(at(11, 14));
+    expect(parseQuickAdd("Email team by sat", now).deadline).toEqual(at(11, 13));
+    expect(parseQuickAdd("Call mom fri 5pm #family !high", now)).toMatchObject({
+      title: "Call mom",
+      deadline: at(11, 12, 17),
+      tags: ["family"],
+      priority: "high",
+    });
+  });
+
+  it("leaves weekdays that are part of a range in the title", () => {
+    const result = parseQuickAdd("Move meeting from fri to mon", now);
+    expect(result.title).toBe("Move meeting from fri to mon");
+    expect(result.deadline).toBeNull();
+  });
+});
+
+describe("quickAddDeadline", () => {
+  it("stores a date without a time as a plain date", () => {
+    expect(quickAddDeadline(parseQuickAdd("a fri", now))).toBe("2025-12-12");
+  });
+
+  it("stores a date with a time as a timestamp", () => {
+    expect(quickAddDeadline(parseQuickAdd("a fri 5pm", now))).toBe(at(11, 12, 17).toISOString());
+  });
+
+  it("is empty without a deadline", () => {
+    expect(quickAddDeadline(parseQuickAdd("a", now))).toBe("");
+  });
+});
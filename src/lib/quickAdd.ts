@@ -0,0 +1,243 @@
+import { addDays, addHours, addMinutes, addWeeks, format, startOfDay } from "date-fns";
+
+export type QuickAddPriority = "high" | "medium" | "low";
+
+export interface QuickAddResult {
+  title: string;
+  deadline: Date | null;
+  hasTime: boolean;
+  priority: QuickAddPriority | null;
+  tags: string[];
+  is_public: boolean;
+}
+
+const PRIORITIES: Record<string, QuickAddPriority> = {
+  high: "high", h: "high", "1": "high", urgent: "high",
+  medium: "medium", med: "medium", m: "medium", "2": "medium",
+  low: "low", l: "low", "3": "low",
+};
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0, sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wed: 3, wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  sat: 6, saturday: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 0, january: 0, feb: 1, february: 1, mar: 2, march: 2, apr: 3, april: 3,
+  may: 4, jun: 5, june: 5, jul: 6, july: 6, aug: 7, august: 7,
+  sep: 8, sept: 8, september: 8, oct: 9, october: 9, nov: 10, november: 10,
+  dec: 11, december: 11,
+};
+
+// words that only make sense in front of a date or time ("due fri", "at 5pm")
+const CONNECTORS = new Set(["on", "by", "at", "due"]);
+
+// a weekday after one of these is part of the title ("move standup from fri to mon")
+const RANGE_WORDS = new Set(["from", "to", "till", "until", "since"]);
+
+const isPriority = (t: string) => t.startsWith("!") && !!PRIORITIES[t.slice(1)];
+const isTag = (raw: string) => /^#[\p{L}\p{N}_-]+$/u.test(raw);
+
+type Time = { h: number; m: number };
+
+const parseTime = (tokens: string[], i: number): { time: Time; used: number } | null => {
+  const t = tokens[i]?.toLowerCase();
+  if (!t) return null;
+  if (t === "noon") return { time: { h: 12, m: 0 }, used: 1 };
+  if (t === "midnight") return { time: { h: 23, m: 59 }, used: 1 };
+
+  // "5pm", "5:30pm", or "5 pm" split over two tokens
+  let match = t.match(/^(\d{1,2})(?::(\d{2}))?(am|pm)$/);
+  let used = 1;
+  if (!match && /^\d{1,2}(:\d{2})?$/.test(t) && /^(am|pm)$/i.test(tokens[i + 1] || "")) {
+    match = `${t}${tokens[i + 1].toLowerCase()}`.match(/^(\d{1,2})(?::(\d{2}))?(am|pm)$/);
+    used = 2;
+  }
+  if (match) {
+    let h = Number(match[1]);
+    const m = Number(match[2] || 0);
+    if (h < 1 || h > 12 || m > 59) return null;
+    if (match[3] === "pm" && h !== 12) h += 12;
+    if (match[3] === "am" && h === 12) h = 0;
+    return { time: { h, m }, used };
+  }
+
+  // 24h clock, "17:00"
+  const clock = t.match(/^([01]?\d|2[0-3]):([0-5]\d)$/);
+  if (clock) return { time: { h: Number(clock[1]), m: Number(clock[2]) }, used: 1 };
+  return null;
+};
+
+// nothing but a time, tags, a priority or "public" follows tokens[from - 1]
+const endsLine = (tokens: string[], from: number) => {
+  let timeSeen = false;
+  let j = from;
+  while (j < tokens.length) {
+    const t = tokens[j].toLowerCase();
+    if (isPriority(t) || isTag(tokens[j]) || t === "public") {
+      j += 1;
+      continue;
+    }
+    const skip = CONNECTORS.has(t) ? 1 : 0;
+    const tm = timeSeen ? null : parseTime(tokens, j + skip);
+    if (!tm) return false;
+    timeSeen = true;
+    j += skip + tm.used;
+  }
+  return true;
+};
+
+const parseDate = (
+  tokens: string[],
+  i: number,
+  now: Date
+): { date: Date; used: number; time?: Time } | null => {
+  const t = tokens[i]?.toLowerCase();
+  if (!t) return null;
+  const today = startOfDay(now);
+
+  if (t === "today") return { date: today, used: 1 };
+  if (t === "tonight") return { date: today, used: 1, time: { h: 20, m: 0 } };
+  if (["tomorrow", "tmr", "tmrw"].includes(t)) return { date: addDays(today, 1), used: 1 };
+
+  const nextWeekday = (dow: number) => addDays(today, ((dow - today.getDay() + 6) % 7) + 1);
+  if (t in WEEKDAYS) {
+    // "sun", "sat" and "wed" are words too: an abbreviation is only a date after
+    // "on", "by" or "due", or when it ends the line ("call fri 5pm")
+    const prev = tokens[i - 1]?.toLowerCase() || "";
+    if (RANGE_WORDS.has(prev)) return null;
+    if (!t.endsWith("day") && !CONNECTORS.has(prev) && !endsLine(tokens, i + 1)) return null;
+    return { date: nextWeekday(WEEKDAYS[t]), used: 1 };
+  }
+  if (t === "next") {
+    const n = tokens[i + 1]?.toLowerCase() || "";
+    if (n === "week") return { date: addWeeks(today, 1), used: 2 };
+    if (n in WEEKDAYS) return { date: nextWeekday(WEEKDAYS[n]), used: 2 };
+    return null;
+  }
+
+  // "in 3 days", "in 2 weeks", "in 2 hours", "in 30 min"
+  if (t === "in" && /^\d+$/.test(tokens[i + 1] || "")) {
+    const n = Number(tokens[i + 1]);
+    const unit = (tokens[i + 2] || "").toLowerCase();
+    if (/^days?$/.test(unit)) return { date: addDays(today, n), used: 3 };
+    if (/^weeks?$/.test(unit)) return { date: addWeeks(today, n), used: 3 };
+    if (/^(hours?|hrs?)$/.test(unit)) {
+      const at = addHours(now, n);
+      return { date: startOfDay(at), used: 3, time: { h: at.getHours(), m: at.getMinutes() } };
+    }
+    if (/^(minutes?|mins?)$/.test(unit)) {
+      const at = addMinutes(now, n);
+      return { date: startOfDay(at), used: 3, time: { h: at.getHours(), m: at.getMinutes() } };
+    }
+    return null;
+  }
+
+  // 2025-12-24
+  const iso = t.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return { date: new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])), used: 1 };
+
+  // "dec 24" / "24 dec"; rolls over to next year once the day has passed
+  const monthDay = (month: number, day: number) => {
+    if (day < 1 || day > 31) return null;
+    let d = new Date(today.getFullYear(), month, day);
+    if (d < today) d = new Date(today.getFullYear() + 1, month, day);
+    return d;
+  };
+  const next = tokens[i + 1]?.toLowerCase() || "";
+  if (t in MONTHS && /^\d{1,2}(st|nd|rd|th)?$/.test(next)) {
+    const d = monthDay(MONTHS[t], parseInt(next, 10));
+    return d ? { date: d, used: 2 } : null;
+  }
+  if (/^\d{1,2}(st|nd|rd|th)?$/.test(t) && next in MONTHS) {
+    const d = monthDay(MONTHS[next], parseInt(t, 10));
+    return d ? { date: d, used: 2 } : null;
+  }
+  return null;
+};
+
+/**
+ * Parses a quick-add line such as `Finish report tomorrow 5pm !high #work public`.
+ * Relative dates resolve against `now` in the browser's local timezone; words
+ * that are not recognised stay in the title.
+ */
+export const parseQuickAdd = (input: string, now: Date = new Date()): QuickAddResult => {
+  const tokens = input.trim().split(/\s+/).filter(Boolean);
+  const title: string[] = [];
+  const tags: string[] = [];
+  let priority: QuickAddPriority | null = null;
+  let is_public = false;
+  let date: Date | null = null;
+  let time: Time | null = null;
+
+  let i = 0;
+  while (i < tokens.length) {
+    const raw = tokens[i];
+    const t = raw.toLowerCase();
+
+    if (isPriority(t)) {
+      priority = PRIORITIES[t.slice(1)];
+      i += 1;
+      continue;
+    }
+    if (isTag(raw)) {
+      const tag = t.slice(1);
+      if (!tags.includes(tag)) tags.push(tag);
+      i += 1;
+      continue;
+    }
+    if (t === "public") {
+      is_public = true;
+      i += 1;
+      continue;
+    }
+
+    const skip = CONNECTORS.has(t) ? 1 : 0;
+    const d = date ? null : parseDate(tokens, i + skip, now);
+    if (d) {
+      date = d.date;
+      if (d.time && !time) time = d.time;
+      i += skip + d.used;
+      continue;
+    }
+    const tm = parseTime(tokens, i + skip);
+    if (tm) {
+      time = tm.time;
+      i += skip + tm.used;
+      continue;
+    }
+
+    title.push(raw);
+    i += 1;
+  }
+
+  let deadline: Date | null = date;
+  if (time) {
+    deadline = new Date(date ?? startOfDay(now));
+    deadline.setHours(time.h, time.m, 0, 0);
+    // a bare time that already passed today means tomorrow
+    if (!date && deadline < now) deadline = addDays(deadline, 1);
+  }
+
+  return {
+    title: title.join(" "),
+    deadline,
+    hasTime: !!time,
+    priority,
+    tags,
+    is_public,
+  };
+};
+
+/** Deadline in the shape TaskList stores: a date, or a full timestamp when a time was given. */
+export const quickAddDeadline = (result: QuickAddResult) =>
+  !result.deadline
+    ? ""
+    : result.hasTime
+      ? result.deadline.toISOString()
+      : format(result.deadline, "yyyy-MM-dd");
@@ -0,0 +1,45 @@
+export type RecurrenceFrequency = "none" | "daily" | "weekdays" | "weekly" | "interval";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval_days: number;
+  weekdays: number[]; // 0 = Sunday .. 6 = Saturday, same as Postgres extract(dow)
+  ends: "never" | "until" | "count";
+  until_date: string;
+  max_count: number;
+}
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const emptyRecurrence = (): RecurrenceRule => ({
+  frequency: "none",
+  interval_days: 2,
+  weekdays: [new Date().getDay()],
+  ends: "never",
+  until_date: "",
+  max_count: 10,
+});
+
+/** Human readable label for a stored series row, e.g. "Weekly on Mon, Thu". */
+export const describeRecurrence = (series: {
+  frequency: string;
+  interval_days?: number | null;
+  weekdays?: number[] | null;
+}) => {
+  switch (series.frequency) {
+    case "daily":
+      return "Daily";
+    case "weekdays":
+      return "Every weekday";
+    case "weekly":
+      return `Weekly on ${(series.weekdays || [])
+        .slice()
+        .sort((a, b) => a - b)
+        .map((d) => WEEKDAY_LABELS[d])
+        .join(", ")}`;
+    case "interval":
+      return `Every ${series.interval_days} days`;
+    default:
+      return "Does not repeat";
+  }
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { SHORTCUTS, matchShortcut } from "./shortcuts";
+
+describe("matchShortcut", () => {
+  it("resolves single keys and full sequences", () => {
+    expect(matchShortcut(["n"])).toMatchObject({ action: { type: "new_task" } });
+    expect(matchShortcut(["/"])).toMatchObject({ action: { type: "palette" } });
+    expect(matchShortcut(["g", "c"])).toMatchObject({ action: { type: "section", section: "chat" } });
+  });
+
+  it("waits for the next key while a sequence could still match", () => {
+    expect(matchShortcut(["g"])).toBe("pending");
+  });
+
+  it("returns null for keys nothing starts with", () => {
+    expect(matchShortcut(["x"])).toBeNull();
+    expect(matchShortcut(["g", "x"])).toBeNull();
+    expect(matchShortcut(["g", "c", "c"])).toBeNull();
+  });
+
+  it("tells a single key apart from the same key inside a sequence", () => {
+    expect(matchShortcut(["l"])).toMatchObject({ action: { type: "new_log" } });
+    expect(matchShortcut(["g", "l"])).toMatchObject({ action: { type: "section", section: "logs" } });
+  });
+
+  it("has no sequence shadowed by a shorter shortcut", () => {
+    for (const s of SHORTCUTS) {
+      expect(matchShortcut(s.keys)).toBe(s);
+    }
+  });
+});
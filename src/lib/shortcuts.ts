@@ -0,0 +1,75 @@
+/** Dashboard sections reachable from the palette and the "g" shortcuts. */
+export type DashboardSection =
+  | "tasks"
+  | "logs"
+  | "community"
+  | "partners"
+  | "chat"
+  | "weekly"
+  | "leaderboard"
+  | "announcements"
+  | "calendar";
+
+export type ShortcutAction =
+  | { type: "palette" }
+  | { type: "help" }
+  | { type: "new_task" }
+  | { type: "new_log" }
+  | { type: "section"; section: DashboardSection };
+
+export interface Shortcut {
+  keys: string[]; // pressed one after the other, e.g. ["g", "c"]
+  label: string;
+  action: ShortcutAction;
+}
+
+const goTo = (key: string, section: DashboardSection, label: string): Shortcut => ({
+  keys: ["g", key],
+  label: `Go to ${label}`,
+  action: { type: "section", section },
+});
+
+export const SHORTCUTS: Shortcut[] = [
+  { keys: ["/"], label: "Search everything", action: { type: "palette" } },
+  { keys: ["?"], label: "Show keyboard shortcuts", action: { type: "help" } },
+  { keys: ["n"], label: "New task", action: { type: "new_task" } },
+  { keys: ["l"], label: "New daily log", action: { type: "new_log" } },
+  goTo("t", "tasks", "Tasks"),
+  goTo("l", "logs", "Daily Logs"),
+  goTo("b", "community", "Community"),
+  goTo("p", "partners", "Partners"),
+  goTo("c", "chat", "Group Chat"),
+  goTo("w", "weekly", "Weekly Report"),
+  goTo("r", "leaderboard", "Leaderboard"),
+  goTo("a", "announcements", "Announcements"),
+  goTo("e", "calendar", "Calendar"),
+];
+
+/** Ctrl+K on Windows/Linux, ⌘K on macOS. */
+export const PALETTE_HOTKEY_LABEL =
+  typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform) ? "⌘K" : "Ctrl+K";
+
+/** Single-key shortcuts must not fire while the member is typing. */
+export const isTypingTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) ||
+    target.closest("[role='dialog']") !== null
+  );
+};
+
+/**
+ * Resolve the keys pressed so far. Returns the matching shortcut, "pending"
+ * while a longer sequence could still match (e.g. after "g"), or null.
+ */
+export const matchShortcut = (pressed: string[]): Shortcut | "pending" | null => {
+  const exact = SHORTCUTS.find(
+    (s) => s.keys.length === pressed.length && s.keys.every((k, i) => k === pressed[i])
+  );
+  if (exact) return exact;
+  const prefix = SHORTCUTS.some(
+    (s) => s.keys.length > pressed.length && pressed.every((k, i) => s.keys[i] === k)
+  );
+  return prefix ? "pending" : null;
+};
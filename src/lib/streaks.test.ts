@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { StreakEvent, daysToNextFreeze, describeStreakEvent, timezoneOptions, todayIn } from "./streaks";
+
+const event = (overrides: Partial<StreakEvent>): StreakEvent => ({
+  id: "e1",
+  user_id: "u1",
+  day: "2025-12-10",
+  kind: "logged",
+  streak: 1,
+  freezes: 0,
+  lost_streak: null,
+  created_at: "2025-12-10T09:00:00Z",
+  ...overrides,
+});
+
+describe("daysToNextFreeze", () => {
+  it("counts down to the next 7th streak day", () => {
+    expect(daysToNextFreeze(0)).toBe(7);
+    expect(daysToNextFreeze(1)).toBe(6);
+    expect(daysToNextFreeze(6)).toBe(1);
+    expect(daysToNextFreeze(7)).toBe(7);
+    expect(daysToNextFreeze(13)).toBe(1);
+  });
+});
+
+describe("describeStreakEvent", () => {
+  it("describes each kind of event", () => {
+    expect(describeStreakEvent(event({ streak: 1 }))).toBe("Started a streak");
+    expect(describeStreakEvent(event({ streak: 5 }))).toBe("Logged, 5-day streak");
+    expect(describeStreakEvent(event({ kind: "freeze_earned", streak: 7 }))).toBe("Earned a streak freeze at 7 days");
+    expect(describeStreakEvent(event({ kind: "freeze_used" }))).toBe("No log, a freeze kept the streak");
+    expect(describeStreakEvent(event({ kind: "lost", streak: 0, lost_streak: 12 }))).toBe(
+      "Missed a day, lost a 12-day streak"
+    );
+    expect(describeStreakEvent(event({ kind: "admin_reset", streak: 0, lost_streak: 3 }))).toBe(
+      "Streak reset by an admin (was 3 days)"
+    );
+  });
+
+  it("falls back to the raw kind for unknown events", () => {
+    expect(describeStreakEvent(event({ kind: "something_new" }))).toBe("something_new");
+  });
+});
+
+describe("timezoneOptions", () => {
+  it("always offers UTC and the current zone once", () => {
+    const options = timezoneOptions("Europe/Berlin");
+    expect(options[0]).toBe("UTC");
+    expect(options).toContain("Europe/Berlin");
+    expect(options.filter((z) => z === "Europe/Berlin")).toHaveLength(1);
+    expect(timezoneOptions("Mars/Olympus_Mons")).toContain("Mars/Olympus_Mons");
+  });
+});
+
+describe("todayIn", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-12-10T23:30:00Z"));
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("gives the date in the given zone", () => {
+    expect(todayIn("UTC")).toBe("2025-12-10");
+    expect(todayIn("Asia/Tokyo")).toBe("2025-12-11");
+    expect(todayIn("America/New_York")).toBe("2025-12-10");
+  });
+
+  it("falls back to the browser's zone for an unknown zone", () => {
+    expect(todayIn("Mars/Olympus_Mons")).toBe(new Intl.DateTimeFormat("en-CA").format(new Date()));
+  });
+});
@@ -0,0 +1,68 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type StreakEvent = Database["public"]["Tables"]["streak_events"]["Row"];
+export type StreakEventKind = "logged" | "freeze_earned" | "freeze_used" | "lost" | "admin_reset";
+
+/** Mirrors handle_daily_streak: a freeze every 7th streak day, at most 3 banked. */
+export const FREEZE_EVERY = 7;
+export const MAX_FREEZES = 3;
+
+export const daysToNextFreeze = (streak: number) => FREEZE_EVERY - (streak % FREEZE_EVERY);
+
+export const describeStreakEvent = (e: StreakEvent) => {
+  switch (e.kind as StreakEventKind) {
+    case "logged":
+      return e.streak === 1 ? "Started a streak" : `Logged, ${e.streak}-day streak`;
+    case "freeze_earned":
+      return `Earned a streak freeze at ${e.streak} days`;
+    case "freeze_used":
+      return "No log, a freeze kept the streak";
+    case "lost":
+      return `Missed a day, lost a ${e.lost_streak ?? 0}-day streak`;
+    case "admin_reset":
+      return `Streak reset by an admin (was ${e.lost_streak ?? 0} days)`;
+    default:
+      return e.kind;
+  }
+};
+
+const intl = Intl as typeof Intl & { supportedValuesOf?: (key: "timeZone") => string[] };
+
+// for browsers without Intl.supportedValuesOf
+const COMMON_TIMEZONES = [
+  "UTC",
+  "America/Los_Angeles",
+  "America/Denver",
+  "America/Chicago",
+  "America/New_York",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Berlin",
+  "Europe/Moscow",
+  "Africa/Lagos",
+  "Africa/Nairobi",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Bangkok",
+  "Asia/Shanghai",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "Pacific/Auckland",
+];
+
+export const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+/** IANA zones the browser knows, plus the current value so it is always selectable. */
+export const timezoneOptions = (current?: string) => {
+  const zones = intl.supportedValuesOf?.("timeZone") ?? COMMON_TIMEZONES;
+  return Array.from(new Set(["UTC", ...(current ? [current] : []), ...zones]));
+};
+
+/** Today's date (yyyy-MM-dd) in the given zone, the day the streak logic counts in. */
+export const todayIn = (timezone: string) => {
+  try {
+    return new Intl.DateTimeFormat("en-CA", { timeZone: timezone }).format(new Date());
+  } catch {
+    return new Intl.DateTimeFormat("en-CA").format(new Date());
+  }
+};
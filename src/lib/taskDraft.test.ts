@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { emptyDraft, isDateOnlyDeadline, normalizeTag, storedDeadline, validateTaskDraft } from "./taskDraft";
+
+describe("storedDeadline", () => {
+  it("saves a date on its own as the end of that day, local time", () => {
+    expect(storedDeadline("2025-12-24")).toBe(new Date(2025, 11, 24, 23, 59, 59).toISOString());
+  });
+
+  it("keeps full timestamps and drops empty values", () => {
+    expect(storedDeadline("2025-12-24T17:30:00.000Z")).toBe("2025-12-24T17:30:00.000Z");
+    expect(storedDeadline("")).toBeNull();
+    expect(storedDeadline(null)).toBeNull();
+  });
+});
+
+describe("isDateOnlyDeadline", () => {
+  it("recognises what storedDeadline saves for a date", () => {
+    expect(isDateOnlyDeadline(storedDeadline("2025-12-24")!)).toBe(true);
+    expect(isDateOnlyDeadline(new Date(2025, 11, 24, 17, 30).toISOString())).toBe(false);
+  });
+});
+
+describe("normalizeTag", () => {
+  it("lowercases, drops leading hashes and joins words", () => {
+    expect(normalizeTag("  ##Deep Work ")).toBe("deep-work");
+  });
+});
+
+describe("validateTaskDraft", () => {
+  it("accepts a titled draft", () => {
+    expect(validateTaskDraft({ ...emptyDraft(), title: "A" })).toBeNull();
+  });
+
+  it("reports the first problem", () => {
+    expect(validateTaskDraft(emptyDraft())).toBe("Please enter a task title");
+    expect(validateTaskDraft({ ...emptyDraft(), title: "A", deadline: "someday" })).toBe(
+      "Deadline is not a valid date"
+    );
+    expect(
+      validateTaskDraft({
+        ...emptyDraft(),
+        title: "A",
+        group_id: "g1",
+        recurrence: { ...emptyDraft().recurrence, frequency: "daily" },
+      })
+    ).toBe("Group tasks can't repeat");
+  });
+});
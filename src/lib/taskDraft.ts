@@ -0,0 +1,70 @@
+import { RecurrenceRule, emptyRecurrence } from "@/lib/recurrence";
+
+export type Priority = "high" | "medium" | "low";
+
+/** Fields of a task before it is created, shared by the create dialog, quick-add and import. */
+export interface NewTaskDraft {
+  title: string;
+  description: string;
+  priority: Priority;
+  deadline: string; // yyyy-MM-dd, or a full ISO timestamp when a time was given
+  is_public: boolean;
+  recurrence: RecurrenceRule;
+  checklist: string[];
+  tags: string[];
+  group_id: string | null; // group tasks are created by group admins
+  assigned_to: string | null;
+}
+
+export const emptyDraft = (): NewTaskDraft => ({
+  title: "",
+  description: "",
+  priority: "medium",
+  deadline: "",
+  is_public: false,
+  recurrence: emptyRecurrence(),
+  checklist: [],
+  tags: [],
+  group_id: null,
+  assigned_to: null,
+});
+
+/**
+ * The deadline column value for a draft deadline. A date on its own means
+ * "by the end of that day", so it is saved as 23:59:59 local time; the
+ * database would otherwise read it as midnight UTC.
+ */
+export const storedDeadline = (deadline: string | null | undefined): string | null => {
+  if (!deadline) return null;
+  return /^\d{4}-\d{2}-\d{2}$/.test(deadline) ? new Date(`${deadline}T23:59:59`).toISOString() : deadline;
+};
+
+/** True for a stored deadline that came from a date alone (see storedDeadline). */
+export const isDateOnlyDeadline = (deadline: string) => {
+  const d = new Date(deadline);
+  return d.getHours() === 23 && d.getMinutes() === 59 && d.getSeconds() === 59;
+};
+
+export const normalizeTag = (raw: string) =>
+  raw.trim().replace(/^#+/, "").toLowerCase().replace(/\s+/g, "-");
+
+/** The checks a draft must pass before it is created; returns the first problem, if any. */
+export const validateTaskDraft = (draft: NewTaskDraft): string | null => {
+  if (!draft.title.trim()) return "Please enter a task title";
+  if (!["high", "medium", "low"].includes(draft.priority)) return "Unknown priority";
+  if (draft.deadline && Number.isNaN(new Date(draft.deadline).getTime())) {
+    return "Deadline is not a valid date";
+  }
+
+  const recurrence = draft.recurrence;
+  if (draft.group_id && recurrence.frequency !== "none") {
+    return "Group tasks can't repeat";
+  }
+  if (recurrence.frequency === "weekly" && recurrence.weekdays.length === 0) {
+    return "Pick at least one day for a weekly task";
+  }
+  if (recurrence.ends === "until" && !recurrence.until_date) {
+    return "Please choose when the recurrence ends";
+  }
+  return null;
+};
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import {
+  activeFilterCount,
+  deadlineRange,
+  emptyFilters,
+  matchesFilters,
+  normalizeFilters,
+  taskUrgency,
+} from "./taskFilters";
+
+// Wednesday 10 Dec 2025, 09:00 local time
+const now = new Date(2025, 11, 10, 9, 0);
+const at = (day: number, h = 0, m = 0, s = 0) => new Date(2025, 11, day, h, m, s).toISOString();
+
+const task = (overrides: Partial<Parameters<typeof matchesFilters>[0]> = {}) => ({
+  status: "todo",
+  priority: "medium",
+  tags: ["work"],
+  deadline: at(12, 17),
+  is_public: false,
+  group_id: null,
+  ...overrides,
+});
+
+describe("normalizeFilters", () => {
+  it("fills in what an older saved view is missing", () => {
+    expect(normalizeFilters({ statuses: ["todo"] })).toEqual({ ...emptyFilters(), statuses: ["todo"] });
+    expect(normalizeFilters(null)).toEqual(emptyFilters());
+    expect(normalizeFilters("garbage")).toEqual(emptyFilters());
+  });
+});
+
+describe("taskUrgency", () => {
+  it("is null for closed and undated tasks", () => {
+    expect(taskUrgency({ status: "completed", deadline: at(1) }, now)).toBeNull();
+    expect(taskUrgency({ status: "pending_review", deadline: at(1) }, now)).toBeNull();
+    expect(taskUrgency({ status: "todo", deadline: null }, now)).toBeNull();
+  });
+
+  it("orders open tasks by their deadline", () => {
+    expect(taskUrgency({ status: "todo", deadline: at(10, 8, 59) }, now)).toBe("overdue");
+    expect(taskUrgency({ status: "in_progress", deadline: at(10, 18) }, now)).toBe("today");
+    expect(taskUrgency({ status: "todo", deadline: at(11, 9) }, now)).toBe("upcoming");
+  });
+
+  it("keeps a date-only deadline due today until the day ends", () => {
+    const lateEvening = new Date(2025, 11, 10, 23, 30);
+    expect(taskUrgency({ status: "todo", deadline: at(10, 23, 59, 59) }, lateEvening)).toBe("today");
+  });
+});
+
+describe("deadlineRange", () => {
+  it("is open for any deadline", () => {
+    expect(deadlineRange(emptyFilters(), now)).toEqual({});
+  });
+
+  it("limits overdue to open tasks due before now", () => {
+    expect(deadlineRange({ ...emptyFilters(), deadline: "overdue" }, now)).toEqual({
+      to: now.toISOString(),
+      openOnly: true,
+    });
+  });
+
+  it("resolves relative presets against now", () => {
+    expect(deadlineRange({ ...emptyFilters(), deadline: "today" }, now)).toEqual({
+      from: at(10),
+      to: new Date(2025, 11, 10, 23, 59, 59, 999).toISOString(),
+    });
+    expect(deadlineRange({ ...emptyFilters(), deadline: "this_week" }, now)).toEqual({
+      from: at(8),
+      to: new Date(2025, 11, 14, 23, 59, 59, 999).toISOString(),
+    });
+  });
+
+  it("covers whole days of a custom range and allows either end to be open", () => {
+    const filters = { ...emptyFilters(), deadline: "custom" as const, deadline_from: "2025-12-01" };
+    expect(deadlineRange(filters, now)).toEqual({ from: at(1), to: undefined });
+    expect(deadlineRange({ ...filters, deadline_to: "2025-12-05" }, now).to).toBe(
+      new Date(2025, 11, 5, 23, 59, 59, 999).toISOString()
+    );
+  });
+});
+
+describe("activeFilterCount", () => {
+  it("counts each criterion once and a single status as a plain tab", () => {
+    expect(activeFilterCount(emptyFilters())).toBe(0);
+    expect(activeFilterCount({ ...emptyFilters(), statuses: ["todo"] })).toBe(0);
+    expect(
+      activeFilterCount({
+        ...emptyFilters(),
+        statuses: ["todo", "in_progress"],
+        priorities: ["high", "low"],
+        tags: ["a", "b"],
+        deadline: "today",
+        is_public: false,
+        group: "g1",
+      })
+    ).toBe(6);
+  });
+
+  it("counts a visibility filter whichever way it points", () => {
+    expect(activeFilterCount({ ...emptyFilters(), is_public: true })).toBe(1);
+    expect(activeFilterCount({ ...emptyFilters(), is_public: false })).toBe(1);
+  });
+});
+
+describe("matchesFilters", () => {
+  it("matches everything without filters", () => {
+    expect(matchesFilters(task(), emptyFilters(), now)).toBe(true);
+  });
+
+  it("matches any of the chosen statuses, priorities and tags", () => {
+    const filters = {
+      ...emptyFilters(),
+      statuses: ["todo" as const],
+      priorities: ["medium" as const, "high" as const],
+    };
+    expect(matchesFilters(task(), filters, now)).toBe(true);
+    expect(matchesFilters(task({ status: "completed" }), filters, now)).toBe(false);
+    expect(matchesFilters(task({ priority: "low" }), filters, now)).toBe(false);
+    expect(matchesFilters(task(), { ...emptyFilters(), tags: ["home", "work"] }, now)).toBe(true);
+    expect(matchesFilters(task({ tags: null }), { ...emptyFilters(), tags: ["work"] }, now)).toBe(false);
+  });
+
+  it("leaves out undated and closed tasks from overdue", () => {
+    const filters = { ...emptyFilters(), deadline: "overdue" as const };
+    expect(matchesFilters(task({ deadline: at(9) }), filters, now)).toBe(true);
+    expect(matchesFilters(task({ deadline: at(9), status: "completed" }), filters, now)).toBe(false);
+    expect(matchesFilters(task({ deadline: null }), filters, now)).toBe(false);
+    expect(matchesFilters(task(), filters, now)).toBe(false);
+  });
+
+  it("filters on visibility and group", () => {
+    expect(matchesFilters(task(), { ...emptyFilters(), is_public: true }, now)).toBe(false);
+    expect(matchesFilters(task({ is_public: null }), { ...emptyFilters(), is_public: false }, now)).toBe(true);
+    expect(matchesFilters(task({ group_id: "g1" }), { ...emptyFilters(), group: "g1" }, now)).toBe(true);
+    expect(matchesFilters(task(), { ...emptyFilters(), group: "g1" }, now)).toBe(false);
+  });
+});
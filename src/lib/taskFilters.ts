@@ -0,0 +1,148 @@
+import { addDays, endOfDay, endOfWeek, isSameDay, startOfDay, startOfWeek } from "date-fns";
+
+export type TaskStatus = "todo" | "in_progress" | "pending_review" | "completed";
+export type TaskPriority = "high" | "medium" | "low";
+export type DeadlinePreset = "any" | "overdue" | "today" | "this_week" | "next_7_days" | "custom";
+/** List ordering, kept in user_ui_settings.task_sort. */
+export type TaskSort = "newest" | "urgency";
+export type Urgency = "overdue" | "today" | "upcoming";
+
+/** Everything a TaskList view can filter on; saved as-is in task_filter_views.filters. */
+export interface TaskFilters {
+  statuses: TaskStatus[];
+  priorities: TaskPriority[];
+  tags: string[];
+  deadline: DeadlinePreset;
+  deadline_from: string; // yyyy-MM-dd, only for "custom"
+  deadline_to: string;
+  is_public: boolean | null;
+  group: string | null; // a group's id; null lists the member's own and assigned tasks
+}
+
+export const emptyFilters = (): TaskFilters => ({
+  statuses: [],
+  priorities: [],
+  tags: [],
+  deadline: "any",
+  deadline_from: "",
+  deadline_to: "",
+  is_public: null,
+  group: null,
+});
+
+/** Saved views are stored as json; fill in anything an older view is missing. */
+export const normalizeFilters = (raw: unknown): TaskFilters => ({
+  ...emptyFilters(),
+  ...(raw && typeof raw === "object" ? (raw as Partial<TaskFilters>) : {}),
+});
+
+export const STATUS_LABELS: Record<TaskStatus, string> = {
+  todo: "To Do",
+  in_progress: "In Progress",
+  pending_review: "In Review",
+  completed: "Completed",
+};
+
+export const DEADLINE_LABELS: Record<DeadlinePreset, string> = {
+  any: "Any deadline",
+  overdue: "Overdue",
+  today: "Due today",
+  this_week: "Due this week",
+  next_7_days: "Next 7 days",
+  custom: "Custom range",
+};
+
+export const SORT_LABELS: Record<TaskSort, string> = {
+  newest: "Newest first",
+  urgency: "Most urgent",
+};
+
+/**
+ * Where an open task falls in the urgency ordering; null for closed or undated tasks.
+ * Date-only deadlines are stored as the end of their day, so they stay "today" until then.
+ */
+export const taskUrgency = (
+  task: { status: string; deadline: string | null },
+  now: Date = new Date()
+): Urgency | null => {
+  if (!task.deadline || !["todo", "in_progress"].includes(task.status)) return null;
+  const due = new Date(task.deadline);
+  if (due < now) return "overdue";
+  return isSameDay(due, now) ? "today" : "upcoming";
+};
+
+/**
+ * Deadline bounds for a filter, resolved against `now` so saved views such as
+ * "this week" stay relative. Overdue only makes sense for open tasks.
+ */
+export const deadlineRange = (
+  filters: TaskFilters,
+  now: Date = new Date()
+): { from?: string; to?: string; openOnly?: boolean } => {
+  switch (filters.deadline) {
+    case "overdue":
+      return { to: now.toISOString(), openOnly: true };
+    case "today":
+      return { from: startOfDay(now).toISOString(), to: endOfDay(now).toISOString() };
+    case "this_week":
+      return {
+        from: startOfWeek(now, { weekStartsOn: 1 }).toISOString(),
+        to: endOfWeek(now, { weekStartsOn: 1 }).toISOString(),
+      };
+    case "next_7_days":
+      return { from: now.toISOString(), to: endOfDay(addDays(now, 7)).toISOString() };
+    case "custom":
+      return {
+        from: filters.deadline_from
+          ? startOfDay(new Date(`${filters.deadline_from}T00:00:00`)).toISOString()
+          : undefined,
+        to: filters.deadline_to
+          ? endOfDay(new Date(`${filters.deadline_to}T00:00:00`)).toISOString()
+          : undefined,
+      };
+    default:
+      return {};
+  }
+};
+
+/** Number of criteria set beyond a plain status tab, for the "Filters (n)" badge. */
+export const activeFilterCount = (filters: TaskFilters) =>
+  (filters.statuses.length > 1 ? 1 : 0) +
+  (filters.priorities.length ? 1 : 0) +
+  (filters.tags.length ? 1 : 0) +
+  (filters.deadline !== "any" ? 1 : 0) +
+  (filters.is_public !== null ? 1 : 0) +
+  (filters.group ? 1 : 0);
+
+/** Client-side twin of TaskList's query filters, for tasks that are already loaded (e.g. exports). */
+export const matchesFilters = (
+  task: {
+    status: string;
+    priority: string | null;
+    tags?: string[] | null;
+    deadline: string | null;
+    is_public: boolean | null;
+    group_id?: string | null;
+  },
+  filters: TaskFilters,
+  now: Date = new Date()
+) => {
+  const range = deadlineRange(filters, now);
+  if (filters.statuses.length && !filters.statuses.includes(task.status as TaskStatus)) return false;
+  if (!filters.statuses.length && range.openOnly && !["todo", "in_progress"].includes(task.status)) {
+    return false;
+  }
+  if (filters.priorities.length && !filters.priorities.includes(task.priority as TaskPriority)) {
+    return false;
+  }
+  if (filters.tags.length && !(task.tags || []).some((t) => filters.tags.includes(t))) return false;
+  if (range.from || range.to) {
+    if (!task.deadline) return false;
+    const due = new Date(task.deadline).getTime();
+    if (range.from && due < new Date(range.from).getTime()) return false;
+    if (range.to && due > new Date(range.to).getTime()) return false;
+  }
+  if (filters.is_public !== null && !!task.is_public !== filters.is_public) return false;
+  if (filters.group && task.group_id !== filters.group) return false;
+  return true;
+};
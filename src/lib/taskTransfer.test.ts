@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import {
+  ExportTask,
+  mapImportRows,
+  parseCsv,
+  parseIcs,
+  parseImportFile,
+  suggestMapping,
+  tasksToCsv,
+  tasksToIcs,
+} from "./taskTransfer";
+
+const exportTask = (overrides: Partial<ExportTask> = {}): ExportTask => ({
+  id: "t1",
+  title: "Write report",
+  description: null,
+  status: "todo",
+  priority: "high",
+  deadline: null,
+  is_public: false,
+  tags: ["work"],
+  created_at: "2025-12-01T10:00:00.000Z",
+  group_id: null,
+  ...overrides,
+});
+
+const importRows = (text: string, name = "tasks.csv") => {
+  const table = parseImportFile(name, text);
+  return mapImportRows(table, suggestMapping(table.columns));
+};
+
+describe("CSV", () => {
+  it("reads back what it exports, including quotes, commas and line breaks", () => {
+    const task = exportTask({ title: 'Say "hi", then leave', description: "line 1\nline 2", tags: ["a", "b"] });
+    const table = parseCsv(tasksToCsv([task]));
+    expect(table.rows).toEqual([
+      {
+        title: 'Say "hi", then leave',
+        description: "line 1\nline 2",
+        status: "todo",
+        priority: "high",
+        deadline: "",
+        is_public: "false",
+        tags: "a;b",
+        created_at: "2025-12-01T10:00:00.000Z",
+      },
+    ]);
+  });
+
+  it("skips blank lines and names unnamed columns", () => {
+    const table = parseCsv("\uFEFFtitle,\r\n\r\nA,1\r\n");
+    expect(table.columns).toEqual(["title", "Column 2"]);
+    expect(table.rows).toEqual([{ title: "A", "Column 2": "1" }]);
+  });
+});
+
+describe("iCalendar", () => {
+  it("exports date-only deadlines as all-day and timed ones in UTC", () => {
+    const ics = tasksToIcs([
+      exportTask({ id: "a", deadline: new Date(2025, 11, 24, 23, 59, 59).toISOString() }),
+      exportTask({ id: "b", deadline: "2025-12-24T17:30:00.000Z" }),
+    ]);
+    expect(ics).toContain("DUE;VALUE=DATE:20251224\r\n");
+    expect(ics).toContain("DUE:20251224T173000Z\r\n");
+  });
+
+  it("folds long lines and escapes text", () => {
+    const ics = tasksToIcs([exportTask({ title: "x".repeat(100), description: "a, b; c\nd" })]);
+    expect(ics).toContain(`SUMMARY:${"x".repeat(67)}\r\n ${"x".repeat(33)}\r\n`);
+    expect(ics).toContain("DESCRIPTION:a\\, b\\; c\\nd\r\n");
+  });
+
+  it("reads back what it exports", () => {
+    const task = exportTask({ title: "Long ".repeat(20).trim(), description: "a, b; c", tags: ["x", "y"] });
+    expect(parseIcs(tasksToIcs([task])).rows).toEqual([
+      {
+        summary: task.title,
+        description: "a, b; c",
+        priority: "1",
+        status: "NEEDS-ACTION",
+        class: "PRIVATE",
+        categories: "x,y",
+      },
+    ]);
+  });
+
+  it("imports all-day DUE dates as plain dates", () => {
+    const ics = "BEGIN:VCALENDAR\r\nBEGIN:VTODO\r\nSUMMARY:A\r\nDUE;VALUE=DATE:20251224\r\nEND:VTODO\r\nEND:VCALENDAR";
+    const [row] = importRows(ics, "a.ics");
+    expect(row.draft.deadline).toBe("2025-12-24");
+    expect(row.error).toBeNull();
+  });
+});
+
+describe("JSON sources", () => {
+  it("recognises Todoist exports and maps their priorities", () => {
+    const table = parseImportFile(
+      "todoist.json",
+      JSON.stringify([{ content: "Buy milk", priority: 4, due: { date: "2025-12-24" }, labels: ["home"] }])
+    );
+    expect(table.source).toBe("todoist");
+    expect(table.rows[0]).toMatchObject({ content: "Buy milk", priority: "high", due: "2025-12-24", labels: "home" });
+  });
+
+  it("recognises Trello boards and skips archived cards", () => {
+    const table = parseImportFile(
+      "board.json",
+      JSON.stringify({
+        lists: [{ id: "l1", name: "Doing" }],
+        cards: [
+          { name: "Open card", idList: "l1", labels: [{ name: "ui" }], dueComplete: false },
+          { name: "Archived", idList: "l1", closed: true },
+        ],
+      })
+    );
+    expect(table.source).toBe("trello");
+    expect(table.rows).toEqual([
+      { name: "Open card", desc: "", due: "", status: "todo", labels: "ui", list: "Doing" },
+    ]);
+  });
+
+  it("rejects JSON without tasks", () => {
+    expect(() => parseImportFile("a.json", '{"hello": 1}')).toThrow("No tasks found in this JSON file");
+  });
+});
+
+describe("suggestMapping", () => {
+  it("matches columns by their usual names, ignoring case", () => {
+    expect(suggestMapping(["Name", "Notes", "Due Date", "Labels"])).toEqual({
+      title: "Name",
+      description: "Notes",
+      priority: null,
+      deadline: "Due Date",
+      status: null,
+      is_public: null,
+      tags: "Labels",
+    });
+  });
+});
+
+describe("mapImportRows", () => {
+  it("normalises priorities, statuses, tags and deadlines", () => {
+    const [row] = importRows("title,priority,status,tags,due,public\nA,P1,Doing,#Work; deep work;work,2025-12-24,yes\n");
+    expect(row.error).toBeNull();
+    expect(row.skipped).toBeNull();
+    expect(row.status).toBe("in_progress");
+    expect(row.draft).toMatchObject({
+      title: "A",
+      priority: "high",
+      tags: ["work", "deep-work"],
+      deadline: "2025-12-24",
+      is_public: true,
+    });
+  });
+
+  it("reports the first problem with a row", () => {
+    const rows = importRows("title,priority,due,status\n,low,,\nB,whenever,,\nC,low,soonish,\nD,low,,maybe\n");
+    expect(rows.map((r) => r.error)).toEqual([
+      "Please enter a task title",
+      'Unknown priority "whenever"',
+      'Unreadable deadline "soonish"',
+      'Unknown status "maybe"',
+    ]);
+  });
+
+  it("skips completed items", () => {
+    const [row] = importRows("title,status\nA,done\n");
+    expect(row.skipped).toBe("Already completed");
+  });
+});
@@ -0,0 +1,454 @@
+import { format } from "date-fns";
+import {
+  NewTaskDraft,
+  Priority,
+  emptyDraft,
+  isDateOnlyDeadline,
+  normalizeTag,
+  validateTaskDraft,
+} from "@/lib/taskDraft";
+
+/** The task columns that go out in an export. */
+export interface ExportTask {
+  id: string;
+  title: string;
+  description: string | null;
+  status: string;
+  priority: string | null;
+  deadline: string | null;
+  is_public: boolean | null;
+  tags: string[] | null;
+  created_at: string;
+  group_id: string | null;
+}
+
+export type ExportFormat = "csv" | "json" | "ics";
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+const EXPORT_COLUMNS = [
+  "title",
+  "description",
+  "status",
+  "priority",
+  "deadline",
+  "is_public",
+  "tags",
+  "created_at",
+] as const;
+
+const csvCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const tasksToCsv = (tasks: ExportTask[]) => {
+  const lines = [EXPORT_COLUMNS.join(",")];
+  for (const t of tasks) {
+    lines.push(
+      [
+        t.title,
+        t.description ?? "",
+        t.status,
+        t.priority ?? "",
+        t.deadline ?? "",
+        t.is_public ? "true" : "false",
+        (t.tags || []).join(";"),
+        t.created_at,
+      ]
+        .map(csvCell)
+        .join(",")
+    );
+  }
+  return lines.join("\r\n") + "\r\n";
+};
+
+export const tasksToJson = (tasks: ExportTask[]) =>
+  JSON.stringify(
+    {
+      version: 1,
+      exported_at: new Date().toISOString(),
+      tasks: tasks.map((t) => ({
+        title: t.title,
+        description: t.description,
+        status: t.status,
+        priority: t.priority,
+        deadline: t.deadline,
+        is_public: !!t.is_public,
+        tags: t.tags || [],
+        created_at: t.created_at,
+      })),
+    },
+    null,
+    2
+  );
+
+const icsText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const icsStamp = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// RFC 5545: lines longer than 75 octets are folded with CRLF + space
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let rest = line;
+  while (rest.length > 75) {
+    parts.push(rest.slice(0, 75));
+    rest = " " + rest.slice(75);
+  }
+  parts.push(rest);
+  return parts.join("\r\n");
+};
+
+const ICS_PRIORITY: Record<string, number> = { high: 1, medium: 5, low: 9 };
+const ICS_STATUS: Record<string, string> = {
+  todo: "NEEDS-ACTION",
+  in_progress: "IN-PROCESS",
+  pending_review: "IN-PROCESS",
+  completed: "COMPLETED",
+};
+
+export const tasksToIcs = (tasks: ExportTask[]) => {
+  const now = icsStamp(new Date().toISOString());
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//Peacutoria//Tasks//EN", "CALSCALE:GREGORIAN"];
+  for (const t of tasks) {
+    lines.push("BEGIN:VTODO");
+    lines.push(`UID:${t.id}@peacutoria`);
+    lines.push(`DTSTAMP:${now}`);
+    lines.push(`CREATED:${icsStamp(t.created_at)}`);
+    lines.push(`SUMMARY:${icsText(t.title)}`);
+    if (t.description) lines.push(`DESCRIPTION:${icsText(t.description)}`);
+    if (t.deadline) {
+      // date-only deadlines (stored as the end of their day) stay all-day
+      lines.push(
+        isDateOnlyDeadline(t.deadline)
+          ? `DUE;VALUE=DATE:${format(new Date(t.deadline), "yyyyMMdd")}`
+          : `DUE:${icsStamp(t.deadline)}`
+      );
+    }
+    if (t.priority && ICS_PRIORITY[t.priority]) lines.push(`PRIORITY:${ICS_PRIORITY[t.priority]}`);
+    lines.push(`STATUS:${ICS_STATUS[t.status] ?? "NEEDS-ACTION"}`);
+    lines.push(`CLASS:${t.is_public ? "PUBLIC" : "PRIVATE"}`);
+    if (t.tags && t.tags.length) lines.push(`CATEGORIES:${t.tags.map(icsText).join(",")}`);
+    lines.push("END:VTODO");
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+export const EXPORT_MIME: Record<ExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  json: "application/json",
+  ics: "text/calendar;charset=utf-8",
+};
+
+export const serializeTasks = (tasks: ExportTask[], fmt: ExportFormat) =>
+  fmt === "csv" ? tasksToCsv(tasks) : fmt === "json" ? tasksToJson(tasks) : tasksToIcs(tasks);
+
+// ---------------------------------------------------------------------------
+// Import: every source is first turned into a flat table of string cells,
+// then mapped column-by-column onto task fields.
+// ---------------------------------------------------------------------------
+
+export type ImportSource = "csv" | "json" | "ics" | "todoist" | "trello";
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  csv: "CSV",
+  json: "JSON",
+  ics: "iCalendar",
+  todoist: "Todoist",
+  trello: "Trello",
+};
+
+export interface ImportTable {
+  source: ImportSource;
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+export type ImportField = "title" | "description" | "priority" | "deadline" | "status" | "is_public" | "tags";
+
+export const IMPORT_FIELDS: { field: ImportField; label: string }[] = [
+  { field: "title", label: "Title" },
+  { field: "description", label: "Description" },
+  { field: "priority", label: "Priority" },
+  { field: "deadline", label: "Deadline" },
+  { field: "status", label: "Status" },
+  { field: "is_public", label: "Public" },
+  { field: "tags", label: "Tags" },
+];
+
+export type ImportMapping = Record<ImportField, string | null>;
+
+const FIELD_SYNONYMS: Record<ImportField, string[]> = {
+  title: ["title", "name", "summary", "content", "task"],
+  description: ["description", "desc", "notes", "note", "details"],
+  priority: ["priority", "prio"],
+  deadline: ["deadline", "due", "due_date", "due date", "date"],
+  status: ["status", "state", "completed", "closed"],
+  is_public: ["is_public", "public", "class", "visibility"],
+  tags: ["tags", "labels", "categories", "label", "list"],
+};
+
+export const suggestMapping = (columns: string[]): ImportMapping => {
+  const lower = columns.map((c) => c.toLowerCase().trim());
+  const mapping = {} as ImportMapping;
+  for (const { field } of IMPORT_FIELDS) {
+    const hit = FIELD_SYNONYMS[field].map((s) => lower.indexOf(s)).find((i) => i >= 0);
+    mapping[field] = hit !== undefined ? columns[hit] : null;
+  }
+  return mapping;
+};
+
+/** RFC 4180 CSV: quoted cells, doubled quotes, CRLF or LF line ends. */
+export const parseCsv = (text: string): ImportTable => {
+  const records: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      records.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length) {
+    row.push(cell);
+    records.push(row);
+  }
+
+  const nonEmpty = records.filter((r) => r.some((c) => c.trim() !== ""));
+  const [header = [], ...body] = nonEmpty;
+  const columns = header.map((h, i) => h.trim() || `Column ${i + 1}`);
+  return {
+    source: "csv",
+    columns,
+    rows: body.map((r) => Object.fromEntries(columns.map((c, i) => [c, r[i] ?? ""]))),
+  };
+};
+
+const icsUnescape = (value: string) =>
+  value.replace(/\\n/gi, "\n").replace(/\\([,;\\])/g, "$1");
+
+const icsDate = (value: string) => {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!m) return value;
+  if (!m[4]) return `${m[1]}-${m[2]}-${m[3]}`;
+  const iso = `${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}${m[7] ? "Z" : ""}`;
+  return new Date(iso).toISOString();
+};
+
+export const parseIcs = (text: string): ImportTable => {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const rows: Record<string, string>[] = [];
+  let current: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VTODO") {
+      current = {};
+    } else if (line === "END:VTODO") {
+      if (current) rows.push(current);
+      current = null;
+    } else if (current) {
+      const colon = line.indexOf(":");
+      if (colon < 0) continue;
+      const name = line.slice(0, colon).split(";")[0].toUpperCase();
+      const value = line.slice(colon + 1);
+      if (name === "DUE") current.due = icsDate(value);
+      else if (name === "SUMMARY") current.summary = icsUnescape(value);
+      else if (name === "DESCRIPTION") current.description = icsUnescape(value);
+      else if (name === "PRIORITY") current.priority = value;
+      else if (name === "STATUS") current.status = value;
+      else if (name === "CLASS") current.class = value;
+      else if (name === "CATEGORIES") current.categories = icsUnescape(value);
+    }
+  }
+
+  return {
+    source: "ics",
+    columns: ["summary", "description", "priority", "due", "status", "class", "categories"],
+    rows,
+  };
+};
+
+const str = (v: unknown) =>
+  v === null || v === undefined ? "" : typeof v === "string" ? v : Array.isArray(v) ? v.join(";") : String(v);
+
+// Todoist: REST task lists, or a sync/backup object with "items". Priority 4 is Todoist's p1.
+const TODOIST_PRIORITY: Record<string, string> = { "4": "high", "3": "medium", "2": "low", "1": "low" };
+
+const fromTodoist = (items: Record<string, unknown>[]): ImportTable => ({
+  source: "todoist",
+  columns: ["content", "description", "priority", "due", "status", "labels"],
+  rows: items.map((it) => {
+    const due = (it.due || {}) as { date?: string; datetime?: string };
+    return {
+      content: str(it.content),
+      description: str(it.description),
+      priority: TODOIST_PRIORITY[str(it.priority)] ?? "",
+      due: due.datetime || due.date || "",
+      status: it.checked || it.is_completed ? "completed" : "todo",
+      labels: str(it.labels),
+    };
+  }),
+});
+
+// Trello: a board export; archived cards are skipped.
+const fromTrello = (board: {
+  cards?: Record<string, unknown>[];
+  lists?: { id: string; name: string }[];
+}): ImportTable => {
+  const listNames = new Map((board.lists || []).map((l) => [l.id, l.name]));
+  return {
+    source: "trello",
+    columns: ["name", "desc", "due", "status", "labels", "list"],
+    rows: (board.cards || [])
+      .filter((c) => !c.closed)
+      .map((c) => ({
+        name: str(c.name),
+        desc: str(c.desc),
+        due: str(c.due),
+        status: c.dueComplete ? "completed" : "todo",
+        labels: ((c.labels || []) as { name?: string }[])
+          .map((l) => l.name)
+          .filter(Boolean)
+          .join(";"),
+        list: listNames.get(str(c.idList)) ?? "",
+      })),
+  };
+};
+
+export const parseJson = (text: string): ImportTable => {
+  const data = JSON.parse(text);
+
+  if (data && !Array.isArray(data) && Array.isArray(data.cards)) return fromTrello(data);
+
+  const items: unknown = Array.isArray(data) ? data : data?.items ?? data?.tasks;
+  if (!Array.isArray(items)) throw new Error("No tasks found in this JSON file");
+  const objects = items.filter((i) => i && typeof i === "object") as Record<string, unknown>[];
+
+  if (objects.length && "content" in objects[0] && !("title" in objects[0])) return fromTodoist(objects);
+
+  const columns = [...new Set(objects.flatMap((o) => Object.keys(o)))];
+  return {
+    source: "json",
+    columns,
+    rows: objects.map((o) => Object.fromEntries(columns.map((c) => [c, str(o[c])]))),
+  };
+};
+
+/** Picks the parser from the file name, falling back to sniffing the contents. */
+export const parseImportFile = (name: string, text: string): ImportTable => {
+  const lower = name.toLowerCase();
+  if (lower.endsWith(".ics") || text.trimStart().startsWith("BEGIN:VCALENDAR")) return parseIcs(text);
+  if (lower.endsWith(".json") || /^[[{]/.test(text.trimStart())) return parseJson(text);
+  return parseCsv(text);
+};
+
+const normalizePriority = (raw: string): Priority | null => {
+  const v = raw.trim().toLowerCase();
+  if (!v) return "medium";
+  if (["high", "h", "urgent", "p1", "!high"].includes(v)) return "high";
+  if (["medium", "med", "m", "normal", "p2"].includes(v)) return "medium";
+  if (["low", "l", "p3", "p4"].includes(v)) return "low";
+  // iCalendar: 1-4 high, 5 medium, 6-9 low, 0 undefined
+  if (/^\d$/.test(v)) {
+    const n = Number(v);
+    return n === 0 ? "medium" : n <= 4 ? "high" : n === 5 ? "medium" : "low";
+  }
+  return null;
+};
+
+type ImportStatus = "todo" | "in_progress" | "completed";
+
+const normalizeStatus = (raw: string): ImportStatus | null => {
+  const v = raw.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  if (!v || ["todo", "to_do", "needs_action", "open", "false", "0", "no"].includes(v)) return "todo";
+  if (["in_progress", "in_process", "doing", "started"].includes(v)) return "in_progress";
+  if (["completed", "complete", "done", "closed", "true", "1", "yes", "pending_review"].includes(v)) {
+    return "completed";
+  }
+  return null;
+};
+
+const normalizeDeadline = (raw: string): string | null => {
+  const v = raw.trim();
+  if (!v) return "";
+  if (/^\d{4}-\d{2}-\d{2}$/.test(v)) return v;
+  if (/^\d{8}(T\d{6}Z?)?$/.test(v)) return normalizeDeadline(icsDate(v));
+  const d = new Date(v);
+  if (Number.isNaN(d.getTime())) return null;
+  // midnight without an explicit time reads as a plain date
+  return /T|:/.test(v) ? d.toISOString() : format(d, "yyyy-MM-dd");
+};
+
+const truthy = (raw: string) => ["true", "yes", "1", "public", "y"].includes(raw.trim().toLowerCase());
+
+export interface ImportRow {
+  index: number;
+  draft: NewTaskDraft;
+  status: "todo" | "in_progress";
+  error: string | null;
+  skipped: string | null;
+}
+
+/**
+ * Applies the column mapping to every row and validates the result with the
+ * same rules as the create dialog. Completed items are skipped: completion
+ * only happens through a reviewed proof, and an import never awards points.
+ */
+export const mapImportRows = (table: ImportTable, mapping: ImportMapping): ImportRow[] =>
+  table.rows.map((row, index) => {
+    const cell = (field: ImportField) => {
+      const col = mapping[field];
+      return col ? row[col] ?? "" : "";
+    };
+
+    const draft = emptyDraft();
+    draft.title = cell("title").trim();
+    draft.description = cell("description").trim();
+    draft.is_public = truthy(cell("is_public"));
+    draft.tags = [...new Set(cell("tags").split(/[;,|]/).map(normalizeTag).filter(Boolean))];
+
+    const priority = normalizePriority(cell("priority"));
+    const deadline = normalizeDeadline(cell("deadline"));
+    const status = normalizeStatus(cell("status"));
+
+    let error: string | null = null;
+    if (priority === null) error = `Unknown priority "${cell("priority")}"`;
+    else draft.priority = priority;
+    if (deadline === null) error = error ?? `Unreadable deadline "${cell("deadline")}"`;
+    else draft.deadline = deadline;
+    if (status === null) error = error ?? `Unknown status "${cell("status")}"`;
+    error = error ?? validateTaskDraft(draft);
+
+    return {
+      index,
+      draft,
+      status: status === "in_progress" ? "in_progress" : "todo",
+      error,
+      skipped: status === "completed" ? "Already completed" : null,
+    };
+  });
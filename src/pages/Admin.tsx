@@ -1,6 +1,7 @@
 import { useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
 import { User } from "@supabase/supabase-js";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,6 +11,12 @@ import { Crown, FileText, RefreshCw, PlusCircle, CalendarDays } from "lucide-rea
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
+import ProofReviewQueue from "@/components/ProofReviewQueue";
+import PartnerPairsAdmin from "@/components/PartnerPairsAdmin";
+import OverdueSettingsAdmin from "@/components/OverdueSettingsAdmin";
+import LogTemplatesAdmin from "@/components/LogTemplatesAdmin";
+import MarkdownEditor from "@/components/MarkdownEditor";
+import { markdownToText } from "@/lib/markdown";
 
 type SummaryRow = {
   user_id: string;
@@ -24,13 +31,15 @@ type SummaryRow = {
   role?: "admin" | "moderator" | "member" | null;
 };
 
+type PointsRow = Database["public"]["Tables"]["points_transactions"]["Row"];
+
 const Admin = () => {
   const navigate = useNavigate();
   const [user, setUser] = useState<User | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
   const [summary, setSummary] = useState<SummaryRow[]>([]);
   const [expanded, setExpanded] = useState<Record<string, boolean>>({});
-  const [detailData, setDetailData] = useState<Record<string, { tasks: any[]; logs: any[]; posts: any[]; messages: any[] }>>({});
+  const [detailData, setDetailData] = useState<Record<string, { tasks: any[]; logs: any[]; posts: any[]; messages: any[]; points: PointsRow[] }>>({});
   const [search, setSearch] = useState("");
   const [reportModalFor, setReportModalFor] = useState<string | null>(null);
   const [reportDraft, setReportDraft] = useState<{ week_start: string; summary: string; achievements: string; improvements: string; points_gained: number; goals_next_week: string }>({ week_start: "", summary: "", achievements: "", improvements: "", points_gained: 0, goals_next_week: "" });
@@ -159,11 +168,12 @@ const Admin = () => {
     const next = { ...expanded, [uid]: !open };
     setExpanded(next);
     if (next[uid] && !detailData[uid]) {
-      const [tasks, logs, posts, messages] = await Promise.all([
+      const [tasks, logs, posts, messages, points] = await Promise.all([
         supabase.from("tasks").select("*").eq("user_id", uid).order("created_at", { ascending: false }),
         supabase.from("daily_logs").select("*").eq("user_id", uid).order("created_at", { ascending: false }),
         supabase.from("blog_posts").select("*").eq("user_id", uid).order("created_at", { ascending: false }),
         supabase.from("messages").select("*").eq("user_id", uid).order("created_at", { ascending: false }),
+        supabase.from("points_transactions").select("*").eq("user_id", uid).order("created_at", { ascending: false }).limit(50),
       ]);
       setDetailData({
         ...detailData,
@@ -172,6 +182,7 @@ const Admin = () => {
           logs: logs.data || [],
           posts: posts.data || [],
           messages: messages.data || [],
+          points: points.data || [],
         },
       });
     }
@@ -200,33 +211,25 @@ const Admin = () => {
   };
 
   const resetStreak = async (uid: string) => {
-    const rpc = await supabase.rpc("reset_streak", { p_user_id: uid } as any);
-    if (rpc.error) {
-      const upd = await supabase.from("profiles").update({ streak: 0 }).eq("id", uid);
-      if (upd.error) {
-        toast.error("Failed to reset streak");
-        return;
-      }
+    // streaks only change server-side (and are recorded in streak_events), so there is no direct-update fallback
+    const { error } = await supabase.rpc("reset_streak", { p_user_id: uid });
+    if (error) {
+      toast.error("Failed to reset streak");
+      return;
     }
     toast.success("Streak reset");
     fetchSummary();
   };
 
   const resetPoints = async (uid: string) => {
+    // points only change through the ledger, so there is no direct-update fallback
     const { error: rpcError } = await supabase.rpc("reset_points", {
-      user_id: uid
+      p_user_id: uid
     });
 
     if (rpcError) {
-      const { error: updError } = await supabase
-        .from("profiles")
-        .update({ points: 0 })
-        .eq("id", uid);
-
-      if (updError) {
-        toast.error("Failed to reset points");
-        return;
-      }
+      toast.error("Failed to reset points");
+      return;
     }
 
     toast.success("Points reset");
@@ -341,11 +344,11 @@ return (
                     value={announceForm.title} 
                     onChange={e => setAnnounceForm({ ...announceForm, title: e.target.value })} 
                   />
-                  <Textarea 
-                    placeholder="What would you like to announce?" 
-                    className="min-h-[150px] resize-none bg-muted/30 border-0 focus-visible:ring-0"
-                    value={announceForm.content} 
-                    onChange={e => setAnnounceForm({ ...announceForm, content: e.target.value })} 
+                  <MarkdownEditor
+                    value={announceForm.content}
+                    onChange={content => setAnnounceForm(prev => ({ ...prev, content }))}
+                    folder="announcements"
+                    placeholder="What would you like to announce?"
                   />
                   <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 pt-2">
                     <div className="flex items-center gap-4">
@@ -436,6 +439,15 @@ return (
             </Card>
           </div>
 
+          {/* --- Proof Review Queue --- */}
+          <ProofReviewQueue className="shadow-lg border-muted/40" />
+
+          <PartnerPairsAdmin members={summary} className="shadow-lg border-muted/40" />
+
+          <OverdueSettingsAdmin className="shadow-lg border-muted/40" />
+
+          <LogTemplatesAdmin className="shadow-lg border-muted/40" />
+
           {/* --- Main Users Table --- */}
           <Card className="shadow-lg border-muted/40 overflow-hidden">
             <CardHeader className="bg-muted/10 border-b flex flex-row items-center justify-between py-4">
@@ -581,7 +593,7 @@ return (
                                       {(recentData[row.user_id]?.logs || []).map((l: any) => (
                                         <div key={l.id} className="bg-card border p-2.5 rounded-md shadow-sm text-sm">
                                           <div className="font-semibold">{l.title}</div>
-                                          <div className="text-xs text-muted-foreground mt-1 line-clamp-3">{l.content}</div>
+                                          <div className="text-xs text-muted-foreground mt-1 line-clamp-3">{markdownToText(l.content)}</div>
                                           <div className="text-[10px] text-muted-foreground mt-2 text-right">{l.created_at}</div>
                                         </div>
                                       ))}
@@ -594,7 +606,7 @@ return (
                                       {(recentData[row.user_id]?.posts || []).map((p: any) => (
                                         <div key={p.id} className="bg-card border p-2.5 rounded-md shadow-sm text-sm">
                                           <div className="font-semibold">{p.title}</div>
-                                          <div className="text-xs text-muted-foreground mt-1 line-clamp-2">{p.content}</div>
+                                          <div className="text-xs text-muted-foreground mt-1 line-clamp-2">{markdownToText(p.content)}</div>
                                           <div className="text-[10px] text-muted-foreground mt-2 text-right">{p.created_at}</div>
                                         </div>
                                       ))}
@@ -704,6 +716,25 @@ return (
                                     ))}
                                 </div>
                             </div>
+
+                            <div className="space-y-3 md:col-span-2">
+                                <h4 className="font-semibold text-sm text-muted-foreground border-b pb-1">Points Ledger</h4>
+                                <div className="space-y-2 h-48 overflow-y-auto pr-2 custom-scrollbar">
+                                    {(detailData[row.user_id]?.points || []).map(pt => (
+                                    <div key={pt.id} className="p-3 rounded bg-muted/30 border text-sm flex items-center justify-between gap-4">
+                                        <div className="min-w-0">
+                                            <span className="font-medium capitalize">{pt.reason.replace(/_/g, " ")}</span>
+                                            {pt.note && <span className="text-muted-foreground truncate"> — {pt.note}</span>}
+                                            <div className="text-[10px] text-muted-foreground">{pt.created_at}</div>
+                                        </div>
+                                        <span className={`font-mono font-semibold shrink-0 ${pt.delta >= 0 ? "text-green-600" : "text-red-500"}`}>
+                                            {pt.delta > 0 ? `+${pt.delta}` : pt.delta}
+                                        </span>
+                                    </div>
+                                    ))}
+                                    {!(detailData[row.user_id]?.points || []).length && <p className="text-xs text-muted-foreground italic">No point transactions.</p>}
+                                </div>
+                            </div>
                         </div>
                         </CardContent>
                     </Card>
@@ -4,10 +4,11 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
+import MarkdownEditor from "@/components/MarkdownEditor";
+import MarkdownContent from "@/components/MarkdownContent";
 import { Megaphone, Pin, Plus, Image as ImageIcon, Loader2 } from "lucide-react";
 
 type Announcement = {
@@ -135,11 +136,12 @@ const Announcements = ({ userId }: { userId: string }) => {
                 </div>
                 <div className="space-y-2">
                   <Label>Content</Label>
-                  <Textarea 
-                    placeholder="What's happening?" 
-                    value={form.content} 
-                    onChange={(e) => setForm({ ...form, content: e.target.value })} 
-                    className="min-h-[120px]" 
+                  <MarkdownEditor
+                    value={form.content}
+                    onChange={(content) => setForm((prev) => ({ ...prev, content }))}
+                    folder="announcements"
+                    placeholder="What's happening?"
+                    rows={5}
                   />
                 </div>
                 <div className="space-y-2">
@@ -205,9 +207,7 @@ const Announcements = ({ userId }: { userId: string }) => {
                     />
                 </div>
               )}
-              <div className="prose prose-sm dark:prose-invert max-w-none text-foreground/90 whitespace-pre-wrap leading-relaxed">
-                {a.content}
-              </div>
+              <MarkdownContent content={a.content} className="text-sm text-foreground/90" />
             </CardContent>
           </Card>
         ))}
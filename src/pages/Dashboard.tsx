@@ -8,7 +8,7 @@ import { toast } from "sonner";
 import { 
   LogOut, Sparkles, Target, BookOpen, Users, TrendingUp, 
   BarChart2, Trophy, MessageSquare, Megaphone, CalendarDays, 
-  Menu, X, ChevronLeft, ChevronRight
+  Menu, X, ChevronLeft, ChevronRight, Bookmark, Handshake, Search
 } from "lucide-react";
 
 // Components
@@ -18,6 +18,16 @@ import TaskList from "@/components/TaskList";
 import DailyLogsList from "@/components/DailyLogsList";
 import BlogFeed from "@/components/BlogFeed";
 import GroupChat from "@/components/GroupChat";
+import AccountabilityPartners from "@/components/AccountabilityPartners";
+import NotificationsBell from "@/components/NotificationsBell";
+import OutboxStatus from "@/components/OutboxStatus";
+import CommandPalette from "@/components/CommandPalette";
+import KeyboardShortcutsHelp from "@/components/KeyboardShortcutsHelp";
+import MoodAnalytics from "@/components/MoodAnalytics";
+import ActivityHeatmap from "@/components/ActivityHeatmap";
+import StreakDialog from "@/components/StreakDialog";
+import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts";
+import { PALETTE_HOTKEY_LABEL, ShortcutAction } from "@/lib/shortcuts";
 import { WeeklyReportEmbedded } from "@/pages/WeeklyReport";
 import { LeaderboardEmbedded } from "@/pages/Leaderboard";
 import Announcements from "@/pages/Announcements";
@@ -27,7 +37,7 @@ import CalendarPage from "@/pages/Calendar";
 import logo from "@/assets/logo.png";
 
 // Types
-type Section = "tasks" | "logs" | "community" | "chat" | "weekly" | "leaderboard" | "announcements" | "calendar";
+type Section = "tasks" | "logs" | "community" | "partners" | "chat" | "weekly" | "leaderboard" | "announcements" | "calendar";
 
 const Dashboard = () => {
   const navigate = useNavigate();
@@ -36,6 +46,13 @@ const Dashboard = () => {
   const [profile, setProfile] = useState<any>(null);
   const [isAdmin, setIsAdmin] = useState(false);
   const [section, setSection] = useState<Section>("tasks");
+  const [savedViews, setSavedViews] = useState<{ id: string; name: string }[]>([]);
+  const [openView, setOpenView] = useState<{ id: string } | null>(null);
+  const [taskCreateRequest, setTaskCreateRequest] = useState<{ at: number } | null>(null);
+  const [logCreateRequest, setLogCreateRequest] = useState<{ at: number } | null>(null);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [shortcutsOpen, setShortcutsOpen] = useState(false);
+  const [streakOpen, setStreakOpen] = useState(false);
   
   // UI States
   const [isSidebarOpen, setIsSidebarOpen] = useState(false); // Mobile drawer state
@@ -136,9 +153,26 @@ const Dashboard = () => {
       .on("postgres_changes", { event: "*", schema: "public", table: "blog_posts", filter: `user_id=eq.${user?.id}` }, () => fetchStats())
       .subscribe();
 
+    const fetchSavedViews = async () => {
+      if (!user) return;
+      const { data } = await supabase
+        .from("task_filter_views")
+        .select("id, name")
+        .eq("user_id", user.id)
+        .order("name");
+      setSavedViews(data || []);
+    };
+    fetchSavedViews();
+
+    const viewsChannel = supabase
+      .channel("task-filter-views")
+      .on("postgres_changes", { event: "*", schema: "public", table: "task_filter_views", filter: `user_id=eq.${user?.id}` }, () => fetchSavedViews())
+      .subscribe();
+
     return () => {
       supabase.removeChannel(profileChannel);
       supabase.removeChannel(statsChannel);
+      supabase.removeChannel(viewsChannel);
     };
   }, [user]);
 
@@ -151,6 +185,7 @@ const Dashboard = () => {
       logs: "logs",
       blog: "community",
       community: "community",
+      partners: "partners",
       chat: "chat",
       weekly: "weekly",
       leaderboard: "leaderboard",
@@ -164,6 +199,45 @@ const Dashboard = () => {
     navigate(`/dashboard?tab=${section}`, { replace: true });
   }, [section, navigate]);
 
+  // a create request only applies to the visit it was made for
+  useEffect(() => {
+    if (section !== "tasks") setTaskCreateRequest(null);
+    if (section !== "logs") setLogCreateRequest(null);
+  }, [section]);
+
+  const handleShortcut = (action: ShortcutAction) => {
+    switch (action.type) {
+      case "palette":
+        setPaletteOpen(true);
+        break;
+      case "help":
+        setShortcutsOpen(true);
+        break;
+      case "new_task":
+        setSection("tasks");
+        setTaskCreateRequest({ at: Date.now() });
+        break;
+      case "new_log":
+        setSection("logs");
+        setLogCreateRequest({ at: Date.now() });
+        break;
+      case "section":
+        setSection(action.section);
+        break;
+    }
+  };
+
+  useKeyboardShortcuts(handleShortcut);
+
+  const handleDeleteView = async (id: string) => {
+    const { error } = await supabase.from("task_filter_views").delete().eq("id", id);
+    if (error) {
+      toast.error("Failed to delete view");
+      return;
+    }
+    setSavedViews((prev) => prev.filter((v) => v.id !== id));
+  };
+
   const handleSignOut = async () => {
     const { error } = await supabase.auth.signOut();
     if (error) {
@@ -179,6 +253,7 @@ const Dashboard = () => {
     { key: "tasks", label: "Tasks", icon: Target, description: "Your daily focus and goals." },
     { key: "logs", label: "Daily Logs", icon: BookOpen, description: "Track your progress and insights." },
     { key: "community", label: "Community", icon: Users, description: "Public blog and sharing." },
+    { key: "partners", label: "Partners", icon: Handshake, description: "Accountability partners and nudges." },
     { key: "chat", label: "Group Chat", icon: MessageSquare, description: "Real-time peer connection." },
     { key: "weekly", label: "Weekly Report", icon: BarChart2, description: "Performance analytics." },
     { key: "leaderboard", label: "Leaderboard", icon: Trophy, description: "Global ranking by points." },
@@ -203,15 +278,22 @@ const Dashboard = () => {
   // --- RENDER HELPERS ---
   const renderMainContent = () => {
     switch (section) {
-      case "tasks": return <TaskList userId={user.id} />;
-      case "logs": return <DailyLogsList userId={user.id} />;
+      case "tasks": return <TaskList userId={user.id} openView={openView} createRequest={taskCreateRequest} />;
+      case "logs": return <DailyLogsList userId={user.id} createRequest={logCreateRequest} />;
       case "community": return <BlogFeed userId={user.id} />;
+      case "partners": return <AccountabilityPartners userId={user.id} />;
       case "chat": return <GroupChat userId={user.id} />;
-      case "weekly": return <WeeklyReportEmbedded userId={user.id} isAdmin={isAdmin} />;
+      case "weekly":
+        return (
+          <div className="space-y-6">
+            <WeeklyReportEmbedded userId={user.id} isAdmin={isAdmin} />
+            <MoodAnalytics userId={user.id} />
+          </div>
+        );
       case "leaderboard": return <LeaderboardEmbedded />;
       case "announcements": return <Announcements userId={user.id} />;
       case "calendar": return <CalendarPage userId={user.id} />;
-      default: return <TaskList userId={user.id} />;
+      default: return <TaskList userId={user.id} openView={openView} createRequest={taskCreateRequest} />;
     }
   };
 
@@ -283,6 +365,35 @@ const Dashboard = () => {
             </button>
           );
         })}
+
+        {/* Saved task views */}
+        {!isDesktopCollapsed && savedViews.length > 0 && (
+          <div className="pt-4 mt-2 border-t border-gray-100">
+            <p className="px-3 pb-1 text-[11px] font-semibold uppercase tracking-wider text-gray-400">Saved Views</p>
+            {savedViews.map((v) => (
+              <div key={v.id} className="group flex items-center rounded-xl hover:bg-gray-50">
+                <button
+                  onClick={() => {
+                    setSection("tasks");
+                    setOpenView({ id: v.id });
+                    if (mobile) setIsSidebarOpen(false);
+                  }}
+                  className="flex flex-1 items-center gap-3 p-2.5 text-sm text-gray-600 hover:text-gray-900 min-w-0"
+                >
+                  <Bookmark className="h-4 w-4 text-blue-500 shrink-0" />
+                  <span className="truncate">{v.name}</span>
+                </button>
+                <button
+                  onClick={() => handleDeleteView(v.id)}
+                  className="p-2 text-gray-300 opacity-0 group-hover:opacity-100 hover:text-red-500"
+                  title="Delete view"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
       </nav>
 
       {/* Footer User Info */}
@@ -370,10 +481,42 @@ const Dashboard = () => {
                   <p className="text-xs text-muted-foreground flex items-center gap-2 justify-end">
                     <span>⭐ {profile.points} pts</span>
                     <span>•</span>
-                    <span>🔥 {profile.streak} days</span>
+                    <button
+                      type="button"
+                      className="hover:text-foreground hover:underline underline-offset-2"
+                      title="Streak history and freezes"
+                      onClick={() => setStreakOpen(true)}
+                    >
+                      🔥 {profile.streak} days{profile.streak_freezes > 0 && ` · ❄️ ${profile.streak_freezes}`}
+                    </button>
                   </p>
                 </div>
                 
+                {/* Command palette */}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPaletteOpen(true)}
+                  className="hidden md:flex gap-2 rounded-full text-muted-foreground"
+                  title="Search and commands"
+                >
+                  <Search className="h-4 w-4" />
+                  <kbd className="font-mono text-[10px]">{PALETTE_HOTKEY_LABEL}</kbd>
+                </Button>
+
+                {/* Offline changes waiting to sync */}
+                <OutboxStatus userId={user.id} />
+
+                {/* Notifications */}
+                <NotificationsBell
+                  userId={user.id}
+                  onSelect={(n) => {
+                    if (/^(task|proof|group)_/.test(n.type)) setSection("tasks");
+                    else if (n.type.startsWith("partner_")) setSection("partners");
+                    else if (n.type.startsWith("streak_")) setStreakOpen(true);
+                  }}
+                />
+
                 {/* Avatar / Profile Icon */}
                 <div className="h-10 w-10 rounded-full bg-gradient-to-tr from-blue-500 to-purple-600 p-[2px]">
                    <div className="h-full w-full rounded-full bg-white flex items-center justify-center">
@@ -421,11 +564,28 @@ const Dashboard = () => {
             ))}
           </div>
 
+          {/* ACTIVITY HEATMAP */}
+          <ActivityHeatmap userId={user.id} className="mb-8 border-gray-100 shadow-sm" />
+
           {/* MAIN CONTENT CONTAINER */}
           <div className="bg-white rounded-3xl border border-gray-100 shadow-xl shadow-gray-200/40 p-6 min-h-[500px] animate-in fade-in slide-in-from-bottom-4 duration-500">
              {renderMainContent()}
           </div>
 
+          <CommandPalette
+            open={paletteOpen}
+            onOpenChange={setPaletteOpen}
+            userId={user.id}
+            sections={navItems}
+            onSection={setSection}
+            onNewTask={() => handleShortcut({ type: "new_task" })}
+            onNewLog={() => handleShortcut({ type: "new_log" })}
+            onShowShortcuts={() => setShortcutsOpen(true)}
+          />
+          <KeyboardShortcutsHelp open={shortcutsOpen} onOpenChange={setShortcutsOpen} />
+
+          <StreakDialog open={streakOpen} onOpenChange={setStreakOpen} userId={user.id} profile={profile} />
+
           <footer className="mt-12 text-center text-sm text-gray-400 py-4">
             <p>&copy; {new Date().getFullYear()} Peacutoria. All rights reserved.</p>
           </footer>
@@ -1,5 +1,5 @@
 import { useEffect, useMemo, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -20,8 +20,8 @@ const LeaderboardPage = () => {
 
   const load = async () => {
     const res = await supabase
-      .from("profiles")
-      .select("id, username, avatar_url, points")
+      .from("points_leaderboard")
+      .select("id:user_id, username, avatar_url, points")
       .order("points", { ascending: false, nullsFirst: false });
     if (!res.error && res.data) setRows(res.data as any);
   };
@@ -83,7 +83,7 @@ const LeaderboardPage = () => {
                         </Avatar>
                         <Badge className="absolute -bottom-2 inset-x-0 mx-auto w-fit bg-slate-500 hover:bg-slate-500">#2</Badge>
                    </div>
-                   <div className="font-bold text-lg">{top[1].username}</div>
+                   <Link to={`/profile/${top[1].id}`} className="font-bold text-lg hover:underline">{top[1].username}</Link>
                    <div className="text-2xl font-mono font-bold text-slate-600 mt-1">{top[1].points || 0}</div>
                    <div className="text-xs text-muted-foreground">points</div>
                 </CardContent>
@@ -105,7 +105,7 @@ const LeaderboardPage = () => {
                         </Avatar>
                         <Badge className="absolute -bottom-3 inset-x-0 mx-auto w-fit bg-yellow-500 hover:bg-yellow-500 text-base px-3 py-0.5">#1</Badge>
                    </div>
-                   <div className="font-bold text-xl">{top[0].username}</div>
+                   <Link to={`/profile/${top[0].id}`} className="font-bold text-xl hover:underline">{top[0].username}</Link>
                    <div className="text-4xl font-mono font-black text-yellow-600 mt-2">{top[0].points || 0}</div>
                    <div className="text-sm text-muted-foreground font-medium uppercase tracking-wider">points</div>
                 </CardContent>
@@ -124,7 +124,7 @@ const LeaderboardPage = () => {
                         </Avatar>
                         <Badge className="absolute -bottom-2 inset-x-0 mx-auto w-fit bg-orange-500 hover:bg-orange-500">#3</Badge>
                    </div>
-                   <div className="font-bold text-lg">{top[2].username}</div>
+                   <Link to={`/profile/${top[2].id}`} className="font-bold text-lg hover:underline">{top[2].username}</Link>
                    <div className="text-2xl font-mono font-bold text-orange-600 mt-1">{top[2].points || 0}</div>
                    <div className="text-xs text-muted-foreground">points</div>
                 </CardContent>
@@ -156,7 +156,7 @@ const LeaderboardPage = () => {
                       <AvatarFallback>{r.username.slice(0, 2).toUpperCase()}</AvatarFallback>
                     </Avatar>
                     <div className="flex flex-col flex-1 max-w-[200px] sm:max-w-md">
-                      <span className="font-medium truncate">{r.username}</span>
+                      <Link to={`/profile/${r.id}`} className="font-medium truncate hover:underline">{r.username}</Link>
                       {/* Relative Progress Bar */}
                       <div className="h-1.5 w-full bg-muted rounded-full mt-1.5 overflow-hidden">
                         <div 
@@ -184,8 +184,8 @@ export const LeaderboardEmbedded = () => {
 
   const load = async () => {
     const res = await supabase
-      .from("profiles")
-      .select("id, username, avatar_url, points")
+      .from("points_leaderboard")
+      .select("id:user_id, username, avatar_url, points")
       .order("points", { ascending: false, nullsFirst: false });
     if (!res.error && res.data) setRows(res.data as any);
   };
@@ -252,7 +252,7 @@ export const LeaderboardEmbedded = () => {
                 
                 <div className="flex flex-col min-w-0 flex-1">
                   <div className="flex items-center gap-2">
-                    <span className="font-medium text-sm truncate">{r.username}</span>
+                    <Link to={`/profile/${r.id}`} className="font-medium text-sm truncate hover:underline">{r.username}</Link>
                   </div>
                   <div className="h-1 w-24 bg-muted rounded-full mt-1">
                     <div 
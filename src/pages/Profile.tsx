@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ArrowLeft, Flame, Star } from "lucide-react";
+import PartnerButton from "@/components/PartnerButton";
+import ActivityHeatmap from "@/components/ActivityHeatmap";
+
+type ProfileRow = {
+  id: string;
+  username: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  bio: string | null;
+  points: number | null;
+  streak: number | null;
+};
+
+/**
+ * Profile
+ * - Public member profile at /profile/:userId
+ * - Other members can send / accept an accountability partner request from here
+ * - Activity heatmap of the last year, limited to what the viewer may see
+ */
+const Profile = () => {
+  const navigate = useNavigate();
+  const { userId } = useParams<{ userId: string }>();
+  const [viewerId, setViewerId] = useState<string | null>(null);
+  const [profile, setProfile] = useState<ProfileRow | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) navigate("/auth");
+      else setViewerId(session.user.id);
+    });
+  }, [navigate]);
+
+  useEffect(() => {
+    if (!userId) return;
+    (async () => {
+      setLoading(true);
+      const { data } = await supabase
+        .from("profiles")
+        .select("id, username, full_name, avatar_url, bio, points, streak")
+        .eq("id", userId)
+        .maybeSingle();
+      setProfile(data);
+      setLoading(false);
+    })();
+  }, [userId]);
+
+  return (
+    <div className="min-h-screen bg-background pb-10">
+      <header className="border-b bg-card/50 backdrop-blur supports-[backdrop-filter]:bg-background/60 sticky top-0 z-10">
+        <div className="container mx-auto px-4 py-4 max-w-3xl flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h1 className="text-xl font-bold">Profile</h1>
+        </div>
+      </header>
+      <main className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        {loading ? (
+          <div className="text-center py-16 text-muted-foreground">Loading...</div>
+        ) : !profile ? (
+          <div className="text-center py-16 text-muted-foreground">Member not found</div>
+        ) : (
+          <>
+            <Card>
+              <CardContent className="p-6 flex flex-col sm:flex-row items-center sm:items-start gap-6">
+                <Avatar className="h-24 w-24 border-4 border-muted">
+                  <AvatarImage src={profile.avatar_url || undefined} />
+                  <AvatarFallback className="text-2xl">
+                    {profile.username.slice(0, 2).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 text-center sm:text-left space-y-2">
+                  <div>
+                    <h2 className="text-2xl font-bold">{profile.username}</h2>
+                    {profile.full_name && (
+                      <p className="text-sm text-muted-foreground">{profile.full_name}</p>
+                    )}
+                  </div>
+                  {profile.bio && <p className="text-sm">{profile.bio}</p>}
+                  <div className="flex justify-center sm:justify-start gap-4 text-sm">
+                    <span className="flex items-center gap-1">
+                      <Star className="h-4 w-4 text-yellow-500" /> {profile.points || 0} pts
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Flame className="h-4 w-4 text-orange-500" /> {profile.streak || 0} day streak
+                    </span>
+                  </div>
+                </div>
+                {viewerId && viewerId !== profile.id && <PartnerButton userId={profile.id} />}
+              </CardContent>
+            </Card>
+            <ActivityHeatmap userId={profile.id} />
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Profile;
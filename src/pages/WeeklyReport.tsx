@@ -6,7 +6,7 @@ import { User } from "@supabase/supabase-js";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { Trophy, Target, ListChecks, Flame, Users, CalendarDays, BarChart3, ChevronDown } from "lucide-react";
+import { Trophy, Target, ListChecks, Flame, Users, CalendarDays, BarChart3, ChevronDown, Timer } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, BarChart, Bar } from "recharts";
@@ -73,9 +73,9 @@ const WeeklyReportPage = () => {
   }, [userIdFilter, isAdmin]);
 
   const latest = reports[0] || null;
-  const chartConfig = { Points: { label: "Points", color: "hsl(var(--chart-1))" }, Tasks: { label: "Tasks", color: "hsl(var(--chart-2))" }, Logs: { label: "Logs", color: "hsl(var(--chart-3))" } } as const;
+  const chartConfig = { Points: { label: "Points", color: "hsl(var(--chart-1))" }, Tasks: { label: "Tasks", color: "hsl(var(--chart-2))" }, Logs: { label: "Logs", color: "hsl(var(--chart-3))" }, Focus: { label: "Focused Hours", color: "hsl(var(--chart-4))" } } as const;
   const pointsSeries = useMemo(() => reports.slice().reverse().map(r => ({ week: r.week_start, Points: r.points_gained || 0 })), [reports]);
-  const workSeries = useMemo(() => [{ name: "This Week", Tasks: latest?.tasks_completed_count || 0, Logs: latest?.logs_count || 0 }], [latest]);
+  const workSeries = useMemo(() => [{ name: "This Week", Tasks: latest?.tasks_completed_count || 0, Logs: latest?.logs_count || 0, Focus: Number(latest?.focused_hours || 0) }], [latest]);
 
   const currentProfile = useMemo(() => profiles.find(p => p.id === userIdFilter)?.username || "User", [profiles, userIdFilter]);
 
@@ -119,7 +119,7 @@ const WeeklyReportPage = () => {
             </div>
             
             {/* Key Metric Cards */}
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
               <Card className="shadow-lg hover:shadow-xl transition-shadow">
                 <CardContent className="p-4 flex flex-col justify-between h-full">
                     <div className="flex items-center justify-between">
@@ -158,6 +158,19 @@ const WeeklyReportPage = () => {
                     <div className="text-xs text-muted-foreground mt-1">Daily records</div>
                 </CardContent>
               </Card>
+
+              <Card className="shadow-lg hover:shadow-xl transition-shadow">
+                <CardContent className="p-4 flex flex-col justify-between h-full">
+                    <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium text-muted-foreground">Focused Hours</span>
+                        <div className="p-1.5 bg-emerald-500/10 rounded-lg text-emerald-600">
+                            <Timer className="h-4 w-4" />
+                        </div>
+                    </div>
+                    <div className="text-3xl font-extrabold mt-3">{Number(latest.focused_hours || 0)}</div>
+                    <div className="text-xs text-muted-foreground mt-1">Timed focus sessions</div>
+                </CardContent>
+              </Card>
               
               <Card className="shadow-lg hover:shadow-xl transition-shadow">
                 <CardContent className="p-4 flex flex-col justify-between h-full">
@@ -250,6 +263,7 @@ const WeeklyReportPage = () => {
                                     <ChartLegend content={<ChartLegendContent className="flex justify-center pt-2" />} />
                                     <Bar dataKey="Tasks" fill="var(--color-Tasks)" radius={[4, 4, 0, 0]} />
                                     <Bar dataKey="Logs" fill="var(--color-Logs)" radius={[4, 4, 0, 0]} />
+                                    <Bar dataKey="Focus" fill="var(--color-Focus)" radius={[4, 4, 0, 0]} />
                                 </BarChart>
                             </ChartContainer>
                         </CardContent>
@@ -292,11 +306,11 @@ export const WeeklyReportEmbedded = ({ userId, isAdmin }: { userId: string; isAd
   }, [userIdFilter, isAdmin]);
 
   const latest = reports[0] || null;
-  const chartConfig = { Points: { label: "Points", color: "hsl(var(--chart-1))" }, Tasks: { label: "Tasks", color: "hsl(var(--chart-2))" }, Logs: { label: "Logs", color: "hsl(var(--chart-3))" } } as const;
+  const chartConfig = { Points: { label: "Points", color: "hsl(var(--chart-1))" }, Tasks: { label: "Tasks", color: "hsl(var(--chart-2))" }, Logs: { label: "Logs", color: "hsl(var(--chart-3))" }, Focus: { label: "Focused Hours", color: "hsl(var(--chart-4))" } } as const;
   
   // REVERSE reports for the chart so time goes Left -> Right
   const pointsSeries = useMemo(() => reports.slice().reverse().map(r => ({ week: r.week_start, Points: r.points_gained || 0 })), [reports]);
-  const workSeries = useMemo(() => [{ name: "This Week", Tasks: latest?.tasks_completed_count || 0, Logs: latest?.logs_count || 0 }], [latest]);
+  const workSeries = useMemo(() => [{ name: "This Week", Tasks: latest?.tasks_completed_count || 0, Logs: latest?.logs_count || 0, Focus: Number(latest?.focused_hours || 0) }], [latest]);
 
   const currentProfile = useMemo(() => profiles.find(p => p.id === userIdFilter)?.username || "User", [profiles, userIdFilter]);
 
@@ -331,7 +345,7 @@ export const WeeklyReportEmbedded = ({ userId, isAdmin }: { userId: string; isAd
           ) : (
             <>
               {/* Metric Row */}
-              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6">
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-4 mb-6">
                 <div className="flex flex-col items-start border-r pr-2 last:border-r-0">
                     <div className="p-1 bg-yellow-500/10 rounded-full text-yellow-600 mb-1">
                         <Trophy className="h-4 w-4" />
@@ -356,6 +370,14 @@ export const WeeklyReportEmbedded = ({ userId, isAdmin }: { userId: string; isAd
                     <div className="text-xs text-muted-foreground">Logs</div>
                 </div>
 
+                <div className="flex flex-col items-start border-r pr-2 last:border-r-0">
+                    <div className="p-1 bg-emerald-500/10 rounded-full text-emerald-600 mb-1">
+                        <Timer className="h-4 w-4" />
+                    </div>
+                    <div className="text-xl font-bold">{Number(latest.focused_hours || 0)}</div>
+                    <div className="text-xs text-muted-foreground">Focus hrs</div>
+                </div>
+
                 <div className="flex flex-col items-start">
                     <div className="p-1 bg-orange-500/10 rounded-full text-orange-600 mb-1">
                         <Flame className="h-4 w-4" />
@@ -453,6 +475,7 @@ export const WeeklyReportEmbedded = ({ userId, isAdmin }: { userId: string; isAd
                 <YAxis tick={{ fontSize: 9 }} axisLine={false} tickLine={false} />
                 <Bar dataKey="Tasks" fill="var(--color-Tasks)" radius={[4, 4, 0, 0]} />
                 <Bar dataKey="Logs" fill="var(--color-Logs)" radius={[4, 4, 0, 0]} />
+                <Bar dataKey="Focus" fill="var(--color-Focus)" radius={[4, 4, 0, 0]} />
               </BarChart>
             </ChartContainer>
           </CardContent>
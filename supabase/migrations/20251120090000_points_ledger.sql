@@ -0,0 +1,219 @@
+-- Points ledger: every change to profiles.points is recorded here and applied
+-- through apply_points_transaction, so the total always matches the ledger.
+create type public.points_reason as enum (
+  'opening_balance',
+  'task_completed',
+  'task_deleted',
+  'log_streak',
+  'admin_reset',
+  'admin_adjust'
+);
+
+create table if not exists public.points_transactions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  delta int not null,
+  reason public.points_reason not null,
+  reference_id uuid,
+  note text,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_points_transactions_user on public.points_transactions(user_id, created_at desc);
+
+alter table public.points_transactions enable row level security;
+
+create policy points_transactions_owner_read on public.points_transactions for select
+  using (auth.uid() = user_id);
+
+create policy points_transactions_admin_read on public.points_transactions for select
+  using (
+    exists (
+      select 1 from public.user_roles ur
+      where ur.user_id = auth.uid() and ur.role = 'admin'
+    )
+  );
+
+-- No insert/update/delete policies: rows are only written by the functions below.
+
+-- Seed the ledger with whatever each member already has.
+insert into public.points_transactions (user_id, delta, reason, note)
+select p.id, p.points, 'opening_balance', 'Balance carried over from profiles.points'
+from public.profiles p
+where coalesce(p.points, 0) <> 0;
+
+-- profiles.points is maintained by the ledger only.
+create or replace function public.guard_profile_points()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.points is distinct from old.points
+     and coalesce(current_setting('app.points_ledger', true), '') <> 'on' then
+    raise exception 'points can only change through the points ledger';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger guard_profile_points
+  before update of points on public.profiles
+  for each row
+  execute function public.guard_profile_points();
+
+-- Single entry point for point changes. Negative deltas are clamped so the
+-- balance never drops below zero; the applied delta is what gets recorded.
+create or replace function public.apply_points_transaction(
+  p_user_id uuid,
+  p_delta int,
+  p_reason public.points_reason,
+  p_reference_id uuid default null,
+  p_note text default null
+)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  current_points int;
+  applied int;
+begin
+  select coalesce(points, 0) into current_points
+  from public.profiles
+  where id = p_user_id
+  for update;
+
+  if not found then
+    raise exception 'profile not found';
+  end if;
+
+  applied := greatest(p_delta, -current_points);
+  if applied = 0 then
+    return 0;
+  end if;
+
+  insert into public.points_transactions (user_id, delta, reason, reference_id, note, created_by)
+  values (p_user_id, applied, p_reason, p_reference_id, p_note, auth.uid());
+
+  perform set_config('app.points_ledger', 'on', true);
+  update public.profiles set points = current_points + applied where id = p_user_id;
+  perform set_config('app.points_ledger', 'off', true);
+
+  return applied;
+end;
+$$;
+
+revoke execute on function public.apply_points_transaction(uuid, int, public.points_reason, uuid, text) from public, anon, authenticated;
+
+-- Mark an in-progress task completed with its proof and award +10.
+create or replace function public.complete_task(p_task_id uuid, p_proof_url text)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t public.tasks%rowtype;
+begin
+  select * into t from public.tasks where id = p_task_id for update;
+  if not found or t.user_id <> auth.uid() then
+    raise exception 'task not found';
+  end if;
+  if t.status = 'completed' then
+    raise exception 'task already completed';
+  end if;
+  if coalesce(p_proof_url, '') = '' then
+    raise exception 'proof of work is required';
+  end if;
+
+  update public.tasks
+  set status = 'completed',
+      completion_percentage = 100,
+      proof_of_work_url = p_proof_url,
+      is_active = false
+  where id = p_task_id;
+
+  update public.profiles
+  set active_tasks = greatest(0, coalesce(active_tasks, 0) - 1)
+  where id = t.user_id and active_tasks is not null;
+
+  return public.apply_points_transaction(t.user_id, 10, 'task_completed', p_task_id, t.title);
+end;
+$$;
+
+-- Delete a task and charge the -5 penalty. Returns the applied delta.
+create or replace function public.delete_task(p_task_id uuid)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t public.tasks%rowtype;
+begin
+  select * into t from public.tasks where id = p_task_id for update;
+  if not found or t.user_id <> auth.uid() then
+    raise exception 'task not found';
+  end if;
+
+  delete from public.tasks where id = p_task_id;
+
+  return public.apply_points_transaction(t.user_id, -5, 'task_deleted', p_task_id, t.title);
+end;
+$$;
+
+drop function if exists public.reset_points(uuid);
+
+create or replace function public.reset_points(p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  balance int;
+begin
+  if not exists (select 1 from public.user_roles ur where ur.user_id = auth.uid() and ur.role = 'admin') then
+    raise exception 'not authorized';
+  end if;
+  select coalesce(sum(delta), 0) into balance
+  from public.points_transactions
+  where user_id = p_user_id;
+  perform public.apply_points_transaction(p_user_id, -balance, 'admin_reset', null, 'Reset by admin');
+end;
+$$;
+
+-- Ranking straight from the ledger.
+create or replace view public.points_leaderboard as
+  select p.id as user_id,
+         p.username,
+         p.avatar_url,
+         coalesce(sum(pt.delta), 0)::int as points,
+         max(pt.created_at) as last_earned_at
+  from public.profiles p
+  left join public.points_transactions pt on pt.user_id = p.id
+  group by p.id, p.username, p.avatar_url;
+
+create or replace function public.user_activity_for_range(p_user_id uuid, p_start date, p_end date)
+returns table (tasks_completed_count int, logs_count int, points_gained int)
+language sql
+as $$
+  with tasks as (
+    select count(*) cnt from public.tasks
+    where user_id = p_user_id and created_at::date between p_start and p_end and status = 'completed'
+  ), logs as (
+    select count(*) cnt from public.daily_logs
+    where user_id = p_user_id and created_at::date between p_start and p_end
+  ), points as (
+    select coalesce(sum(delta), 0) as gained
+    from public.points_transactions
+    where user_id = p_user_id and created_at::date between p_start and p_end
+  )
+  select coalesce(tasks.cnt,0), coalesce(logs.cnt,0), coalesce(points.gained,0)
+  from tasks, logs, points
+$$;
+
+alter publication supabase_realtime add table public.points_transactions;
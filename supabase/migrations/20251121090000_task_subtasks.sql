@@ -0,0 +1,147 @@
+-- Ordered checklist items inside a task. The parent's completion_percentage
+-- is derived from how many items are ticked.
+create table if not exists public.task_subtasks (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  title text not null,
+  is_done boolean not null default false,
+  position int not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_task_subtasks_task on public.task_subtasks(task_id, position);
+
+alter table public.task_subtasks enable row level security;
+
+create policy task_subtasks_read on public.task_subtasks for select
+  using (
+    exists (
+      select 1 from public.tasks t
+      where t.id = task_id and (t.user_id = auth.uid() or t.is_public = true)
+    )
+  );
+
+create policy task_subtasks_owner_insert on public.task_subtasks for insert
+  with check (
+    exists (select 1 from public.tasks t where t.id = task_id and t.user_id = auth.uid())
+  );
+
+create policy task_subtasks_owner_update on public.task_subtasks for update
+  using (
+    exists (select 1 from public.tasks t where t.id = task_id and t.user_id = auth.uid())
+  );
+
+create policy task_subtasks_owner_delete on public.task_subtasks for delete
+  using (
+    exists (select 1 from public.tasks t where t.id = task_id and t.user_id = auth.uid())
+  );
+
+create trigger update_task_subtasks_updated_at
+  before update on public.task_subtasks
+  for each row
+  execute function public.update_updated_at_column();
+
+-- Percentage of ticked items, or null when the task has no checklist.
+create or replace function public.task_checklist_percentage(p_task_id uuid)
+returns int
+language sql
+stable
+set search_path = public
+as $$
+  select case when count(*) = 0 then null
+              else round(100.0 * count(*) filter (where is_done) / count(*))::int
+         end
+  from public.task_subtasks
+  where task_id = p_task_id
+$$;
+
+create or replace function public.sync_task_completion_from_subtasks()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  tid uuid := coalesce(new.task_id, old.task_id);
+  pct int;
+begin
+  pct := public.task_checklist_percentage(tid);
+  if pct is not null then
+    update public.tasks
+    set completion_percentage = pct
+    where id = tid and status <> 'completed';
+  end if;
+  return null;
+end;
+$$;
+
+create trigger sync_task_completion_from_subtasks
+  after insert or update of is_done or delete on public.task_subtasks
+  for each row
+  execute function public.sync_task_completion_from_subtasks();
+
+-- Status changes from the client must not overwrite the checklist-derived value.
+create or replace function public.keep_checklist_completion()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  pct int;
+begin
+  if new.status <> 'completed' then
+    pct := public.task_checklist_percentage(new.id);
+    if pct is not null then
+      new.completion_percentage := pct;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger keep_checklist_completion
+  before update of status, completion_percentage on public.tasks
+  for each row
+  execute function public.keep_checklist_completion();
+
+-- Completion still requires proof, and now a fully ticked checklist.
+create or replace function public.complete_task(p_task_id uuid, p_proof_url text)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t public.tasks%rowtype;
+begin
+  select * into t from public.tasks where id = p_task_id for update;
+  if not found or t.user_id <> auth.uid() then
+    raise exception 'task not found';
+  end if;
+  if t.status = 'completed' then
+    raise exception 'task already completed';
+  end if;
+  if coalesce(p_proof_url, '') = '' then
+    raise exception 'proof of work is required';
+  end if;
+  if exists (select 1 from public.task_subtasks where task_id = p_task_id and not is_done) then
+    raise exception 'all checklist items must be ticked first';
+  end if;
+
+  update public.tasks
+  set status = 'completed',
+      completion_percentage = 100,
+      proof_of_work_url = p_proof_url,
+      is_active = false
+  where id = p_task_id;
+
+  update public.profiles
+  set active_tasks = greatest(0, coalesce(active_tasks, 0) - 1)
+  where id = t.user_id and active_tasks is not null;
+
+  return public.apply_points_transaction(t.user_id, 10, 'task_completed', p_task_id, t.title);
+end;
+$$;
+
+alter publication supabase_realtime add table public.task_subtasks;
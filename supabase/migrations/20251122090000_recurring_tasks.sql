@@ -0,0 +1,227 @@
+-- Recurring tasks: a series holds the repeat rule, and each occurrence is a
+-- regular row in public.tasks so proof upload and points work unchanged.
+create table if not exists public.task_series (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  title text not null,
+  description text,
+  priority text check (priority in ('high', 'medium', 'low')) default 'medium',
+  is_public boolean default false,
+  frequency text not null check (frequency in ('daily', 'weekdays', 'weekly', 'interval')),
+  interval_days int check (interval_days is null or interval_days >= 1),
+  weekdays int[] check (weekdays is null or weekdays <@ array[0,1,2,3,4,5,6]),
+  start_date date not null default current_date,
+  until_date date,
+  max_count int check (max_count is null or max_count >= 1),
+  occurrences int not null default 0,
+  last_due date,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  check (frequency <> 'interval' or interval_days is not null),
+  check (frequency <> 'weekly' or cardinality(weekdays) > 0)
+);
+
+alter table public.tasks
+  add column if not exists series_id uuid references public.task_series(id) on delete set null;
+
+create index if not exists idx_tasks_series on public.tasks(series_id);
+create index if not exists idx_task_series_user on public.task_series(user_id);
+
+alter table public.task_series enable row level security;
+
+create policy task_series_owner_read on public.task_series for select
+  using (auth.uid() = user_id);
+
+create policy task_series_owner_update on public.task_series for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy task_series_owner_delete on public.task_series for delete
+  using (auth.uid() = user_id);
+
+-- First date strictly after p_after that matches the rule.
+-- weekdays uses extract(dow): 0 = Sunday .. 6 = Saturday.
+create or replace function public.task_series_next_date(
+  p_frequency text,
+  p_interval_days int,
+  p_weekdays int[],
+  p_after date
+)
+returns date
+language plpgsql
+immutable
+set search_path = public
+as $$
+declare
+  d date := p_after + 1;
+begin
+  if p_frequency = 'daily' then
+    return d;
+  elsif p_frequency = 'interval' then
+    return p_after + p_interval_days;
+  elsif p_frequency = 'weekdays' then
+    while extract(isodow from d) > 5 loop
+      d := d + 1;
+    end loop;
+    return d;
+  elsif p_frequency = 'weekly' then
+    for i in 0..6 loop
+      if extract(dow from d)::int = any(p_weekdays) then
+        return d;
+      end if;
+      d := d + 1;
+    end loop;
+  end if;
+  raise exception 'invalid recurrence rule';
+end;
+$$;
+
+-- Create the next occurrence of a series, no earlier than p_not_before.
+-- Does nothing when an open occurrence already covers that date, and
+-- deactivates the series once its until date or count is reached. Series
+-- run on UTC days, so an occurrence is due at the end of its UTC day.
+create or replace function public.spawn_series_task(p_series_id uuid, p_not_before date default null)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.task_series%rowtype;
+  due date;
+  new_id uuid;
+begin
+  select * into s from public.task_series where id = p_series_id for update;
+  if not found or not s.is_active then
+    return null;
+  end if;
+
+  if exists (
+    select 1 from public.tasks
+    where series_id = s.id
+      and status <> 'completed'
+      and (deadline at time zone 'UTC')::date >= coalesce(p_not_before, s.start_date)
+  ) then
+    return null;
+  end if;
+
+  if s.last_due is null then
+    due := case when s.frequency in ('daily', 'interval') then s.start_date
+                else public.task_series_next_date(s.frequency, s.interval_days, s.weekdays, s.start_date - 1)
+           end;
+  else
+    due := public.task_series_next_date(s.frequency, s.interval_days, s.weekdays, s.last_due);
+  end if;
+
+  while p_not_before is not null and due < p_not_before loop
+    due := public.task_series_next_date(s.frequency, s.interval_days, s.weekdays, due);
+  end loop;
+
+  if (s.until_date is not null and due > s.until_date)
+     or (s.max_count is not null and s.occurrences >= s.max_count) then
+    update public.task_series set is_active = false where id = s.id;
+    return null;
+  end if;
+
+  insert into public.tasks (user_id, title, description, priority, is_public, deadline, status, completion_percentage, series_id)
+  values (s.user_id, s.title, s.description, s.priority, s.is_public, ((due + 1) - interval '1 second') at time zone 'UTC', 'todo', 0, s.id)
+  returning id into new_id;
+
+  update public.task_series
+  set occurrences = occurrences + 1,
+      last_due = due
+  where id = s.id;
+
+  return new_id;
+end;
+$$;
+
+revoke execute on function public.spawn_series_task(uuid, date) from public, anon, authenticated;
+
+-- Create a series for the current user and return its first task.
+create or replace function public.create_recurring_task(
+  p_title text,
+  p_frequency text,
+  p_description text default null,
+  p_priority text default 'medium',
+  p_is_public boolean default false,
+  p_interval_days int default null,
+  p_weekdays int[] default null,
+  p_start_date date default null,
+  p_until_date date default null,
+  p_max_count int default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  sid uuid;
+  tid uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated';
+  end if;
+
+  insert into public.task_series (
+    user_id, title, description, priority, is_public, frequency, interval_days, weekdays, start_date, until_date, max_count
+  ) values (
+    auth.uid(), p_title, p_description, p_priority, p_is_public, p_frequency, p_interval_days, p_weekdays,
+    coalesce(p_start_date, current_date), p_until_date, p_max_count
+  )
+  returning id into sid;
+
+  tid := public.spawn_series_task(sid);
+  if tid is null then
+    raise exception 'recurrence rule produces no occurrences';
+  end if;
+  return tid;
+end;
+$$;
+
+-- Completing an occurrence (through complete_task) queues the next one.
+create or replace function public.spawn_next_on_completion()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.spawn_series_task(new.series_id, current_date);
+  return null;
+end;
+$$;
+
+create trigger spawn_next_on_completion
+  after update of status on public.tasks
+  for each row
+  when (new.series_id is not null and new.status = 'completed' and old.status is distinct from 'completed')
+  execute function public.spawn_next_on_completion();
+
+-- Daily roll-over: series whose current period has passed get today's occurrence.
+create or replace function public.job_roll_recurring_tasks()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  sid uuid;
+begin
+  for sid in
+    select s.id from public.task_series s
+    where s.is_active and s.last_due < current_date
+  loop
+    perform public.spawn_series_task(sid, current_date);
+  end loop;
+end;
+$$;
+
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('roll-recurring-tasks', '5 0 * * *', 'select public.job_roll_recurring_tasks()');
+  end if;
+end;
+$$;
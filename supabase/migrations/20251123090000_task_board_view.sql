@@ -0,0 +1,4 @@
+-- Remember whether each member looks at their tasks as a list or a board.
+alter table public.user_ui_settings
+  add column if not exists task_view text not null default 'list'
+  check (task_view in ('list', 'board'));
@@ -0,0 +1,264 @@
+-- Proof-of-work review: an uploaded proof puts the task in pending_review and
+-- points are only granted once an admin, moderator or the assigned peer approves.
+alter table public.tasks drop constraint if exists tasks_status_check;
+alter table public.tasks add constraint tasks_status_check
+  check (status in ('todo', 'in_progress', 'pending_review', 'completed'));
+
+create table if not exists public.task_reviews (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  submitted_by uuid not null references public.profiles(id) on delete cascade,
+  reviewer_id uuid references public.profiles(id) on delete set null,
+  proof_url text not null,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  comment text,
+  decided_by uuid references public.profiles(id) on delete set null,
+  decided_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_task_reviews_task on public.task_reviews(task_id, created_at desc);
+create index if not exists idx_task_reviews_pending on public.task_reviews(reviewer_id) where status = 'pending';
+
+alter table public.task_reviews enable row level security;
+
+create policy task_reviews_participant_read on public.task_reviews for select
+  using (auth.uid() = submitted_by or auth.uid() = reviewer_id);
+
+create policy task_reviews_staff_read on public.task_reviews for select
+  using (
+    exists (
+      select 1 from public.user_roles ur
+      where ur.user_id = auth.uid() and ur.role in ('admin', 'moderator')
+    )
+  );
+
+-- Like profiles.points, these statuses are only reachable through the review
+-- functions, and only those functions move a task out of them again: a
+-- completed task reopened by hand could be submitted and paid a second time.
+create or replace function public.guard_task_review_status()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.status is distinct from old.status
+     and coalesce(current_setting('app.task_review', true), '') <> 'on' then
+    if new.status in ('pending_review', 'completed') then
+      raise exception 'task completion requires a reviewed proof of work';
+    end if;
+    if old.status in ('pending_review', 'completed') then
+      raise exception 'a task in review or completed can only change through the review';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger guard_task_review_status
+  before update of status on public.tasks
+  for each row
+  execute function public.guard_task_review_status();
+
+-- Internal: mark completed, award +10 and share the completion post.
+create or replace function public.finalize_task_completion(p_task_id uuid)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t public.tasks%rowtype;
+begin
+  select * into t from public.tasks where id = p_task_id for update;
+
+  perform set_config('app.task_review', 'on', true);
+  update public.tasks
+  set status = 'completed',
+      completion_percentage = 100,
+      is_active = false
+  where id = p_task_id;
+  perform set_config('app.task_review', 'off', true);
+
+  update public.profiles
+  set active_tasks = greatest(0, coalesce(active_tasks, 0) - 1)
+  where id = t.user_id and active_tasks is not null;
+
+  if t.is_public then
+    insert into public.blog_posts (user_id, title, content, task_id, tags, image_url)
+    values (
+      t.user_id,
+      '✅ Completed: ' || coalesce(t.title, 'A Task'),
+      coalesce(t.description, '') || E'\n\n✅ Task completed successfully! 🎯\n\n![Proof of Work]',
+      t.id,
+      array['accountability', 'task-completion'],
+      t.proof_of_work_url
+    );
+  end if;
+
+  return public.apply_points_transaction(t.user_id, 10, 'task_completed', p_task_id, t.title);
+end;
+$$;
+
+revoke execute on function public.finalize_task_completion(uuid) from public, anon, authenticated;
+
+-- Completion now goes through review.
+drop function if exists public.complete_task(uuid, text);
+
+-- Owner submits proof; a random other member is assigned as peer reviewer.
+create or replace function public.submit_task_proof(p_task_id uuid, p_proof_url text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t public.tasks%rowtype;
+  peer uuid;
+  rid uuid;
+begin
+  select * into t from public.tasks where id = p_task_id for update;
+  if not found or t.user_id <> auth.uid() then
+    raise exception 'task not found';
+  end if;
+  if t.status in ('completed', 'pending_review') then
+    raise exception 'task already submitted';
+  end if;
+  if coalesce(p_proof_url, '') = '' then
+    raise exception 'proof of work is required';
+  end if;
+  if exists (select 1 from public.task_subtasks where task_id = p_task_id and not is_done) then
+    raise exception 'all checklist items must be ticked first';
+  end if;
+
+  select p.id into peer
+  from public.profiles p
+  where p.id <> t.user_id
+  order by random()
+  limit 1;
+
+  perform set_config('app.task_review', 'on', true);
+  update public.tasks
+  set status = 'pending_review',
+      proof_of_work_url = p_proof_url
+  where id = p_task_id;
+  perform set_config('app.task_review', 'off', true);
+
+  insert into public.task_reviews (task_id, submitted_by, reviewer_id, proof_url)
+  values (p_task_id, t.user_id, peer, p_proof_url)
+  returning id into rid;
+
+  if peer is not null then
+    perform public.notify_create(
+      p_user_id => peer,
+      p_actor_id => t.user_id,
+      p_type => 'proof_review_requested',
+      p_title => 'Review a proof of work',
+      p_body => t.title,
+      p_reference_id => rid
+    );
+  end if;
+
+  return rid;
+end;
+$$;
+
+-- Approve or reject a pending proof. Approval grants points; rejection sends
+-- the task back to in_progress. The member is notified either way.
+create or replace function public.review_task_proof(p_review_id uuid, p_approve boolean, p_comment text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r public.task_reviews%rowtype;
+  t public.tasks%rowtype;
+  is_staff boolean;
+begin
+  select * into r from public.task_reviews where id = p_review_id for update;
+  if not found or r.status <> 'pending' then
+    raise exception 'review not found';
+  end if;
+
+  is_staff := exists (
+    select 1 from public.user_roles ur
+    where ur.user_id = auth.uid() and ur.role in ('admin', 'moderator')
+  );
+  if auth.uid() = r.submitted_by or not (is_staff or auth.uid() = r.reviewer_id) then
+    raise exception 'not authorized';
+  end if;
+
+  if not p_approve and coalesce(trim(p_comment), '') = '' then
+    raise exception 'a comment is required when rejecting';
+  end if;
+
+  update public.task_reviews
+  set status = case when p_approve then 'approved' else 'rejected' end,
+      comment = nullif(trim(p_comment), ''),
+      decided_by = auth.uid(),
+      decided_at = now()
+  where id = p_review_id;
+
+  select * into t from public.tasks where id = r.task_id for update;
+  if not found or t.status <> 'pending_review' then
+    raise exception 'task is no longer waiting for review';
+  end if;
+
+  if p_approve then
+    perform public.finalize_task_completion(r.task_id);
+  else
+    perform set_config('app.task_review', 'on', true);
+    update public.tasks
+    set status = 'in_progress',
+        proof_of_work_url = null
+    where id = r.task_id;
+    perform set_config('app.task_review', 'off', true);
+  end if;
+
+  perform public.notify_create(
+    p_user_id => r.submitted_by,
+    p_actor_id => auth.uid(),
+    p_type => case when p_approve then 'proof_approved' else 'proof_rejected' end,
+    p_title => case when p_approve then 'Proof approved — +10 points' else 'Proof rejected' end,
+    p_body => coalesce(nullif(trim(p_comment), ''), t.title),
+    p_reference_id => r.task_id
+  );
+end;
+$$;
+
+-- Pending reviews the caller may decide: everything for staff, assigned ones for peers.
+create or replace function public.get_review_queue()
+returns table (
+  review_id uuid,
+  task_id uuid,
+  task_title text,
+  task_description text,
+  proof_url text,
+  submitted_by uuid,
+  submitter_username text,
+  reviewer_id uuid,
+  created_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select r.id, t.id, t.title, t.description, r.proof_url, r.submitted_by, p.username, r.reviewer_id, r.created_at
+  from public.task_reviews r
+  join public.tasks t on t.id = r.task_id
+  join public.profiles p on p.id = r.submitted_by
+  where r.status = 'pending'
+    and r.submitted_by <> auth.uid()
+    and (
+      r.reviewer_id = auth.uid()
+      or exists (
+        select 1 from public.user_roles ur
+        where ur.user_id = auth.uid() and ur.role in ('admin', 'moderator')
+      )
+    )
+  order by r.created_at
+$$;
+
+alter publication supabase_realtime add table public.task_reviews;
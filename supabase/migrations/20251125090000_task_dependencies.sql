@@ -0,0 +1,180 @@
+-- "B is blocked until A is done": a task may list other tasks of the same
+-- owner as blockers. tasks.is_blocked is derived and kept in sync by triggers.
+create table if not exists public.task_dependencies (
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  blocked_by uuid not null references public.tasks(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (task_id, blocked_by),
+  check (task_id <> blocked_by)
+);
+
+create index if not exists idx_task_dependencies_blocked_by on public.task_dependencies(blocked_by);
+
+alter table public.tasks
+  add column if not exists is_blocked boolean not null default false;
+
+alter table public.task_dependencies enable row level security;
+
+create policy task_dependencies_owner_read on public.task_dependencies for select
+  using (
+    exists (select 1 from public.tasks t where t.id = task_id and t.user_id = auth.uid())
+  );
+
+create policy task_dependencies_owner_insert on public.task_dependencies for insert
+  with check (
+    exists (select 1 from public.tasks t where t.id = task_id and t.user_id = auth.uid())
+  );
+
+create policy task_dependencies_owner_delete on public.task_dependencies for delete
+  using (
+    exists (select 1 from public.tasks t where t.id = task_id and t.user_id = auth.uid())
+  );
+
+-- True while any blocker is not completed yet.
+create or replace function public.task_is_blocked(p_task_id uuid)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.task_dependencies d
+    join public.tasks b on b.id = d.blocked_by
+    where d.task_id = p_task_id and b.status is distinct from 'completed'
+  )
+$$;
+
+-- Same owner only, and no cycles: the new blocker must not (transitively)
+-- already be waiting on the task it is meant to block.
+create or replace function public.check_task_dependency()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (select user_id from public.tasks where id = new.task_id)
+     is distinct from (select user_id from public.tasks where id = new.blocked_by) then
+    raise exception 'blockers must be your own tasks';
+  end if;
+
+  if exists (
+    with recursive chain(id) as (
+      select new.blocked_by
+      union
+      select d.blocked_by
+      from public.task_dependencies d
+      join chain c on d.task_id = c.id
+    )
+    select 1 from chain where id = new.task_id
+  ) then
+    raise exception 'this dependency would create a cycle';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger check_task_dependency
+  before insert or update on public.task_dependencies
+  for each row
+  execute function public.check_task_dependency();
+
+-- is_blocked is never taken from the client; blocked tasks cannot be started
+-- or submitted for review.
+create or replace function public.guard_blocked_task()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.is_blocked := public.task_is_blocked(new.id);
+
+  if new.is_blocked and new.status is distinct from old.status
+     and (new.status = 'pending_review' or (new.status = 'in_progress' and old.status = 'todo')) then
+    raise exception 'task is blocked by unfinished tasks';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger guard_blocked_task
+  before update on public.tasks
+  for each row
+  execute function public.guard_blocked_task();
+
+create or replace function public.refresh_task_blocked(p_task_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- guard_blocked_task recomputes the flag on any update
+  update public.tasks set is_blocked = is_blocked where id = p_task_id;
+end;
+$$;
+
+revoke execute on function public.refresh_task_blocked(uuid) from public, anon, authenticated;
+
+create or replace function public.sync_blocked_on_dependency_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.refresh_task_blocked(coalesce(new.task_id, old.task_id));
+  return null;
+end;
+$$;
+
+create trigger sync_blocked_on_dependency_change
+  after insert or delete on public.task_dependencies
+  for each row
+  execute function public.sync_blocked_on_dependency_change();
+
+-- Completing a blocker unblocks its dependents; the owner is told which
+-- tasks are ready to start (useful when completion lands after a review).
+create or replace function public.unblock_dependents_on_completion()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  dep record;
+begin
+  for dep in
+    select t.id, t.user_id, t.title
+    from public.task_dependencies d
+    join public.tasks t on t.id = d.task_id
+    where d.blocked_by = new.id and t.is_blocked
+  loop
+    perform public.refresh_task_blocked(dep.id);
+
+    if not (select is_blocked from public.tasks where id = dep.id) then
+      perform public.notify_create(
+        p_user_id => dep.user_id,
+        p_actor_id => new.user_id,
+        p_type => 'task_unblocked',
+        p_title => 'Task ready to start',
+        p_body => dep.title,
+        p_reference_id => dep.id
+      );
+    end if;
+  end loop;
+
+  return null;
+end;
+$$;
+
+create trigger unblock_dependents_on_completion
+  after update of status on public.tasks
+  for each row
+  when (new.status = 'completed' and old.status is distinct from 'completed')
+  execute function public.unblock_dependents_on_completion();
+
+alter publication supabase_realtime add table public.task_dependencies;
@@ -0,0 +1,164 @@
+-- Focus (Pomodoro) sessions logged against a task. An entry with no ended_at
+-- is the member's running timer, which lets the UI resume it after a reload.
+create table if not exists public.task_time_entries (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  started_at timestamptz not null default now(),
+  ended_at timestamptz,
+  planned_minutes int not null default 25 check (planned_minutes between 1 and 180),
+  duration_seconds int,
+  created_at timestamptz not null default now(),
+  check (ended_at is null or ended_at >= started_at)
+);
+
+create index if not exists idx_task_time_entries_task on public.task_time_entries(task_id);
+create index if not exists idx_task_time_entries_user_started on public.task_time_entries(user_id, started_at);
+-- one running timer per member
+create unique index if not exists task_time_entries_one_running
+  on public.task_time_entries(user_id) where ended_at is null;
+
+alter table public.task_time_entries enable row level security;
+
+create policy task_time_entries_owner_read on public.task_time_entries for select
+  using (auth.uid() = user_id);
+
+create policy task_time_entries_owner_insert on public.task_time_entries for insert
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.tasks t where t.id = task_id and t.user_id = auth.uid())
+  );
+
+create policy task_time_entries_owner_update on public.task_time_entries for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.tasks t where t.id = task_id and t.user_id = auth.uid())
+  );
+
+create policy task_time_entries_owner_delete on public.task_time_entries for delete
+  using (auth.uid() = user_id);
+
+-- The timestamps are the server's: a session starts when it is inserted and
+-- ends when it is stopped, or at its planned end if it was left running.
+-- The duration is derived from them, never trusted from the client.
+create or replace function public.set_time_entry_duration()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.started_at := now();
+    new.ended_at := null;
+  else
+    if new.task_id is distinct from old.task_id
+       or new.user_id is distinct from old.user_id
+       or new.started_at is distinct from old.started_at
+       or new.planned_minutes is distinct from old.planned_minutes then
+      raise exception 'a focus session can only be stopped';
+    end if;
+
+    if old.ended_at is not null then
+      new.ended_at := old.ended_at;
+    elsif new.ended_at is not null then
+      new.ended_at := least(now(), old.started_at + make_interval(mins => old.planned_minutes));
+    end if;
+  end if;
+
+  if new.ended_at is null then
+    new.duration_seconds := null;
+  else
+    new.duration_seconds := greatest(0, extract(epoch from (new.ended_at - new.started_at)))::int;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger set_time_entry_duration
+  before insert or update on public.task_time_entries
+  for each row
+  execute function public.set_time_entry_duration();
+
+alter table public.weekly_reports
+  add column if not exists focused_hours numeric(6, 1);
+
+-- Return type gains focused_hours, so the function has to be recreated.
+drop function if exists public.get_weekly_metrics(uuid, date);
+
+create or replace function public.get_weekly_metrics(p_user_id uuid, p_week_start date)
+returns table (
+  tasks_completed_count int,
+  logs_count int,
+  posts_count int,
+  messages_count int,
+  focused_hours numeric
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    (select count(*)::int from public.tasks
+      where user_id = p_user_id and status = 'completed'
+        and updated_at >= p_week_start and updated_at < p_week_start + 7),
+    (select count(*)::int from public.daily_logs
+      where user_id = p_user_id
+        and created_at >= p_week_start and created_at < p_week_start + 7),
+    (select count(*)::int from public.blog_posts
+      where user_id = p_user_id
+        and created_at >= p_week_start and created_at < p_week_start + 7),
+    (select count(*)::int from public.messages
+      where user_id = p_user_id
+        and created_at >= p_week_start and created_at < p_week_start + 7),
+    (select round(coalesce(sum(duration_seconds), 0) / 3600.0, 1) from public.task_time_entries
+      where user_id = p_user_id and ended_at is not null
+        and started_at >= p_week_start and started_at < p_week_start + 7)
+$$;
+
+-- Weekly reports now carry the week's measured activity alongside the admin's notes.
+create or replace function public.upsert_weekly_report(
+  p_user_id uuid,
+  p_week_start date,
+  p_week_end date default null,
+  p_summary text default null,
+  p_achievements text[] default null,
+  p_improvements text[] default null,
+  p_points_gained int default null,
+  p_goals_next_week text[] default null
+)
+returns uuid
+language plpgsql
+security definer
+as $$
+declare
+  rid uuid;
+  m record;
+begin
+  if not exists (select 1 from public.user_roles ur where ur.user_id = auth.uid() and ur.role = 'admin') then
+    raise exception 'not authorized';
+  end if;
+  select * into m from public.get_weekly_metrics(p_user_id, p_week_start);
+  insert into public.weekly_reports as wr (
+    user_id, week_start, week_end, summary, achievements, improvements, points_gained, goals_next_week,
+    tasks_completed_count, logs_count, focused_hours, created_by
+  ) values (
+    p_user_id, p_week_start, p_week_end, p_summary, p_achievements, p_improvements, p_points_gained, p_goals_next_week,
+    m.tasks_completed_count, m.logs_count, m.focused_hours, auth.uid()
+  )
+  on conflict (user_id, week_start)
+  do update set
+    week_end = excluded.week_end,
+    summary = excluded.summary,
+    achievements = excluded.achievements,
+    improvements = excluded.improvements,
+    points_gained = excluded.points_gained,
+    goals_next_week = excluded.goals_next_week,
+    tasks_completed_count = excluded.tasks_completed_count,
+    logs_count = excluded.logs_count,
+    focused_hours = excluded.focused_hours,
+    created_by = excluded.created_by
+  returning id into rid;
+  return rid;
+end;
+$$;
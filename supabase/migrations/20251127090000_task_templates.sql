@@ -0,0 +1,70 @@
+-- Reusable task templates. Members keep their own; admins can publish
+-- community templates that every member can use or import.
+create table if not exists public.task_templates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  title text not null,
+  description text,
+  priority text not null default 'medium' check (priority in ('high', 'medium', 'low')),
+  deadline_offset_days int check (deadline_offset_days >= 0),
+  checklist text[] not null default '{}',
+  is_community boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_task_templates_user on public.task_templates(user_id);
+create index if not exists idx_task_templates_community on public.task_templates(is_community) where is_community;
+
+alter table public.task_templates enable row level security;
+
+create policy task_templates_read on public.task_templates for select
+  using (auth.uid() = user_id or is_community);
+
+-- only admins may publish
+create policy task_templates_owner_insert on public.task_templates for insert
+  with check (
+    auth.uid() = user_id
+    and (
+      not is_community
+      or exists (
+        select 1 from public.user_roles ur
+        where ur.user_id = auth.uid() and ur.role = 'admin'
+      )
+    )
+  );
+
+create policy task_templates_owner_update on public.task_templates for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (
+      not is_community
+      or exists (
+        select 1 from public.user_roles ur
+        where ur.user_id = auth.uid() and ur.role = 'admin'
+      )
+    )
+  );
+
+create policy task_templates_admin_update on public.task_templates for update
+  using (
+    exists (
+      select 1 from public.user_roles ur
+      where ur.user_id = auth.uid() and ur.role = 'admin'
+    )
+  );
+
+create policy task_templates_owner_delete on public.task_templates for delete
+  using (
+    auth.uid() = user_id
+    or exists (
+      select 1 from public.user_roles ur
+      where ur.user_id = auth.uid() and ur.role = 'admin'
+    )
+  );
+
+create trigger update_task_templates_updated_at
+  before update on public.task_templates
+  for each row
+  execute function public.update_updated_at_column();
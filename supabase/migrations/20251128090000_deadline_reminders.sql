@@ -0,0 +1,104 @@
+-- Deadline reminders: each member picks offsets (minutes before tasks.deadline,
+-- 24h and 1h by default) and job_notify_task_deadlines sends one notification
+-- per task and offset. When several offsets are already due at once (a task
+-- created close to its deadline), only the closest one is sent.
+alter table public.user_ui_settings
+  add column if not exists reminder_offsets int[] not null default '{1440,60}';
+
+-- One row per reminder sent; the primary key is the dedupe guarantee. The rows
+-- are cleared when the deadline moves, so the reminders fire again for it.
+create table if not exists public.task_deadline_reminders (
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  offset_minutes int not null check (offset_minutes > 0),
+  sent_at timestamptz not null default now(),
+  primary key (task_id, offset_minutes)
+);
+
+alter table public.task_deadline_reminders enable row level security;
+
+create policy task_deadline_reminders_owner_read on public.task_deadline_reminders for select
+  using (
+    exists (select 1 from public.tasks t where t.id = task_id and t.user_id = auth.uid())
+  );
+
+create or replace function public.reset_task_deadline_reminders()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.task_deadline_reminders where task_id = new.id;
+  return null;
+end;
+$$;
+
+create trigger reset_task_deadline_reminders
+  after update of deadline on public.tasks
+  for each row
+  when (new.deadline is distinct from old.deadline)
+  execute function public.reset_task_deadline_reminders();
+
+create or replace function public.job_notify_task_deadlines()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+  sent int;
+  minutes_left int;
+begin
+  for r in
+    select t.id, t.user_id, t.title, t.deadline,
+           array_agg(o.offset_minutes order by o.offset_minutes) as offsets
+    from public.tasks t
+    left join public.user_ui_settings s on s.user_id = t.user_id
+    cross join lateral unnest(coalesce(s.reminder_offsets, '{1440,60}'::int[])) as o(offset_minutes)
+    where t.deadline is not null
+      and t.status in ('todo', 'in_progress')
+      and o.offset_minutes > 0
+      and now() >= t.deadline - make_interval(mins => o.offset_minutes)
+      and now() < t.deadline
+    group by t.id
+  loop
+    insert into public.task_deadline_reminders (task_id, offset_minutes)
+    values (r.id, r.offsets[1])
+    on conflict do nothing;
+    get diagnostics sent = row_count;
+    continue when sent = 0;
+
+    -- the longer offsets this one supersedes are never sent
+    insert into public.task_deadline_reminders (task_id, offset_minutes)
+    select r.id, x from unnest(r.offsets[2:]) x
+    on conflict do nothing;
+
+    minutes_left := ceil(extract(epoch from (r.deadline - now())) / 60)::int;
+
+    perform public.notify_create(
+      p_user_id => r.user_id,
+      p_actor_id => r.user_id,
+      p_type => 'task_deadline',
+      p_title => case
+        when minutes_left >= 1440 then 'Due in ' || round(minutes_left / 1440.0) || 'd'
+        when minutes_left >= 60 then 'Due in ' || round(minutes_left / 60.0) || 'h'
+        else 'Due in ' || minutes_left || 'm'
+      end,
+      p_body => r.title,
+      p_reference_id => r.id,
+      p_meta => jsonb_build_object('offset_minutes', r.offsets[1], 'deadline', r.deadline)
+    );
+  end loop;
+end;
+$$;
+
+revoke execute on function public.job_notify_task_deadlines() from public, anon, authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('notify-task-deadlines', '*/5 * * * *', 'select public.job_notify_task_deadlines()');
+  end if;
+end;
+$$;
@@ -0,0 +1,5 @@
+-- Free-form tags on tasks (#work, #health, ...), same shape as blog_posts.tags.
+alter table public.tasks
+  add column if not exists tags text[] not null default '{}';
+
+create index if not exists idx_tasks_tags on public.tasks using gin (tags);
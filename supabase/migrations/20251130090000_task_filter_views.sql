@@ -0,0 +1,26 @@
+-- Named TaskList filter views (tag, priority, deadline range, status), reopened
+-- from the dashboard sidebar. filters holds the client's TaskFilters object.
+create table if not exists public.task_filter_views (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  filters jsonb not null default '{}',
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+alter table public.task_filter_views enable row level security;
+
+create policy task_filter_views_owner_read on public.task_filter_views for select
+  using (auth.uid() = user_id);
+
+create policy task_filter_views_owner_insert on public.task_filter_views for insert
+  with check (auth.uid() = user_id);
+
+create policy task_filter_views_owner_update on public.task_filter_views for update
+  using (auth.uid() = user_id);
+
+create policy task_filter_views_owner_delete on public.task_filter_views for delete
+  using (auth.uid() = user_id);
+
+alter publication supabase_realtime add table public.task_filter_views;
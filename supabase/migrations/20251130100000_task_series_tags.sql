@@ -0,0 +1,106 @@
+-- Recurring tasks carry their tags onto every occurrence: task_series gets the
+-- same tags column as tasks, and the spawn / create functions pass it through.
+alter table public.task_series
+  add column if not exists tags text[] not null default '{}';
+
+-- Same as before, with the series' tags copied onto the new occurrence.
+create or replace function public.spawn_series_task(p_series_id uuid, p_not_before date default null)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.task_series%rowtype;
+  due date;
+  new_id uuid;
+begin
+  select * into s from public.task_series where id = p_series_id for update;
+  if not found or not s.is_active then
+    return null;
+  end if;
+
+  if exists (
+    select 1 from public.tasks
+    where series_id = s.id
+      and status <> 'completed'
+      and (deadline at time zone 'UTC')::date >= coalesce(p_not_before, s.start_date)
+  ) then
+    return null;
+  end if;
+
+  if s.last_due is null then
+    due := case when s.frequency in ('daily', 'interval') then s.start_date
+                else public.task_series_next_date(s.frequency, s.interval_days, s.weekdays, s.start_date - 1)
+           end;
+  else
+    due := public.task_series_next_date(s.frequency, s.interval_days, s.weekdays, s.last_due);
+  end if;
+
+  while p_not_before is not null and due < p_not_before loop
+    due := public.task_series_next_date(s.frequency, s.interval_days, s.weekdays, due);
+  end loop;
+
+  if (s.until_date is not null and due > s.until_date)
+     or (s.max_count is not null and s.occurrences >= s.max_count) then
+    update public.task_series set is_active = false where id = s.id;
+    return null;
+  end if;
+
+  insert into public.tasks (user_id, title, description, priority, is_public, tags, deadline, status, completion_percentage, series_id)
+  values (s.user_id, s.title, s.description, s.priority, s.is_public, s.tags, ((due + 1) - interval '1 second') at time zone 'UTC', 'todo', 0, s.id)
+  returning id into new_id;
+
+  update public.task_series
+  set occurrences = occurrences + 1,
+      last_due = due
+  where id = s.id;
+
+  return new_id;
+end;
+$$;
+
+drop function if exists public.create_recurring_task(text, text, text, text, boolean, int, int[], date, date, int);
+
+-- Create a series for the current user and return its first task.
+create or replace function public.create_recurring_task(
+  p_title text,
+  p_frequency text,
+  p_description text default null,
+  p_priority text default 'medium',
+  p_is_public boolean default false,
+  p_interval_days int default null,
+  p_weekdays int[] default null,
+  p_start_date date default null,
+  p_until_date date default null,
+  p_max_count int default null,
+  p_tags text[] default '{}'
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  sid uuid;
+  tid uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated';
+  end if;
+
+  insert into public.task_series (
+    user_id, title, description, priority, is_public, tags, frequency, interval_days, weekdays, start_date, until_date, max_count
+  ) values (
+    auth.uid(), p_title, p_description, p_priority, p_is_public, coalesce(p_tags, '{}'), p_frequency, p_interval_days, p_weekdays,
+    coalesce(p_start_date, current_date), p_until_date, p_max_count
+  )
+  returning id into sid;
+
+  tid := public.spawn_series_task(sid);
+  if tid is null then
+    raise exception 'recurrence rule produces no occurrences';
+  end if;
+  return tid;
+end;
+$$;
@@ -0,0 +1,36 @@
+-- Bulk delete from TaskList's multi-select: every task and its -5 penalty go
+-- through one call, so either all of them are deleted and charged or none are.
+create or replace function public.delete_tasks(p_task_ids uuid[])
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t public.tasks%rowtype;
+  total int := 0;
+  wanted int := coalesce(array_length(p_task_ids, 1), 0);
+  found_count int := 0;
+begin
+  if wanted = 0 then
+    return 0;
+  end if;
+
+  for t in
+    select * from public.tasks
+    where id = any(p_task_ids) and user_id = auth.uid()
+    order by created_at
+    for update
+  loop
+    found_count := found_count + 1;
+    delete from public.tasks where id = t.id;
+    total := total + public.apply_points_transaction(t.user_id, -5, 'task_deleted', t.id, t.title);
+  end loop;
+
+  if found_count <> (select count(distinct x) from unnest(p_task_ids) x) then
+    raise exception 'task not found';
+  end if;
+
+  return total;
+end;
+$$;
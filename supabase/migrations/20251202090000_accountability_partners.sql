@@ -0,0 +1,492 @@
+-- Accountability partners: members pair up (by request or admin assignment),
+-- see each other's open tasks, get told about missed deadlines, nudge each
+-- other and co-sign pending proofs of work.
+create table if not exists public.accountability_partners (
+  id uuid primary key default gen_random_uuid(),
+  requester_id uuid not null references public.profiles(id) on delete cascade,
+  addressee_id uuid not null references public.profiles(id) on delete cascade,
+  status text not null default 'pending' check (status in ('pending', 'accepted')),
+  assigned_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  accepted_at timestamptz,
+  check (requester_id <> addressee_id)
+);
+
+-- One partnership per pair, whichever side asked.
+create unique index if not exists uq_accountability_partners_pair
+  on public.accountability_partners (least(requester_id, addressee_id), greatest(requester_id, addressee_id));
+
+alter table public.accountability_partners enable row level security;
+
+create policy accountability_partners_member_read on public.accountability_partners for select
+  using (auth.uid() in (requester_id, addressee_id));
+
+create policy accountability_partners_admin_read on public.accountability_partners for select
+  using (
+    exists (
+      select 1 from public.user_roles ur
+      where ur.user_id = auth.uid() and ur.role = 'admin'
+    )
+  );
+
+-- No insert/update/delete policies: rows are only written by the functions below.
+
+alter publication supabase_realtime add table public.accountability_partners;
+
+create or replace function public.are_partners(p_a uuid, p_b uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.accountability_partners ap
+    where ap.status = 'accepted'
+      and least(ap.requester_id, ap.addressee_id) = least(p_a, p_b)
+      and greatest(ap.requester_id, ap.addressee_id) = greatest(p_a, p_b)
+  )
+$$;
+
+-- Partners see each other's open tasks, private ones included.
+create policy tasks_partner_read on public.tasks for select
+  using (
+    status in ('todo', 'in_progress', 'pending_review')
+    and public.are_partners(auth.uid(), user_id)
+  );
+
+-- Ask someone to be your partner. If they already asked you, this accepts.
+create or replace function public.request_partner(p_user_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ap public.accountability_partners%rowtype;
+  pid uuid;
+begin
+  if auth.uid() is null or p_user_id = auth.uid() then
+    raise exception 'invalid partner';
+  end if;
+
+  select * into ap from public.accountability_partners
+  where least(requester_id, addressee_id) = least(auth.uid(), p_user_id)
+    and greatest(requester_id, addressee_id) = greatest(auth.uid(), p_user_id)
+  for update;
+
+  if found then
+    if ap.status = 'pending' and ap.addressee_id = auth.uid() then
+      perform public.respond_partner_request(ap.id, true);
+    end if;
+    return ap.id;
+  end if;
+
+  insert into public.accountability_partners (requester_id, addressee_id)
+  values (auth.uid(), p_user_id)
+  returning id into pid;
+
+  perform public.notify_create(
+    p_user_id => p_user_id,
+    p_actor_id => auth.uid(),
+    p_type => 'partner_request',
+    p_title => 'Accountability partner request',
+    p_body => (select username from public.profiles where id = auth.uid()) || ' wants to be your accountability partner',
+    p_reference_id => pid
+  );
+
+  return pid;
+end;
+$$;
+
+create or replace function public.respond_partner_request(p_partnership_id uuid, p_accept boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  ap public.accountability_partners%rowtype;
+begin
+  select * into ap from public.accountability_partners where id = p_partnership_id for update;
+  if not found or ap.status <> 'pending' or ap.addressee_id <> auth.uid() then
+    raise exception 'request not found';
+  end if;
+
+  if not p_accept then
+    delete from public.accountability_partners where id = p_partnership_id;
+    return;
+  end if;
+
+  update public.accountability_partners
+  set status = 'accepted', accepted_at = now()
+  where id = p_partnership_id;
+
+  perform public.notify_create(
+    p_user_id => ap.requester_id,
+    p_actor_id => auth.uid(),
+    p_type => 'partner_accepted',
+    p_title => 'Partner request accepted',
+    p_body => (select username from public.profiles where id = auth.uid()) || ' is now your accountability partner',
+    p_reference_id => p_partnership_id
+  );
+end;
+$$;
+
+-- Either partner (or an admin) can end a partnership or withdraw a request.
+create or replace function public.remove_partner(p_partnership_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.accountability_partners ap
+  where ap.id = p_partnership_id
+    and (
+      auth.uid() in (ap.requester_id, ap.addressee_id)
+      or exists (select 1 from public.user_roles ur where ur.user_id = auth.uid() and ur.role = 'admin')
+    );
+  if not found then
+    raise exception 'partnership not found';
+  end if;
+end;
+$$;
+
+-- Admin pairing; accepted straight away, replacing any pending request.
+create or replace function public.admin_assign_partners(p_user_a uuid, p_user_b uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  pid uuid;
+  target uuid;
+begin
+  if not exists (select 1 from public.user_roles ur where ur.user_id = auth.uid() and ur.role = 'admin') then
+    raise exception 'not authorized';
+  end if;
+  if p_user_a = p_user_b then
+    raise exception 'invalid partner';
+  end if;
+
+  delete from public.accountability_partners
+  where least(requester_id, addressee_id) = least(p_user_a, p_user_b)
+    and greatest(requester_id, addressee_id) = greatest(p_user_a, p_user_b);
+
+  insert into public.accountability_partners (requester_id, addressee_id, status, assigned_by, accepted_at)
+  values (p_user_a, p_user_b, 'accepted', auth.uid(), now())
+  returning id into pid;
+
+  foreach target in array array[p_user_a, p_user_b] loop
+    perform public.notify_create(
+      p_user_id => target,
+      p_actor_id => auth.uid(),
+      p_type => 'partner_accepted',
+      p_title => 'New accountability partner',
+      p_body => 'You were paired with ' || (
+        select username from public.profiles
+        where id = case when target = p_user_a then p_user_b else p_user_a end
+      ),
+      p_reference_id => pid
+    );
+  end loop;
+
+  return pid;
+end;
+$$;
+
+-- The caller's partnerships and requests, from the caller's side.
+create or replace function public.get_partners()
+returns table (
+  partnership_id uuid,
+  partner_id uuid,
+  username text,
+  avatar_url text,
+  status text,
+  is_incoming boolean,
+  assigned_by_admin boolean,
+  created_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select ap.id,
+         p.id,
+         p.username,
+         p.avatar_url,
+         ap.status,
+         ap.addressee_id = auth.uid(),
+         ap.assigned_by is not null,
+         ap.created_at
+  from public.accountability_partners ap
+  join public.profiles p
+    on p.id = case when ap.requester_id = auth.uid() then ap.addressee_id else ap.requester_id end
+  where auth.uid() in (ap.requester_id, ap.addressee_id)
+  order by ap.status, p.username
+$$;
+
+-- Nudges: a partner pokes an open task, at most once per task every 12 hours.
+create table if not exists public.task_nudges (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  from_user uuid not null references public.profiles(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_task_nudges_task on public.task_nudges(task_id, created_at desc);
+
+alter table public.task_nudges enable row level security;
+
+create policy task_nudges_member_read on public.task_nudges for select
+  using (
+    auth.uid() = from_user
+    or exists (select 1 from public.tasks t where t.id = task_id and t.user_id = auth.uid())
+  );
+
+create or replace function public.nudge_partner_task(p_task_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t public.tasks%rowtype;
+begin
+  select * into t from public.tasks where id = p_task_id;
+  if not found or t.status not in ('todo', 'in_progress') or not public.are_partners(auth.uid(), t.user_id) then
+    raise exception 'task not found';
+  end if;
+
+  if exists (
+    select 1 from public.task_nudges n
+    where n.task_id = p_task_id and n.from_user = auth.uid()
+      and n.created_at > now() - interval '12 hours'
+  ) then
+    raise exception 'you already nudged this task recently';
+  end if;
+
+  insert into public.task_nudges (task_id, from_user) values (p_task_id, auth.uid());
+
+  perform public.notify_create(
+    p_user_id => t.user_id,
+    p_actor_id => auth.uid(),
+    p_type => 'partner_nudge',
+    p_title => (select username from public.profiles where id = auth.uid()) || ' nudged you',
+    p_body => t.title,
+    p_reference_id => t.id
+  );
+end;
+$$;
+
+-- Co-signs: a partner vouches for a pending proof. The review itself is still
+-- decided by the assigned reviewer; co-signs are shown alongside it.
+create table if not exists public.task_proof_cosigns (
+  review_id uuid not null references public.task_reviews(id) on delete cascade,
+  partner_id uuid not null references public.profiles(id) on delete cascade,
+  comment text,
+  created_at timestamptz not null default now(),
+  primary key (review_id, partner_id)
+);
+
+alter table public.task_proof_cosigns enable row level security;
+
+create policy task_proof_cosigns_read on public.task_proof_cosigns for select
+  using (auth.role() = 'authenticated');
+
+create or replace function public.cosign_task_proof(p_review_id uuid, p_comment text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r public.task_reviews%rowtype;
+begin
+  select * into r from public.task_reviews where id = p_review_id;
+  if not found or r.status <> 'pending' or not public.are_partners(auth.uid(), r.submitted_by) then
+    raise exception 'review not found';
+  end if;
+
+  insert into public.task_proof_cosigns (review_id, partner_id, comment)
+  values (p_review_id, auth.uid(), nullif(trim(p_comment), ''))
+  on conflict do nothing;
+
+  perform public.notify_create(
+    p_user_id => r.submitted_by,
+    p_actor_id => auth.uid(),
+    p_type => 'proof_cosigned',
+    p_title => (select username from public.profiles where id = auth.uid()) || ' co-signed your proof',
+    p_body => (select title from public.tasks where id = r.task_id),
+    p_reference_id => r.task_id
+  );
+end;
+$$;
+
+-- Pending proofs from the caller's partners, for co-signing.
+create or replace function public.get_partner_reviews()
+returns table (
+  review_id uuid,
+  task_id uuid,
+  task_title text,
+  proof_url text,
+  submitted_by uuid,
+  submitter_username text,
+  created_at timestamptz,
+  cosigned boolean
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select r.id, t.id, t.title, r.proof_url, r.submitted_by, p.username, r.created_at,
+         exists (select 1 from public.task_proof_cosigns c where c.review_id = r.id and c.partner_id = auth.uid())
+  from public.task_reviews r
+  join public.tasks t on t.id = r.task_id
+  join public.profiles p on p.id = r.submitted_by
+  where r.status = 'pending'
+    and public.are_partners(auth.uid(), r.submitted_by)
+  order by r.created_at
+$$;
+
+-- Partners are asked to co-sign as soon as a proof is submitted.
+create or replace function public.notify_partners_on_proof()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  partner uuid;
+begin
+  for partner in
+    select case when ap.requester_id = new.submitted_by then ap.addressee_id else ap.requester_id end
+    from public.accountability_partners ap
+    where ap.status = 'accepted' and new.submitted_by in (ap.requester_id, ap.addressee_id)
+  loop
+    perform public.notify_create(
+      p_user_id => partner,
+      p_actor_id => new.submitted_by,
+      p_type => 'partner_cosign_requested',
+      p_title => 'Your partner submitted a proof',
+      p_body => (select title from public.tasks where id = new.task_id),
+      p_reference_id => new.id
+    );
+  end loop;
+  return new;
+end;
+$$;
+
+create trigger notify_partners_on_proof
+  after insert on public.task_reviews
+  for each row
+  execute function public.notify_partners_on_proof();
+
+-- Review queue shows who co-signed.
+drop function if exists public.get_review_queue();
+
+create or replace function public.get_review_queue()
+returns table (
+  review_id uuid,
+  task_id uuid,
+  task_title text,
+  task_description text,
+  proof_url text,
+  submitted_by uuid,
+  submitter_username text,
+  reviewer_id uuid,
+  created_at timestamptz,
+  cosigners text[]
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select r.id, t.id, t.title, t.description, r.proof_url, r.submitted_by, p.username, r.reviewer_id, r.created_at,
+         coalesce((
+           select array_agg(cp.username order by c.created_at)
+           from public.task_proof_cosigns c
+           join public.profiles cp on cp.id = c.partner_id
+           where c.review_id = r.id
+         ), '{}')
+  from public.task_reviews r
+  join public.tasks t on t.id = r.task_id
+  join public.profiles p on p.id = r.submitted_by
+  where r.status = 'pending'
+    and r.submitted_by <> auth.uid()
+    and (
+      r.reviewer_id = auth.uid()
+      or exists (
+        select 1 from public.user_roles ur
+        where ur.user_id = auth.uid() and ur.role in ('admin', 'moderator')
+      )
+    )
+  order by r.created_at
+$$;
+
+-- Missed deadlines: each partner hears once per task.
+create table if not exists public.task_missed_deadline_notices (
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  partner_id uuid not null references public.profiles(id) on delete cascade,
+  sent_at timestamptz not null default now(),
+  primary key (task_id, partner_id)
+);
+
+alter table public.task_missed_deadline_notices enable row level security;
+
+create or replace function public.job_notify_partner_missed_deadlines()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+  sent int;
+begin
+  for r in
+    select t.id, t.user_id, t.title, t.deadline, p.username,
+           case when ap.requester_id = t.user_id then ap.addressee_id else ap.requester_id end as partner_id
+    from public.tasks t
+    join public.profiles p on p.id = t.user_id
+    join public.accountability_partners ap
+      on ap.status = 'accepted' and t.user_id in (ap.requester_id, ap.addressee_id)
+    where t.deadline is not null
+      and t.deadline < now()
+      -- only deadlines missed while they were partners
+      and t.deadline > coalesce(ap.accepted_at, ap.created_at)
+      and t.status in ('todo', 'in_progress')
+  loop
+    insert into public.task_missed_deadline_notices (task_id, partner_id)
+    values (r.id, r.partner_id)
+    on conflict do nothing;
+    get diagnostics sent = row_count;
+    continue when sent = 0;
+
+    perform public.notify_create(
+      p_user_id => r.partner_id,
+      p_actor_id => r.user_id,
+      p_type => 'partner_missed_deadline',
+      p_title => r.username || ' missed a deadline',
+      p_body => r.title,
+      p_reference_id => r.id,
+      p_meta => jsonb_build_object('deadline', r.deadline)
+    );
+  end loop;
+end;
+$$;
+
+revoke execute on function public.job_notify_partner_missed_deadlines() from public, anon, authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('notify-partner-missed-deadlines', '*/15 * * * *', 'select public.job_notify_partner_missed_deadlines()');
+  end if;
+end;
+$$;
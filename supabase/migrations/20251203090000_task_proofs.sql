@@ -0,0 +1,152 @@
+-- Several typed proofs per submission (image, video, pdf, link), each with a
+-- caption. tasks.proof_of_work_url stays as the cover image for older readers,
+-- and the completion post carries the whole set as a gallery.
+create table if not exists public.task_proofs (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  review_id uuid not null references public.task_reviews(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  kind text not null check (kind in ('image', 'video', 'pdf', 'link')),
+  url text not null check (url ~* '^https?://'),
+  caption text,
+  position int not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_task_proofs_task on public.task_proofs(task_id);
+create index if not exists idx_task_proofs_review on public.task_proofs(review_id, position);
+
+alter table public.task_proofs enable row level security;
+
+-- Whoever can see the submission can see its proofs: the owner, the assigned
+-- reviewer, staff and partners.
+create policy task_proofs_read on public.task_proofs for select
+  using (
+    auth.uid() = user_id
+    or exists (select 1 from public.task_reviews r where r.id = review_id and r.reviewer_id = auth.uid())
+    or exists (
+      select 1 from public.user_roles ur
+      where ur.user_id = auth.uid() and ur.role in ('admin', 'moderator')
+    )
+    or public.are_partners(auth.uid(), user_id)
+  );
+
+-- No insert/update/delete policies: rows are only written by submit_task_proofs.
+
+alter table public.blog_posts
+  add column if not exists attachments jsonb not null default '[]';
+
+-- Submit a set of proofs for review. p_proofs is a json array of
+-- {kind, url, caption}; the first image becomes the cover, and a submission
+-- without images has none.
+create or replace function public.submit_task_proofs(p_task_id uuid, p_proofs jsonb)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  item jsonb;
+  cover text;
+  rid uuid;
+  pos int := 0;
+begin
+  if jsonb_typeof(p_proofs) <> 'array' or jsonb_array_length(p_proofs) = 0 then
+    raise exception 'proof of work is required';
+  end if;
+  if jsonb_array_length(p_proofs) > 10 then
+    raise exception 'at most 10 proofs per submission';
+  end if;
+
+  for item in select * from jsonb_array_elements(p_proofs) loop
+    if coalesce(item->>'kind', '') not in ('image', 'video', 'pdf', 'link') then
+      raise exception 'unknown proof type';
+    end if;
+    if coalesce(item->>'url', '') !~* '^https?://' then
+      raise exception 'proof links must start with http:// or https://';
+    end if;
+  end loop;
+
+  select e->>'url' into cover
+  from jsonb_array_elements(p_proofs) e
+  where e->>'kind' = 'image'
+  limit 1;
+
+  -- ownership, status and checklist checks live in submit_task_proof; the
+  -- review keeps the first proof as its reference link
+  rid := public.submit_task_proof(p_task_id, coalesce(cover, p_proofs->0->>'url'));
+
+  perform set_config('app.task_review', 'on', true);
+  update public.tasks
+  set proof_of_work_url = cover
+  where id = p_task_id and proof_of_work_url is distinct from cover;
+  perform set_config('app.task_review', 'off', true);
+
+  for item in select * from jsonb_array_elements(p_proofs) loop
+    insert into public.task_proofs (task_id, review_id, user_id, kind, url, caption, position)
+    values (p_task_id, rid, auth.uid(), item->>'kind', item->>'url', nullif(trim(item->>'caption'), ''), pos);
+    pos := pos + 1;
+  end loop;
+
+  return rid;
+end;
+$$;
+
+-- Proofs are submitted through submit_task_proofs, which validates them first.
+revoke execute on function public.submit_task_proof(uuid, text) from public, anon, authenticated;
+
+-- Same as before, plus the approved proofs copied onto the completion post.
+create or replace function public.finalize_task_completion(p_task_id uuid)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t public.tasks%rowtype;
+  gallery jsonb;
+begin
+  select * into t from public.tasks where id = p_task_id for update;
+
+  perform set_config('app.task_review', 'on', true);
+  update public.tasks
+  set status = 'completed',
+      completion_percentage = 100,
+      is_active = false
+  where id = p_task_id;
+  perform set_config('app.task_review', 'off', true);
+
+  update public.profiles
+  set active_tasks = greatest(0, coalesce(active_tasks, 0) - 1)
+  where id = t.user_id and active_tasks is not null;
+
+  if t.is_public then
+    select coalesce(
+      jsonb_agg(jsonb_build_object('kind', p.kind, 'url', p.url, 'caption', p.caption) order by p.position),
+      '[]'
+    ) into gallery
+    from public.task_proofs p
+    where p.review_id = (
+      select r.id from public.task_reviews r
+      where r.task_id = p_task_id and r.status = 'approved'
+      order by r.decided_at desc
+      limit 1
+    );
+
+    insert into public.blog_posts (user_id, title, content, task_id, tags, image_url, attachments)
+    values (
+      t.user_id,
+      '✅ Completed: ' || coalesce(t.title, 'A Task'),
+      coalesce(t.description, '') || E'\n\n✅ Task completed successfully! 🎯',
+      t.id,
+      array['accountability', 'task-completion'],
+      t.proof_of_work_url,
+      gallery
+    );
+  end if;
+
+  return public.apply_points_transaction(t.user_id, 10, 'task_completed', p_task_id, t.title);
+end;
+$$;
+
+revoke execute on function public.finalize_task_completion(uuid) from public, anon, authenticated;
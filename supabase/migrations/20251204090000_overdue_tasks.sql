@@ -0,0 +1,225 @@
+-- Overdue handling: job_process_overdue_tasks marks open tasks whose deadline
+-- passed, optionally charges a penalty through the points ledger, and bumps the
+-- priority of tasks that are about to be due. Members get one grace extension
+-- per task. The knobs live in a single admin-editable settings row.
+alter type public.points_reason add value if not exists 'task_overdue';
+
+create table if not exists public.task_overdue_settings (
+  id boolean primary key default true check (id),
+  penalty_enabled boolean not null default false,
+  penalty_points int not null default 2 check (penalty_points between 0 and 100),
+  escalate_within_hours int not null default 24 check (escalate_within_hours between 0 and 168),
+  grace_hours int not null default 24 check (grace_hours between 1 and 168),
+  updated_by uuid references public.profiles(id) on delete set null,
+  updated_at timestamptz not null default now()
+);
+
+insert into public.task_overdue_settings (id) values (true) on conflict do nothing;
+
+alter table public.task_overdue_settings enable row level security;
+
+create policy task_overdue_settings_read on public.task_overdue_settings for select
+  using (auth.role() = 'authenticated');
+
+create policy task_overdue_settings_admin_update on public.task_overdue_settings for update
+  using (
+    exists (
+      select 1 from public.user_roles ur
+      where ur.user_id = auth.uid() and ur.role = 'admin'
+    )
+  );
+
+create trigger update_task_overdue_settings_updated_at
+  before update on public.task_overdue_settings
+  for each row
+  execute function public.update_updated_at_column();
+
+-- A deadline picked as a date used to reach the column as midnight UTC, so a
+-- task due today would count as overdue for most of that day. Clients now save
+-- the end of the day in local time; the stored midnight-UTC deadlines move to
+-- the end of their UTC day, since there is no member timezone to go by.
+-- updated_at stays as it was.
+alter table public.tasks disable trigger update_tasks_updated_at;
+
+update public.tasks
+set deadline = deadline + interval '1 day' - interval '1 second'
+where (deadline at time zone 'UTC')::time = '00:00';
+
+alter table public.tasks enable trigger update_tasks_updated_at;
+
+alter table public.tasks
+  add column if not exists overdue_at timestamptz,
+  add column if not exists priority_escalated_at timestamptz,
+  add column if not exists grace_extended_at timestamptz,
+  add column if not exists original_deadline timestamptz,
+  -- lets the list order open tasks first when sorting by urgency
+  add column if not exists is_open boolean generated always as (status in ('todo', 'in_progress')) stored;
+
+create index if not exists idx_tasks_open_deadline on public.tasks(deadline) where status in ('todo', 'in_progress');
+
+-- The overdue bookkeeping is only written by the job and the grace function.
+-- An open task whose deadline has passed can only be moved on with
+-- request_grace_extension, so the one-extension limit holds. Moving the
+-- deadline of any other task into the future clears the overdue mark.
+create or replace function public.guard_task_overdue_fields()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if coalesce(current_setting('app.task_overdue', true), '') <> 'on' then
+    if new.overdue_at is distinct from old.overdue_at
+       or new.priority_escalated_at is distinct from old.priority_escalated_at
+       or new.grace_extended_at is distinct from old.grace_extended_at
+       or new.original_deadline is distinct from old.original_deadline then
+      raise exception 'overdue fields are managed by the server';
+    end if;
+
+    if new.deadline is distinct from old.deadline
+       and old.status in ('todo', 'in_progress')
+       and (old.overdue_at is not null or old.deadline < now()) then
+      raise exception 'overdue tasks can only be moved with a grace extension';
+    end if;
+  end if;
+
+  if new.deadline is distinct from old.deadline and new.deadline > now() then
+    new.overdue_at := null;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger guard_task_overdue_fields
+  before update on public.tasks
+  for each row
+  execute function public.guard_task_overdue_fields();
+
+create or replace function public.job_process_overdue_tasks()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  cfg public.task_overdue_settings%rowtype;
+  r record;
+  charged int;
+begin
+  select * into cfg from public.task_overdue_settings where id;
+
+  perform set_config('app.task_overdue', 'on', true);
+
+  -- one step up (low -> medium -> high), once per task
+  if coalesce(cfg.escalate_within_hours, 0) > 0 then
+    for r in
+      update public.tasks
+      set priority = case priority when 'low' then 'medium' else 'high' end,
+          priority_escalated_at = now()
+      where status in ('todo', 'in_progress')
+        and deadline > now()
+        and deadline <= now() + make_interval(hours => cfg.escalate_within_hours)
+        and coalesce(priority, 'medium') <> 'high'
+        and priority_escalated_at is null
+      returning id, user_id, title, priority
+    loop
+      perform public.notify_create(
+        p_user_id => r.user_id,
+        p_actor_id => r.user_id,
+        p_type => 'task_escalated',
+        p_title => 'Priority raised to ' || r.priority,
+        p_body => r.title,
+        p_reference_id => r.id,
+        p_meta => jsonb_build_object('priority', r.priority)
+      );
+    end loop;
+  end if;
+
+  for r in
+    select t.id, t.user_id, t.title, t.deadline
+    from public.tasks t
+    where t.status in ('todo', 'in_progress')
+      and t.deadline < now()
+      and t.overdue_at is null
+    for update skip locked
+  loop
+    update public.tasks set overdue_at = now() where id = r.id;
+
+    charged := 0;
+    if cfg.penalty_enabled and cfg.penalty_points > 0 then
+      charged := public.apply_points_transaction(r.user_id, -cfg.penalty_points, 'task_overdue', r.id, r.title);
+    end if;
+
+    perform public.notify_create(
+      p_user_id => r.user_id,
+      p_actor_id => r.user_id,
+      p_type => 'task_overdue',
+      p_title => case when charged < 0 then 'Overdue · ' || charged || ' pts' else 'Task overdue' end,
+      p_body => r.title,
+      p_reference_id => r.id,
+      p_meta => jsonb_build_object('deadline', r.deadline, 'points', charged)
+    );
+  end loop;
+
+  perform set_config('app.task_overdue', 'off', true);
+end;
+$$;
+
+revoke execute on function public.job_process_overdue_tasks() from public, anon, authenticated;
+
+-- One grace extension per task: pushes the deadline grace_hours past the
+-- later of the current deadline and now. Penalties already charged stay.
+create or replace function public.request_grace_extension(p_task_id uuid)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t public.tasks%rowtype;
+  cfg public.task_overdue_settings%rowtype;
+  new_deadline timestamptz;
+begin
+  select * into t from public.tasks where id = p_task_id for update;
+  if not found or t.user_id <> auth.uid() then
+    raise exception 'task not found';
+  end if;
+  if t.status not in ('todo', 'in_progress') then
+    raise exception 'only open tasks can be extended';
+  end if;
+  if t.deadline is null then
+    raise exception 'task has no deadline';
+  end if;
+  if t.grace_extended_at is not null then
+    raise exception 'this task was already extended once';
+  end if;
+
+  select * into cfg from public.task_overdue_settings where id;
+  new_deadline := greatest(t.deadline, now()) + make_interval(hours => coalesce(cfg.grace_hours, 24));
+
+  perform set_config('app.task_overdue', 'on', true);
+  update public.tasks
+  set deadline = new_deadline,
+      original_deadline = t.deadline,
+      grace_extended_at = now(),
+      overdue_at = null
+  where id = p_task_id;
+  perform set_config('app.task_overdue', 'off', true);
+
+  -- partner notices fire again for the new deadline, like the reminders do
+  delete from public.task_missed_deadline_notices where task_id = p_task_id;
+
+  return new_deadline;
+end;
+$$;
+
+alter table public.user_ui_settings
+  add column if not exists task_sort text not null default 'newest'
+  check (task_sort in ('newest', 'urgency'));
+
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('process-overdue-tasks', '*/15 * * * *', 'select public.job_process_overdue_tasks()');
+  end if;
+end;
+$$;
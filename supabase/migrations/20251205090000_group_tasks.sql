@@ -0,0 +1,728 @@
+-- Group tasks: a group admin creates tasks for the group, any member can see
+-- and claim them, and the member who claimed one completes it with proof.
+-- Points for an approved group task follow groups.point_rule:
+--   assignee - the member who completed it gets the usual +10
+--   split    - +10 shared across all members (remainder to the completer)
+--   everyone - every member gets +10
+create table if not exists public.groups (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  is_private boolean default false,
+  created_at timestamptz default now()
+);
+
+alter table public.groups
+  add column if not exists point_rule text not null default 'assignee'
+    check (point_rule in ('assignee', 'split', 'everyone')),
+  add column if not exists created_by uuid references public.profiles(id) on delete set null;
+
+create table if not exists public.group_members (
+  group_id uuid not null references public.groups(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  role text not null default 'member' check (role in ('admin', 'member')),
+  created_at timestamptz not null default now(),
+  primary key (group_id, user_id)
+);
+
+create index if not exists idx_group_members_user on public.group_members(user_id);
+
+create or replace function public.is_group_member(p_group_id uuid, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.group_members gm
+    where gm.group_id = p_group_id and gm.user_id = p_user_id
+  )
+$$;
+
+-- Group admins, plus site admins for every group.
+create or replace function public.is_group_admin(p_group_id uuid, p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.group_members gm
+    where gm.group_id = p_group_id and gm.user_id = p_user_id and gm.role = 'admin'
+  ) or exists (
+    select 1 from public.user_roles ur
+    where ur.user_id = p_user_id and ur.role = 'admin'
+  )
+$$;
+
+alter table public.groups enable row level security;
+
+create policy groups_read on public.groups for select
+  using (not coalesce(is_private, false) or public.is_group_member(id, auth.uid()) or public.is_group_admin(id, auth.uid()));
+
+create policy groups_admin_update on public.groups for update
+  using (public.is_group_admin(id, auth.uid()));
+
+alter table public.group_members enable row level security;
+
+create policy group_members_read on public.group_members for select
+  using (public.is_group_member(group_id, auth.uid()) or public.is_group_admin(group_id, auth.uid()));
+
+-- No insert/update/delete policies: membership changes go through the functions below.
+
+alter table public.tasks
+  add column if not exists group_id uuid references public.groups(id) on delete cascade,
+  add column if not exists assigned_to uuid references public.profiles(id) on delete set null,
+  add column if not exists claimed_at timestamptz;
+
+create index if not exists idx_tasks_group on public.tasks(group_id) where group_id is not null;
+create index if not exists idx_tasks_assigned_to on public.tasks(assigned_to) where assigned_to is not null;
+
+create policy tasks_group_member_read on public.tasks for select
+  using (group_id is not null and public.is_group_member(group_id, auth.uid()));
+
+-- The assignee works the task (status, checklist); group admins manage it.
+-- guard_group_task keeps the assignee to the status and progress columns.
+create policy tasks_group_update on public.tasks for update
+  using (
+    group_id is not null
+    and (assigned_to = auth.uid() or public.is_group_admin(group_id, auth.uid()))
+  );
+
+create policy task_subtasks_group_read on public.task_subtasks for select
+  using (
+    exists (
+      select 1 from public.tasks t
+      where t.id = task_id and t.group_id is not null and public.is_group_member(t.group_id, auth.uid())
+    )
+  );
+
+create policy task_subtasks_assignee_update on public.task_subtasks for update
+  using (
+    exists (select 1 from public.tasks t where t.id = task_id and t.assigned_to = auth.uid())
+  );
+
+create policy task_time_entries_assignee_insert on public.task_time_entries for insert
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.tasks t where t.id = task_id and t.assigned_to = auth.uid())
+  );
+
+create policy task_time_entries_assignee_update on public.task_time_entries for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.tasks t where t.id = task_id and t.assigned_to = auth.uid())
+  );
+
+create policy task_reviews_group_read on public.task_reviews for select
+  using (
+    exists (
+      select 1 from public.tasks t
+      where t.id = task_id and t.group_id is not null and public.is_group_member(t.group_id, auth.uid())
+    )
+  );
+
+create policy task_proofs_group_read on public.task_proofs for select
+  using (
+    exists (
+      select 1 from public.tasks t
+      where t.id = task_id and t.group_id is not null and public.is_group_member(t.group_id, auth.uid())
+    )
+  );
+
+-- Only group admins put tasks in a group; claiming and assigning go through
+-- claim_group_task / assign_group_task. An assignee who doesn't manage the
+-- task can only move its status and progress; proof submission sets
+-- app.task_review.
+create or replace function public.guard_group_task()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if coalesce(current_setting('app.group_task', true), '') = 'on' then
+    return new;
+  end if;
+
+  if new.group_id is not null
+     and (tg_op = 'INSERT' or new.group_id is distinct from old.group_id)
+     and not public.is_group_admin(new.group_id, auth.uid()) then
+    raise exception 'only group admins can add group tasks';
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.assigned_to is not null
+       and (new.group_id is null or not public.is_group_member(new.group_id, new.assigned_to)) then
+      raise exception 'tasks can only be assigned to group members';
+    end if;
+    if new.assigned_to is not null then
+      new.claimed_at := now();
+    end if;
+  elsif new.assigned_to is distinct from old.assigned_to then
+    raise exception 'use claim_group_task or assign_group_task';
+  elsif old.group_id is not null
+     and auth.uid() = old.assigned_to
+     and auth.uid() is distinct from old.user_id
+     and coalesce(current_setting('app.task_review', true), '') <> 'on'
+     and not public.is_group_admin(old.group_id, auth.uid())
+     and (to_jsonb(new) - array['status', 'completion_percentage', 'is_active', 'is_blocked', 'updated_at'])
+         is distinct from
+         (to_jsonb(old) - array['status', 'completion_percentage', 'is_active', 'is_blocked', 'updated_at']) then
+    raise exception 'the assignee can only change the status and progress of a group task';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger guard_group_task
+  before insert or update on public.tasks
+  for each row
+  execute function public.guard_group_task();
+
+create or replace function public.create_group(
+  p_name text,
+  p_description text default null,
+  p_is_private boolean default false,
+  p_point_rule text default 'assignee'
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  gid uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated';
+  end if;
+  if coalesce(trim(p_name), '') = '' then
+    raise exception 'group name is required';
+  end if;
+
+  insert into public.groups (name, description, is_private, point_rule, created_by)
+  values (trim(p_name), nullif(trim(p_description), ''), p_is_private, p_point_rule, auth.uid())
+  returning id into gid;
+
+  insert into public.group_members (group_id, user_id, role)
+  values (gid, auth.uid(), 'admin');
+
+  return gid;
+end;
+$$;
+
+-- Add a member, or change an existing member's role.
+create or replace function public.add_group_member(p_group_id uuid, p_user_id uuid, p_role text default 'member')
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g public.groups%rowtype;
+  is_new boolean;
+begin
+  select * into g from public.groups where id = p_group_id;
+  if not found or not public.is_group_admin(p_group_id, auth.uid()) then
+    raise exception 'not authorized';
+  end if;
+  if p_role not in ('admin', 'member') then
+    raise exception 'unknown role';
+  end if;
+
+  is_new := not public.is_group_member(p_group_id, p_user_id);
+
+  insert into public.group_members (group_id, user_id, role)
+  values (p_group_id, p_user_id, p_role)
+  on conflict (group_id, user_id) do update set role = excluded.role;
+
+  if is_new and p_user_id <> auth.uid() then
+    perform public.notify_create(
+      p_user_id => p_user_id,
+      p_actor_id => auth.uid(),
+      p_type => 'group_added',
+      p_title => 'You were added to ' || g.name,
+      p_body => g.description,
+      p_reference_id => p_group_id
+    );
+  end if;
+end;
+$$;
+
+-- Group admins remove anyone; members can leave. Their open group tasks go back to unclaimed.
+create or replace function public.remove_group_member(p_group_id uuid, p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_user_id <> auth.uid() and not public.is_group_admin(p_group_id, auth.uid()) then
+    raise exception 'not authorized';
+  end if;
+
+  delete from public.group_members where group_id = p_group_id and user_id = p_user_id;
+
+  if not exists (select 1 from public.group_members where group_id = p_group_id and role = 'admin') then
+    raise exception 'a group needs at least one admin';
+  end if;
+
+  perform set_config('app.group_task', 'on', true);
+  update public.tasks
+  set assigned_to = null, claimed_at = null
+  where group_id = p_group_id
+    and assigned_to = p_user_id
+    and status in ('todo', 'in_progress');
+  perform set_config('app.group_task', 'off', true);
+end;
+$$;
+
+create or replace function public.claim_group_task(p_task_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t public.tasks%rowtype;
+begin
+  select * into t from public.tasks where id = p_task_id for update;
+  if not found or t.group_id is null or not public.is_group_member(t.group_id, auth.uid()) then
+    raise exception 'task not found';
+  end if;
+  if t.status not in ('todo', 'in_progress') then
+    raise exception 'task is no longer open';
+  end if;
+  if t.assigned_to is not null then
+    raise exception 'task was already claimed';
+  end if;
+
+  perform set_config('app.group_task', 'on', true);
+  update public.tasks set assigned_to = auth.uid(), claimed_at = now() where id = p_task_id;
+  perform set_config('app.group_task', 'off', true);
+
+  if t.user_id <> auth.uid() then
+    perform public.notify_create(
+      p_user_id => t.user_id,
+      p_actor_id => auth.uid(),
+      p_type => 'group_task_claimed',
+      p_title => 'Group task claimed',
+      p_body => t.title,
+      p_reference_id => p_task_id
+    );
+  end if;
+end;
+$$;
+
+-- Group admins assign (or unassign with null); the assignee may release their own task.
+create or replace function public.assign_group_task(p_task_id uuid, p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t public.tasks%rowtype;
+begin
+  select * into t from public.tasks where id = p_task_id for update;
+  if not found or t.group_id is null then
+    raise exception 'task not found';
+  end if;
+  if not public.is_group_admin(t.group_id, auth.uid())
+     and not (p_user_id is null and t.assigned_to = auth.uid()) then
+    raise exception 'not authorized';
+  end if;
+  if t.status not in ('todo', 'in_progress') then
+    raise exception 'task is no longer open';
+  end if;
+  if p_user_id is not null and not public.is_group_member(t.group_id, p_user_id) then
+    raise exception 'tasks can only be assigned to group members';
+  end if;
+
+  perform set_config('app.group_task', 'on', true);
+  update public.tasks
+  set assigned_to = p_user_id,
+      claimed_at = case when p_user_id is null then null else now() end
+  where id = p_task_id;
+  perform set_config('app.group_task', 'off', true);
+
+  if p_user_id is not null and p_user_id <> auth.uid() then
+    perform public.notify_create(
+      p_user_id => p_user_id,
+      p_actor_id => auth.uid(),
+      p_type => 'group_task_assigned',
+      p_title => 'A group task was assigned to you',
+      p_body => t.title,
+      p_reference_id => p_task_id
+    );
+  end if;
+end;
+$$;
+
+-- Same as before, except a group task is submitted by whoever claimed it.
+create or replace function public.submit_task_proof(p_task_id uuid, p_proof_url text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t public.tasks%rowtype;
+  peer uuid;
+  rid uuid;
+begin
+  select * into t from public.tasks where id = p_task_id for update;
+  if not found
+     or (t.group_id is null and t.user_id <> auth.uid())
+     or (t.group_id is not null and t.assigned_to is distinct from auth.uid()) then
+    raise exception 'task not found';
+  end if;
+  if t.status in ('completed', 'pending_review') then
+    raise exception 'task already submitted';
+  end if;
+  if coalesce(p_proof_url, '') = '' then
+    raise exception 'proof of work is required';
+  end if;
+  if exists (select 1 from public.task_subtasks where task_id = p_task_id and not is_done) then
+    raise exception 'all checklist items must be ticked first';
+  end if;
+
+  select p.id into peer
+  from public.profiles p
+  where p.id <> auth.uid()
+  order by random()
+  limit 1;
+
+  perform set_config('app.task_review', 'on', true);
+  update public.tasks
+  set status = 'pending_review',
+      proof_of_work_url = p_proof_url
+  where id = p_task_id;
+  perform set_config('app.task_review', 'off', true);
+
+  insert into public.task_reviews (task_id, submitted_by, reviewer_id, proof_url)
+  values (p_task_id, auth.uid(), peer, p_proof_url)
+  returning id into rid;
+
+  if peer is not null then
+    perform public.notify_create(
+      p_user_id => peer,
+      p_actor_id => auth.uid(),
+      p_type => 'proof_review_requested',
+      p_title => 'Review a proof of work',
+      p_body => t.title,
+      p_reference_id => rid
+    );
+  end if;
+
+  return rid;
+end;
+$$;
+
+revoke execute on function public.submit_task_proof(uuid, text) from public, anon, authenticated;
+
+-- Same as before, with group tasks paid out by the group's point rule and
+-- the completion post credited to the member who did the work.
+create or replace function public.finalize_task_completion(p_task_id uuid)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t public.tasks%rowtype;
+  gallery jsonb;
+  completer uuid;
+  rule text;
+  members uuid[];
+  share int;
+  m uuid;
+  total int := 0;
+begin
+  select * into t from public.tasks where id = p_task_id for update;
+  completer := coalesce(t.assigned_to, t.user_id);
+
+  perform set_config('app.task_review', 'on', true);
+  update public.tasks
+  set status = 'completed',
+      completion_percentage = 100,
+      is_active = false
+  where id = p_task_id;
+  perform set_config('app.task_review', 'off', true);
+
+  update public.profiles
+  set active_tasks = greatest(0, coalesce(active_tasks, 0) - 1)
+  where id = t.user_id and active_tasks is not null;
+
+  if t.is_public then
+    select coalesce(
+      jsonb_agg(jsonb_build_object('kind', p.kind, 'url', p.url, 'caption', p.caption) order by p.position),
+      '[]'
+    ) into gallery
+    from public.task_proofs p
+    where p.review_id = (
+      select r.id from public.task_reviews r
+      where r.task_id = p_task_id and r.status = 'approved'
+      order by r.decided_at desc
+      limit 1
+    );
+
+    insert into public.blog_posts (user_id, title, content, task_id, tags, image_url, attachments)
+    values (
+      completer,
+      '✅ Completed: ' || coalesce(t.title, 'A Task'),
+      coalesce(t.description, '') || E'\n\n✅ Task completed successfully! 🎯',
+      t.id,
+      array['accountability', 'task-completion'],
+      t.proof_of_work_url,
+      gallery
+    );
+  end if;
+
+  if t.group_id is null then
+    return public.apply_points_transaction(t.user_id, 10, 'task_completed', p_task_id, t.title);
+  end if;
+
+  select g.point_rule into rule from public.groups g where g.id = t.group_id;
+  select array_agg(gm.user_id order by gm.created_at) into members
+  from public.group_members gm
+  where gm.group_id = t.group_id;
+
+  if rule = 'assignee' or coalesce(array_length(members, 1), 0) = 0 then
+    return public.apply_points_transaction(completer, 10, 'task_completed', p_task_id, t.title);
+  end if;
+
+  share := case when rule = 'everyone' then 10 else 10 / array_length(members, 1) end;
+  foreach m in array members loop
+    total := total + public.apply_points_transaction(
+      m,
+      share + case when rule = 'split' and m = completer then 10 - share * array_length(members, 1) else 0 end,
+      'task_completed',
+      p_task_id,
+      t.title
+    );
+  end loop;
+  return total;
+end;
+$$;
+
+revoke execute on function public.finalize_task_completion(uuid) from public, anon, authenticated;
+
+-- Same as before, except overdue group tasks are charged to whoever claimed
+-- them; unclaimed ones only notify the group admin who created them.
+create or replace function public.job_process_overdue_tasks()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  cfg public.task_overdue_settings%rowtype;
+  r record;
+  charged int;
+begin
+  select * into cfg from public.task_overdue_settings where id;
+
+  perform set_config('app.task_overdue', 'on', true);
+
+  if coalesce(cfg.escalate_within_hours, 0) > 0 then
+    for r in
+      update public.tasks
+      set priority = case priority when 'low' then 'medium' else 'high' end,
+          priority_escalated_at = now()
+      where status in ('todo', 'in_progress')
+        and deadline > now()
+        and deadline <= now() + make_interval(hours => cfg.escalate_within_hours)
+        and coalesce(priority, 'medium') <> 'high'
+        and priority_escalated_at is null
+      returning id, coalesce(assigned_to, user_id) as user_id, title, priority
+    loop
+      perform public.notify_create(
+        p_user_id => r.user_id,
+        p_actor_id => r.user_id,
+        p_type => 'task_escalated',
+        p_title => 'Priority raised to ' || r.priority,
+        p_body => r.title,
+        p_reference_id => r.id,
+        p_meta => jsonb_build_object('priority', r.priority)
+      );
+    end loop;
+  end if;
+
+  for r in
+    select t.id, coalesce(t.assigned_to, t.user_id) as user_id, t.title, t.deadline,
+           t.group_id is not null and t.assigned_to is null as unclaimed
+    from public.tasks t
+    where t.status in ('todo', 'in_progress')
+      and t.deadline < now()
+      and t.overdue_at is null
+    for update skip locked
+  loop
+    update public.tasks set overdue_at = now() where id = r.id;
+
+    charged := 0;
+    if cfg.penalty_enabled and cfg.penalty_points > 0 and not r.unclaimed then
+      charged := public.apply_points_transaction(r.user_id, -cfg.penalty_points, 'task_overdue', r.id, r.title);
+    end if;
+
+    perform public.notify_create(
+      p_user_id => r.user_id,
+      p_actor_id => r.user_id,
+      p_type => 'task_overdue',
+      p_title => case when charged < 0 then 'Overdue · ' || charged || ' pts' else 'Task overdue' end,
+      p_body => r.title,
+      p_reference_id => r.id,
+      p_meta => jsonb_build_object('deadline', r.deadline, 'points', charged)
+    );
+  end loop;
+
+  perform set_config('app.task_overdue', 'off', true);
+end;
+$$;
+
+revoke execute on function public.job_process_overdue_tasks() from public, anon, authenticated;
+
+-- Same as before, except a claimed group task reminds whoever claimed it, at
+-- their own offsets.
+create or replace function public.job_notify_task_deadlines()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+  sent int;
+  minutes_left int;
+begin
+  for r in
+    select t.id, coalesce(t.assigned_to, t.user_id) as user_id, t.title, t.deadline,
+           array_agg(o.offset_minutes order by o.offset_minutes) as offsets
+    from public.tasks t
+    left join public.user_ui_settings s on s.user_id = coalesce(t.assigned_to, t.user_id)
+    cross join lateral unnest(coalesce(s.reminder_offsets, '{1440,60}'::int[])) as o(offset_minutes)
+    where t.deadline is not null
+      and t.status in ('todo', 'in_progress')
+      and o.offset_minutes > 0
+      and now() >= t.deadline - make_interval(mins => o.offset_minutes)
+      and now() < t.deadline
+    group by t.id
+  loop
+    insert into public.task_deadline_reminders (task_id, offset_minutes)
+    values (r.id, r.offsets[1])
+    on conflict do nothing;
+    get diagnostics sent = row_count;
+    continue when sent = 0;
+
+    -- the longer offsets this one supersedes are never sent
+    insert into public.task_deadline_reminders (task_id, offset_minutes)
+    select r.id, x from unnest(r.offsets[2:]) x
+    on conflict do nothing;
+
+    minutes_left := ceil(extract(epoch from (r.deadline - now())) / 60)::int;
+
+    perform public.notify_create(
+      p_user_id => r.user_id,
+      p_actor_id => r.user_id,
+      p_type => 'task_deadline',
+      p_title => case
+        when minutes_left >= 1440 then 'Due in ' || round(minutes_left / 1440.0) || 'd'
+        when minutes_left >= 60 then 'Due in ' || round(minutes_left / 60.0) || 'h'
+        else 'Due in ' || minutes_left || 'm'
+      end,
+      p_body => r.title,
+      p_reference_id => r.id,
+      p_meta => jsonb_build_object('offset_minutes', r.offsets[1], 'deadline', r.deadline)
+    );
+  end loop;
+end;
+$$;
+
+revoke execute on function public.job_notify_task_deadlines() from public, anon, authenticated;
+
+-- A new assignee gets the reminders again, like a moved deadline.
+drop trigger if exists reset_task_deadline_reminders on public.tasks;
+
+create trigger reset_task_deadline_reminders
+  after update of deadline, assigned_to on public.tasks
+  for each row
+  when (new.deadline is distinct from old.deadline or new.assigned_to is distinct from old.assigned_to)
+  execute function public.reset_task_deadline_reminders();
+
+-- Same as before, except the member a group task is assigned to may extend it
+-- too, since the penalty is theirs.
+create or replace function public.request_grace_extension(p_task_id uuid)
+returns timestamptz
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  t public.tasks%rowtype;
+  cfg public.task_overdue_settings%rowtype;
+  new_deadline timestamptz;
+begin
+  select * into t from public.tasks where id = p_task_id for update;
+  if not found or auth.uid() not in (t.user_id, coalesce(t.assigned_to, t.user_id)) then
+    raise exception 'task not found';
+  end if;
+  if t.status not in ('todo', 'in_progress') then
+    raise exception 'only open tasks can be extended';
+  end if;
+  if t.deadline is null then
+    raise exception 'task has no deadline';
+  end if;
+  if t.grace_extended_at is not null then
+    raise exception 'this task was already extended once';
+  end if;
+
+  select * into cfg from public.task_overdue_settings where id;
+  new_deadline := greatest(t.deadline, now()) + make_interval(hours => coalesce(cfg.grace_hours, 24));
+
+  -- app.group_task: guard_group_task keeps the assignee's own edits off the deadline
+  perform set_config('app.task_overdue', 'on', true);
+  perform set_config('app.group_task', 'on', true);
+  update public.tasks
+  set deadline = new_deadline,
+      original_deadline = t.deadline,
+      grace_extended_at = now(),
+      overdue_at = null
+  where id = p_task_id;
+  perform set_config('app.group_task', 'off', true);
+  perform set_config('app.task_overdue', 'off', true);
+
+  -- partner notices fire again for the new deadline, like the reminders do
+  delete from public.task_missed_deadline_notices where task_id = p_task_id;
+
+  return new_deadline;
+end;
+$$;
+
+-- The member's groups with their role, for the TaskList filter and create dialog.
+create or replace function public.get_my_groups()
+returns table (
+  group_id uuid,
+  name text,
+  description text,
+  is_private boolean,
+  point_rule text,
+  role text,
+  member_count int
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select g.id, g.name, g.description, coalesce(g.is_private, false), g.point_rule, gm.role,
+         (select count(*)::int from public.group_members x where x.group_id = g.id)
+  from public.group_members gm
+  join public.groups g on g.id = gm.group_id
+  where gm.user_id = auth.uid()
+  order by g.name
+$$;
+
+alter publication supabase_realtime add table public.group_members;
@@ -0,0 +1,130 @@
+-- Structured daily logs. A template is a list of fields (e.g. Standup:
+-- yesterday / today / blockers); a log written from one keeps its answers in
+-- daily_logs.sections and, one row per field, in daily_log_sections so they
+-- can be queried on their own ("all my blockers this month").
+-- daily_logs.content stays filled (the sections as markdown) for search,
+-- the community post copy and older clients.
+create table if not exists public.log_templates (
+  id uuid primary key default gen_random_uuid(),
+  slug text unique,
+  name text not null,
+  description text,
+  -- [{ "key": "blockers", "label": "Blockers", "placeholder": "..." }, ...]
+  fields jsonb not null check (
+    jsonb_typeof(fields) = 'array'
+    and jsonb_array_length(fields) between 1 and 10
+  ),
+  is_active boolean not null default true,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.log_templates enable row level security;
+
+create policy log_templates_read on public.log_templates for select
+  using (auth.uid() is not null);
+
+-- community templates are curated by admins
+create policy log_templates_admin_insert on public.log_templates for insert
+  with check (
+    exists (select 1 from public.user_roles ur where ur.user_id = auth.uid() and ur.role = 'admin')
+  );
+
+create policy log_templates_admin_update on public.log_templates for update
+  using (
+    exists (select 1 from public.user_roles ur where ur.user_id = auth.uid() and ur.role = 'admin')
+  );
+
+create policy log_templates_admin_delete on public.log_templates for delete
+  using (
+    exists (select 1 from public.user_roles ur where ur.user_id = auth.uid() and ur.role = 'admin')
+  );
+
+create trigger update_log_templates_updated_at
+  before update on public.log_templates
+  for each row
+  execute function public.update_updated_at_column();
+
+insert into public.log_templates (slug, name, description, fields) values
+  ('standup', 'Standup', 'What you did, what is next and what is in the way', '[
+    {"key": "yesterday", "label": "Yesterday", "placeholder": "What did you get done?"},
+    {"key": "today", "label": "Today", "placeholder": "What are you working on next?"},
+    {"key": "blockers", "label": "Blockers", "placeholder": "Anything slowing you down?"}
+  ]'),
+  ('reflection', 'Reflection', 'Look back on the day', '[
+    {"key": "wins", "label": "Wins", "placeholder": "What went well?"},
+    {"key": "struggles", "label": "Struggles", "placeholder": "What was hard?"},
+    {"key": "gratitude", "label": "Gratitude", "placeholder": "What are you grateful for?"}
+  ]'),
+  ('til', 'Today I Learned', 'One thing you learned and where it came from', '[
+    {"key": "learned", "label": "What I learned", "placeholder": "Explain it in your own words"},
+    {"key": "source", "label": "Source", "placeholder": "Book, course, link, conversation..."}
+  ]')
+on conflict (slug) do nothing;
+
+alter table public.daily_logs
+  add column if not exists template_id uuid references public.log_templates(id) on delete set null,
+  -- [{ "key": "blockers", "label": "Blockers", "content": "..." }, ...]
+  add column if not exists sections jsonb not null default '[]'
+    check (jsonb_typeof(sections) = 'array');
+
+create table if not exists public.daily_log_sections (
+  id uuid primary key default gen_random_uuid(),
+  log_id uuid not null references public.daily_logs(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  template_id uuid references public.log_templates(id) on delete set null,
+  field_key text not null,
+  label text not null,
+  content text not null,
+  position int not null default 0,
+  created_at timestamptz not null default now(),
+  unique (log_id, field_key)
+);
+
+create index if not exists idx_daily_log_sections_user_key on public.daily_log_sections(user_id, field_key, created_at desc);
+create index if not exists idx_daily_log_sections_template on public.daily_log_sections(template_id);
+
+alter table public.daily_log_sections enable row level security;
+
+-- same visibility as the log itself; rows are written by the trigger below
+create policy daily_log_sections_read on public.daily_log_sections for select
+  using (
+    exists (
+      select 1 from public.daily_logs l
+      where l.id = log_id and (l.user_id = auth.uid() or l.is_public = true)
+    )
+  );
+
+-- Mirror daily_logs.sections into daily_log_sections; empty answers are skipped.
+create or replace function public.sync_daily_log_sections()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from public.daily_log_sections where log_id = new.id;
+
+  insert into public.daily_log_sections (log_id, user_id, template_id, field_key, label, content, position, created_at)
+  select new.id,
+         new.user_id,
+         new.template_id,
+         s.value->>'key',
+         coalesce(nullif(trim(s.value->>'label'), ''), s.value->>'key'),
+         trim(s.value->>'content'),
+         (s.ordinality - 1)::int,
+         coalesce(new.created_at, now())
+  from jsonb_array_elements(new.sections) with ordinality s
+  where coalesce(s.value->>'key', '') <> ''
+    and coalesce(trim(s.value->>'content'), '') <> ''
+  on conflict (log_id, field_key) do nothing;
+
+  return new;
+end;
+$$;
+
+create trigger sync_daily_log_sections
+  after insert or update of sections, template_id on public.daily_logs
+  for each row
+  execute function public.sync_daily_log_sections();
@@ -0,0 +1,162 @@
+-- Mood on a fixed 1-5 scale so it can be charted. daily_logs.mood keeps the
+-- scale's label for display and search; free-text moods written before the
+-- scale existed are mapped onto it where the text makes the meaning clear
+-- and otherwise kept as they were, without a score.
+alter table public.daily_logs
+  add column if not exists mood_score smallint check (mood_score between 1 and 5);
+
+create or replace function public.mood_label(p_score int)
+returns text
+language sql
+immutable
+as $$
+  select case p_score
+    when 5 then 'Great'
+    when 4 then 'Good'
+    when 3 then 'Okay'
+    when 2 then 'Low'
+    when 1 then 'Rough'
+  end
+$$;
+
+-- Best guess at a score for free text ("😊 Happy", "tired", "meh"); null when unsure.
+-- Checked from the low end up so "not great" style texts don't land on 5.
+create or replace function public.mood_score_from_text(p_mood text)
+returns smallint
+language sql
+immutable
+as $$
+  select case
+    when p_mood is null or trim(p_mood) = '' then null
+    when p_mood ~* '\m(rough|awful|terrible|horrible|miserable|depress|angry|furious|not (good|great|ok))'
+      or p_mood ~ '(😢|😭|😡|😠|😞)' then 1
+    when p_mood ~* '\m(low|sad|tired|exhausted|stress|anxious|worried|frustrat|overwhelm|sick|bored)'
+      or p_mood ~ '(😔|😟|😕|😴|😩|😫)' then 2
+    when p_mood ~* '\m(okay|ok|fine|neutral|meh|alright|calm|reflective|thoughtful)\M'
+      or p_mood ~ '(😐|🤔|😌)' then 3
+    when p_mood ~* '\m(great|amazing|awesome|excellent|fantastic|ecstatic|excited|thrilled)'
+      or p_mood ~ '(😄|😁|🤩|🥳|🔥)' then 5
+    when p_mood ~* '\m(good|happy|productive|motivated|focused|grateful|content|energ)'
+      or p_mood ~ '(😊|🙂|😀|💪)' then 4
+  end::smallint
+$$;
+
+-- Keeps mood and mood_score in step, including for older clients and queued
+-- offline logs that still send only the text.
+create or replace function public.normalize_daily_log_mood()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.mood_score is null then
+    new.mood_score := public.mood_score_from_text(new.mood);
+  end if;
+  if new.mood_score is not null then
+    new.mood := public.mood_label(new.mood_score);
+  end if;
+  return new;
+end;
+$$;
+
+create trigger normalize_daily_log_mood
+  before insert or update of mood, mood_score on public.daily_logs
+  for each row
+  execute function public.normalize_daily_log_mood();
+
+-- backfill; the trigger above fills mood_score and rewrites recognised moods to
+-- their label. updated_at stays as it was, these logs weren't edited.
+alter table public.daily_logs disable trigger update_daily_logs_updated_at;
+
+update public.daily_logs
+set mood = mood
+where mood is not null and mood_score is null;
+
+alter table public.daily_logs enable trigger update_daily_logs_updated_at;
+
+-- When a task was completed, for the charts below; updated_at moves with every
+-- later write to the task. Only the server sets it.
+alter table public.tasks
+  add column if not exists completed_at timestamptz;
+
+-- backfill from the points ledger, which has the approval time of every task
+-- completed through review, and updated_at for older completions
+alter table public.tasks disable trigger update_tasks_updated_at;
+
+update public.tasks t
+set completed_at = coalesce(
+  (select min(pt.created_at)
+   from public.points_transactions pt
+   where pt.reference_id = t.id and pt.reason = 'task_completed'),
+  t.updated_at
+)
+where t.status = 'completed' and t.completed_at is null;
+
+alter table public.tasks enable trigger update_tasks_updated_at;
+
+create or replace function public.set_task_completed_at()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.status is distinct from 'completed' then
+    new.completed_at := null;
+  elsif tg_op = 'INSERT' or old.status is distinct from 'completed' then
+    new.completed_at := now();
+  else
+    new.completed_at := old.completed_at;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger set_task_completed_at
+  before insert or update on public.tasks
+  for each row
+  execute function public.set_task_completed_at();
+
+-- One row per day of the last p_days for the caller: average mood, logs
+-- written, tasks completed and the log streak as it stood that day. A group
+-- task counts for the member it was assigned to, whoever got the points for
+-- it. Days are UTC dates, like user_activity_for_range.
+create or replace function public.get_mood_series(p_days int default 90)
+returns table (day date, mood_score numeric, logs_count int, tasks_completed int, streak int)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with log_days as (
+    select l.created_at::date as d,
+           round(avg(l.mood_score), 2) as mood,
+           count(*)::int as logs
+    from public.daily_logs l
+    where l.user_id = auth.uid()
+    group by 1
+  ), runs as (
+    select d, d - (row_number() over (order by d))::int as run
+    from log_days
+  ), streaks as (
+    select d, (row_number() over (partition by run order by d))::int as streak
+    from runs
+  ), completions as (
+    select t.completed_at::date as d, count(*)::int as tasks
+    from public.tasks t
+    where coalesce(t.assigned_to, t.user_id) = auth.uid()
+      and t.completed_at >= current_date - least(greatest(p_days, 1), 366)
+    group by 1
+  ), days as (
+    select g::date as d
+    from generate_series(current_date - (least(greatest(p_days, 1), 366) - 1), current_date, interval '1 day') g
+  )
+  select days.d,
+         log_days.mood,
+         coalesce(log_days.logs, 0),
+         coalesce(completions.tasks, 0),
+         coalesce(streaks.streak, 0)
+  from days
+  left join log_days on log_days.d = days.d
+  left join streaks on streaks.d = days.d
+  left join completions on completions.d = days.d
+  order by days.d
+$$;
@@ -0,0 +1,113 @@
+-- Activity heatmap: logs written, tasks completed, community posts and chat
+-- messages per day, aggregated here so the client gets one row per active day
+-- instead of every row. A group task counts for the member it was assigned to.
+-- Days are UTC dates, like get_mood_series.
+
+create index if not exists idx_daily_logs_user_created on public.daily_logs(user_id, created_at);
+create index if not exists idx_blog_posts_user_created on public.blog_posts(user_id, created_at);
+create index if not exists idx_messages_user_created on public.messages(user_id, created_at);
+create index if not exists idx_tasks_completed_at on public.tasks(completed_at) where completed_at is not null;
+
+-- Everything p_user_id did between p_start and p_end (inclusive) that the
+-- caller may see: private logs and tasks only for the member themselves and
+-- admins, private group messages only for members of that group.
+create or replace function public.activity_items(p_user_id uuid, p_start date, p_end date)
+returns table (day date, kind text, item_id uuid, title text, created_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with viewer as (
+    select auth.uid() = p_user_id
+        or exists (select 1 from public.user_roles ur where ur.user_id = auth.uid() and ur.role = 'admin')
+        as full_access
+  )
+  select l.created_at::date, 'log', l.id, l.title, l.created_at
+  from public.daily_logs l, viewer
+  where l.user_id = p_user_id
+    and l.created_at >= p_start and l.created_at < p_end + 1
+    and (viewer.full_access or coalesce(l.is_public, false))
+
+  union all
+
+  select t.completed_at::date, 'task', t.id, t.title, t.completed_at
+  from public.tasks t, viewer
+  where coalesce(t.assigned_to, t.user_id) = p_user_id
+    and t.completed_at >= p_start and t.completed_at < p_end + 1
+    and (viewer.full_access or coalesce(t.is_public, false))
+
+  union all
+
+  select bp.created_at::date, 'post', bp.id, bp.title, bp.created_at
+  from public.blog_posts bp
+  where bp.user_id = p_user_id
+    and bp.created_at >= p_start and bp.created_at < p_end + 1
+
+  union all
+
+  select m.created_at::date, 'message', m.id, left(m.content, 140), m.created_at
+  from public.messages m
+  left join public.groups g on g.id = m.group_id
+  cross join viewer
+  where m.user_id = p_user_id
+    and not coalesce(m.is_deleted, false)
+    and m.created_at >= p_start and m.created_at < p_end + 1
+    and (
+      viewer.full_access
+      or not coalesce(g.is_private, false)
+      or public.is_group_member(m.group_id, auth.uid())
+    )
+$$;
+
+revoke execute on function public.activity_items(uuid, date, date) from public, anon, authenticated;
+
+-- Per-day counts for the heatmap; only days with activity are returned.
+create or replace function public.get_activity_heatmap(p_user_id uuid, p_start date, p_end date)
+returns table (day date, logs int, tasks int, posts int, messages int, total int)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+  -- a year plus the days needed to start the first column on a Sunday
+  if p_end < p_start or p_end - p_start > 371 then
+    raise exception 'Heatmap range must be at most 53 weeks';
+  end if;
+
+  return query
+  select a.day,
+         (count(*) filter (where a.kind = 'log'))::int,
+         (count(*) filter (where a.kind = 'task'))::int,
+         (count(*) filter (where a.kind = 'post'))::int,
+         (count(*) filter (where a.kind = 'message'))::int,
+         count(*)::int
+  from public.activity_items(p_user_id, p_start, p_end) a
+  group by a.day
+  order by a.day;
+end;
+$$;
+
+-- The items behind one heatmap cell.
+create or replace function public.get_activity_day(p_user_id uuid, p_day date)
+returns table (kind text, item_id uuid, title text, created_at timestamptz)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  return query
+  select a.kind, a.item_id, a.title, a.created_at
+  from public.activity_items(p_user_id, p_day, p_day) a
+  order by a.created_at;
+end;
+$$;
@@ -0,0 +1,430 @@
+-- Streaks by the member's own calendar day, with streak freezes.
+-- profiles.timezone decides where a day starts and ends. A freeze is earned
+-- at every 7th day of a streak (at most 3 banked) and is spent automatically
+-- on a day without a log, so the streak survives it. Every change is kept in
+-- streak_events for the streak history view.
+-- profiles.last_activity_date is the last local day covered by the streak,
+-- either logged or frozen.
+
+create or replace function public.is_valid_timezone(p_timezone text)
+returns boolean
+language plpgsql
+stable
+as $$
+begin
+  perform now() at time zone p_timezone;
+  return true;
+exception when others then
+  return false;
+end;
+$$;
+
+alter table public.profiles
+  add column if not exists timezone text not null default 'UTC'
+    check (public.is_valid_timezone(timezone)),
+  add column if not exists streak_freezes int not null default 0
+    check (streak_freezes between 0 and 3),
+  add column if not exists longest_streak int not null default 0;
+
+update public.profiles
+set longest_streak = coalesce(streak, 0)
+where longest_streak < coalesce(streak, 0);
+
+create table if not exists public.streak_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  day date not null, -- local day in the member's timezone at the time
+  kind text not null check (kind in ('logged', 'freeze_earned', 'freeze_used', 'lost', 'admin_reset')),
+  streak int not null, -- streak after the event
+  freezes int not null, -- freezes banked after the event
+  lost_streak int, -- for 'lost' / 'admin_reset', the streak that ended
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_streak_events_user on public.streak_events(user_id, day desc, created_at desc);
+
+alter table public.streak_events enable row level security;
+
+create policy streak_events_owner_read on public.streak_events for select
+  using (auth.uid() = user_id);
+
+create policy streak_events_admin_read on public.streak_events for select
+  using (
+    exists (select 1 from public.user_roles ur where ur.user_id = auth.uid() and ur.role = 'admin')
+  );
+
+-- No insert/update/delete policies: rows are only written by the functions below.
+
+-- Streak columns change only through the functions below.
+create or replace function public.guard_profile_streak()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if (new.streak is distinct from old.streak
+      or new.streak_freezes is distinct from old.streak_freezes
+      or new.longest_streak is distinct from old.longest_streak
+      or new.last_activity_date is distinct from old.last_activity_date)
+     and coalesce(current_setting('app.streak', true), '') <> 'on' then
+    raise exception 'streaks can only change through handle_daily_streak';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger guard_profile_streak
+  before update of streak, streak_freezes, longest_streak, last_activity_date on public.profiles
+  for each row
+  execute function public.guard_profile_streak();
+
+-- The member's local date right now.
+create or replace function public.local_today(p_user_id uuid)
+returns date
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select (now() at time zone coalesce((select timezone from public.profiles where id = p_user_id), 'UTC'))::date
+$$;
+
+-- Settles the days between the last covered day and p_today (exclusive):
+-- spends one freeze per missed day when there are enough, otherwise the
+-- streak is lost. Freezes are kept when they can't cover the whole gap.
+create or replace function public.settle_streak(p_user_id uuid, p_today date)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  p public.profiles%rowtype;
+  missed int;
+begin
+  select * into p from public.profiles where id = p_user_id for update;
+  if not found
+     or coalesce(p.streak, 0) = 0
+     or p.last_activity_date is null
+     or p.last_activity_date >= p_today - 1 then
+    return;
+  end if;
+
+  missed := p_today - p.last_activity_date - 1;
+  perform set_config('app.streak', 'on', true);
+
+  if missed <= p.streak_freezes then
+    insert into public.streak_events (user_id, day, kind, streak, freezes)
+    select p_user_id, p.last_activity_date + g, 'freeze_used', p.streak, p.streak_freezes - g
+    from generate_series(1, missed) g;
+
+    update public.profiles
+    set streak_freezes = streak_freezes - missed,
+        last_activity_date = p_today - 1
+    where id = p_user_id;
+
+    perform public.notify_create(
+      p_user_id => p_user_id,
+      p_actor_id => p_user_id,
+      p_type => 'streak_freeze_used',
+      p_title => case when missed = 1 then 'A streak freeze saved your streak'
+                      else missed || ' streak freezes saved your streak' end,
+      p_body => 'Your ' || p.streak || '-day streak is safe. Write a log today to keep it going.',
+      p_meta => jsonb_build_object('streak', p.streak, 'freezes_left', p.streak_freezes - missed)
+    );
+  else
+    insert into public.streak_events (user_id, day, kind, streak, freezes, lost_streak)
+    values (p_user_id, p.last_activity_date + 1, 'lost', 0, p.streak_freezes, p.streak);
+
+    update public.profiles set streak = 0 where id = p_user_id;
+  end if;
+end;
+$$;
+
+revoke execute on function public.settle_streak(uuid, date) from public, anon, authenticated;
+
+-- Called after a log is written, with that log. The day is taken from when the
+-- log was written, so logs that were queued offline and synced later count
+-- for their own day; it is clamped to the last week so old timestamps can't
+-- rewrite history. post_count is the number of logs the member has.
+drop function if exists public.handle_daily_streak(uuid);
+
+create or replace function public.handle_daily_streak(p_log_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  user_id_input uuid := auth.uid();
+  logged_at timestamptz;
+  p public.profiles%rowtype;
+  log_day date;
+  new_streak int;
+  new_freezes int;
+begin
+  select l.created_at into logged_at
+  from public.daily_logs l
+  where l.id = p_log_id and l.user_id = user_id_input;
+  if not found then
+    raise exception 'log not found';
+  end if;
+
+  select * into p from public.profiles where id = user_id_input for update;
+  if not found then
+    raise exception 'profile not found';
+  end if;
+
+  log_day := (greatest(least(coalesce(logged_at, now()), now()), now() - interval '7 days')
+              at time zone p.timezone)::date;
+
+  perform public.settle_streak(user_id_input, log_day);
+  select * into p from public.profiles where id = user_id_input;
+
+  perform set_config('app.streak', 'on', true);
+  update public.profiles
+  set post_count = (select count(*) from public.daily_logs where user_id = user_id_input)
+  where id = user_id_input;
+
+  -- already counted (or an older log synced late)
+  if p.last_activity_date is not null and p.last_activity_date >= log_day then
+    return;
+  end if;
+
+  new_streak := case
+    when coalesce(p.streak, 0) > 0 and p.last_activity_date = log_day - 1 then p.streak + 1
+    else 1
+  end;
+  new_freezes := p.streak_freezes;
+
+  insert into public.streak_events (user_id, day, kind, streak, freezes)
+  values (user_id_input, log_day, 'logged', new_streak, new_freezes);
+
+  if new_streak % 7 = 0 and new_freezes < 3 then
+    new_freezes := new_freezes + 1;
+    insert into public.streak_events (user_id, day, kind, streak, freezes)
+    values (user_id_input, log_day, 'freeze_earned', new_streak, new_freezes);
+  end if;
+
+  update public.profiles
+  set streak = new_streak,
+      streak_freezes = new_freezes,
+      longest_streak = greatest(longest_streak, new_streak),
+      last_activity_date = log_day
+  where id = user_id_input;
+end;
+$$;
+
+create or replace function public.reset_streak(p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  p public.profiles%rowtype;
+begin
+  if not exists (select 1 from public.user_roles ur where ur.user_id = auth.uid() and ur.role = 'admin') then
+    raise exception 'not authorized';
+  end if;
+
+  select * into p from public.profiles where id = p_user_id for update;
+  if not found then
+    return;
+  end if;
+
+  perform set_config('app.streak', 'on', true);
+  update public.profiles set streak = 0 where id = p_user_id;
+
+  insert into public.streak_events (user_id, day, kind, streak, freezes, lost_streak)
+  values (p_user_id, public.local_today(p_user_id), 'admin_reset', 0, p.streak_freezes, coalesce(p.streak, 0));
+end;
+$$;
+
+-- Hourly, so each timezone's midnight is handled within the hour.
+create or replace function public.job_settle_streaks()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+begin
+  for r in
+    select p.id, (now() at time zone p.timezone)::date as today
+    from public.profiles p
+    where coalesce(p.streak, 0) > 0
+      and p.last_activity_date < (now() at time zone p.timezone)::date - 1
+  loop
+    perform public.settle_streak(r.id, r.today);
+  end loop;
+end;
+$$;
+
+revoke execute on function public.job_settle_streaks() from public, anon, authenticated;
+
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('settle-streaks', '7 * * * *', 'select public.job_settle_streaks()');
+  end if;
+end;
+$$;
+
+-- Recurring tasks follow the owner's calendar too: occurrences are due at the
+-- end of their day in the owner's timezone, and "today" is the owner's local day.
+create or replace function public.end_of_local_day(p_day date, p_timezone text)
+returns timestamptz
+language sql
+stable
+set search_path = public
+as $$
+  select ((p_day + 1)::timestamp - interval '1 second') at time zone coalesce(p_timezone, 'UTC')
+$$;
+
+-- Same as before, with the deadline at the end of the due day in the owner's timezone.
+create or replace function public.spawn_series_task(p_series_id uuid, p_not_before date default null)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  s public.task_series%rowtype;
+  tz text;
+  due date;
+  new_id uuid;
+begin
+  select * into s from public.task_series where id = p_series_id for update;
+  if not found or not s.is_active then
+    return null;
+  end if;
+
+  select coalesce(p.timezone, 'UTC') into tz from public.profiles p where p.id = s.user_id;
+
+  if exists (
+    select 1 from public.tasks
+    where series_id = s.id
+      and status <> 'completed'
+      and (deadline at time zone coalesce(tz, 'UTC'))::date >= coalesce(p_not_before, s.start_date)
+  ) then
+    return null;
+  end if;
+
+  if s.last_due is null then
+    due := case when s.frequency in ('daily', 'interval') then s.start_date
+                else public.task_series_next_date(s.frequency, s.interval_days, s.weekdays, s.start_date - 1)
+           end;
+  else
+    due := public.task_series_next_date(s.frequency, s.interval_days, s.weekdays, s.last_due);
+  end if;
+
+  while p_not_before is not null and due < p_not_before loop
+    due := public.task_series_next_date(s.frequency, s.interval_days, s.weekdays, due);
+  end loop;
+
+  if (s.until_date is not null and due > s.until_date)
+     or (s.max_count is not null and s.occurrences >= s.max_count) then
+    update public.task_series set is_active = false where id = s.id;
+    return null;
+  end if;
+
+  insert into public.tasks (user_id, title, description, priority, is_public, tags, deadline, status, completion_percentage, series_id)
+  values (s.user_id, s.title, s.description, s.priority, s.is_public, s.tags, public.end_of_local_day(due, tz), 'todo', 0, s.id)
+  returning id into new_id;
+
+  update public.task_series
+  set occurrences = occurrences + 1,
+      last_due = due
+  where id = s.id;
+
+  return new_id;
+end;
+$$;
+
+revoke execute on function public.spawn_series_task(uuid, date) from public, anon, authenticated;
+
+-- Same as before; a series without a start date starts on the member's local today.
+create or replace function public.create_recurring_task(
+  p_title text,
+  p_frequency text,
+  p_description text default null,
+  p_priority text default 'medium',
+  p_is_public boolean default false,
+  p_interval_days int default null,
+  p_weekdays int[] default null,
+  p_start_date date default null,
+  p_until_date date default null,
+  p_max_count int default null,
+  p_tags text[] default '{}'
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  sid uuid;
+  tid uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated';
+  end if;
+
+  insert into public.task_series (
+    user_id, title, description, priority, is_public, tags, frequency, interval_days, weekdays, start_date, until_date, max_count
+  ) values (
+    auth.uid(), p_title, p_description, p_priority, p_is_public, coalesce(p_tags, '{}'), p_frequency, p_interval_days, p_weekdays,
+    coalesce(p_start_date, public.local_today(auth.uid())), p_until_date, p_max_count
+  )
+  returning id into sid;
+
+  tid := public.spawn_series_task(sid);
+  if tid is null then
+    raise exception 'recurrence rule produces no occurrences';
+  end if;
+  return tid;
+end;
+$$;
+
+-- Same as before; the next occurrence counts from the owner's local today.
+create or replace function public.spawn_next_on_completion()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.spawn_series_task(new.series_id, public.local_today(new.user_id));
+  return null;
+end;
+$$;
+
+-- Hourly now, so each series rolls over soon after its owner's midnight.
+create or replace function public.job_roll_recurring_tasks()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  r record;
+begin
+  for r in
+    select s.id, public.local_today(s.user_id) as today
+    from public.task_series s
+    where s.is_active and s.last_due < public.local_today(s.user_id)
+  loop
+    perform public.spawn_series_task(r.id, r.today);
+  end loop;
+end;
+$$;
+
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('roll-recurring-tasks', '5 * * * *', 'select public.job_roll_recurring_tasks()');
+  end if;
+end;
+$$;
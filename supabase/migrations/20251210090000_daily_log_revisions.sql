@@ -0,0 +1,136 @@
+-- Editable daily logs. Every edit keeps the version it replaced in
+-- daily_log_revisions, and a log shared with the community keeps its
+-- blog_posts copy (now linked through blog_posts.daily_log_id) in sync.
+
+alter table public.blog_posts
+  add column if not exists daily_log_id uuid references public.daily_logs(id) on delete set null;
+
+create unique index if not exists idx_blog_posts_daily_log on public.blog_posts(daily_log_id)
+  where daily_log_id is not null;
+
+-- Link posts shared before the column existed: same author, title and
+-- content, written within a few minutes of the log.
+with matches as (
+  select distinct on (l.id) l.id as log_id, bp.id as post_id
+  from public.daily_logs l
+  join public.blog_posts bp
+    on bp.user_id = l.user_id
+   and bp.title = l.title
+   and bp.content = l.content
+   and bp.daily_log_id is null
+   and abs(extract(epoch from (bp.created_at - l.created_at))) < 300
+  where l.is_public
+  order by l.id, abs(extract(epoch from (bp.created_at - l.created_at)))
+)
+update public.blog_posts bp
+set daily_log_id = m.log_id
+from matches m
+where bp.id = m.post_id;
+
+alter table public.daily_logs
+  add column if not exists revision_count int not null default 0;
+
+create table if not exists public.daily_log_revisions (
+  id uuid primary key default gen_random_uuid(),
+  log_id uuid not null references public.daily_logs(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  revision int not null, -- 1 is the log as first written
+  title text not null,
+  content text not null,
+  tags text[] not null default '{}',
+  mood text,
+  mood_score smallint,
+  image_url text,
+  is_public boolean not null default false,
+  template_id uuid references public.log_templates(id) on delete set null,
+  sections jsonb not null default '[]',
+  created_at timestamptz not null default now(), -- when this version was replaced
+  unique (log_id, revision)
+);
+
+create index if not exists idx_daily_log_revisions_log on public.daily_log_revisions(log_id, revision desc);
+
+alter table public.daily_log_revisions enable row level security;
+
+create policy daily_log_revisions_owner_read on public.daily_log_revisions for select
+  using (auth.uid() = user_id);
+
+create policy daily_log_revisions_admin_read on public.daily_log_revisions for select
+  using (
+    exists (select 1 from public.user_roles ur where ur.user_id = auth.uid() and ur.role = 'admin')
+  );
+
+-- No insert/update/delete policies: rows are only written by the trigger below.
+
+-- Keeps the replaced version when anything a member can edit changes.
+-- revision_count is maintained here only.
+create or replace function public.record_daily_log_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.revision_count := old.revision_count;
+
+  if (old.title, old.content, old.tags, old.mood, old.mood_score, old.image_url,
+      old.is_public, old.template_id, old.sections)
+     is distinct from
+     (new.title, new.content, new.tags, new.mood, new.mood_score, new.image_url,
+      new.is_public, new.template_id, new.sections) then
+    insert into public.daily_log_revisions (
+      log_id, user_id, revision, title, content, tags, mood, mood_score,
+      image_url, is_public, template_id, sections
+    )
+    values (
+      old.id, old.user_id, old.revision_count + 1, old.title, old.content, coalesce(old.tags, '{}'),
+      old.mood, old.mood_score, old.image_url, coalesce(old.is_public, false), old.template_id, old.sections
+    );
+    new.revision_count := old.revision_count + 1;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- runs after normalize_daily_log_mood (triggers fire in name order), so moods compare normalized
+create trigger record_daily_log_revision
+  before update on public.daily_logs
+  for each row
+  execute function public.record_daily_log_revision();
+
+-- Mirrors an edited log onto its community post. Sharing a private log
+-- creates the post; making a shared log private removes it.
+create or replace function public.sync_daily_log_post()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(new.is_public, false) then
+    update public.blog_posts
+    set title = new.title,
+        content = new.content,
+        tags = new.tags,
+        image_url = new.image_url
+    where daily_log_id = new.id;
+
+    if not found and not coalesce(old.is_public, false) then
+      insert into public.blog_posts (user_id, title, content, tags, image_url, daily_log_id)
+      values (new.user_id, new.title, new.content, new.tags, new.image_url, new.id);
+    end if;
+  elsif coalesce(old.is_public, false) then
+    delete from public.blog_posts where daily_log_id = new.id;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger sync_daily_log_post
+  after update of title, content, tags, image_url, is_public on public.daily_logs
+  for each row
+  when ((old.title, old.content, old.tags, old.image_url, old.is_public)
+        is distinct from (new.title, new.content, new.tags, new.image_url, new.is_public))
+  execute function public.sync_daily_log_post();
@@ -15,12 +15,18 @@ create or replace function public.reset_points(p_user_id uuid)
 returns void
 language plpgsql
 security definer
+set search_path = public
 as $$
+declare
+  balance int;
 begin
   if not exists (select 1 from public.user_roles ur where ur.user_id = auth.uid() and ur.role = 'admin') then
     raise exception 'not authorized';
   end if;
-  update public.profiles set points = 0 where id = p_user_id;
+  select coalesce(sum(delta), 0) into balance
+  from public.points_transactions
+  where user_id = p_user_id;
+  perform public.apply_points_transaction(p_user_id, -balance, 'admin_reset', null, 'Reset by admin');
 end;
 $$;
 
@@ -38,15 +44,20 @@ returns uuid
 language plpgsql
 security definer
 as $$
-declare rid uuid;
+declare
+  rid uuid;
+  m record;
 begin
   if not exists (select 1 from public.user_roles ur where ur.user_id = auth.uid() and ur.role = 'admin') then
     raise exception 'not authorized';
   end if;
+  select * into m from public.get_weekly_metrics(p_user_id, p_week_start);
   insert into public.weekly_reports as wr (
-    user_id, week_start, week_end, summary, achievements, improvements, points_gained, goals_next_week, created_by
+    user_id, week_start, week_end, summary, achievements, improvements, points_gained, goals_next_week,
+    tasks_completed_count, logs_count, focused_hours, created_by
   ) values (
-    p_user_id, p_week_start, p_week_end, p_summary, p_achievements, p_improvements, p_points_gained, p_goals_next_week, auth.uid()
+    p_user_id, p_week_start, p_week_end, p_summary, p_achievements, p_improvements, p_points_gained, p_goals_next_week,
+    m.tasks_completed_count, m.logs_count, m.focused_hours, auth.uid()
   )
   on conflict (user_id, week_start)
   do update set
@@ -56,6 +67,9 @@ begin
     improvements = excluded.improvements,
     points_gained = excluded.points_gained,
     goals_next_week = excluded.goals_next_week,
+    tasks_completed_count = excluded.tasks_completed_count,
+    logs_count = excluded.logs_count,
+    focused_hours = excluded.focused_hours,
     created_by = excluded.created_by
   returning id into rid;
   return rid;
@@ -111,10 +125,9 @@ as $$
     select count(*) cnt from public.daily_logs
     where user_id = p_user_id and created_at::date between p_start and p_end
   ), points as (
-    select coalesce(max(points), 0) - coalesce(min(points), 0) as gained
-    from (
-      select points from public.profiles where id = p_user_id
-    ) s
+    select coalesce(sum(delta), 0) as gained
+    from public.points_transactions
+    where user_id = p_user_id and created_at::date between p_start and p_end
   )
   select coalesce(tasks.cnt,0), coalesce(logs.cnt,0), coalesce(points.gained,0)
   from tasks, logs, points
@@ -9,6 +9,7 @@ create table if not exists public.weekly_reports (
   points_gained int,
   tasks_completed_count int,
   logs_count int,
+  focused_hours numeric(6, 1),
   suggestions text[],
   goals_next_week text[],
   created_at timestamptz default now(),